@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { SigningKeyService } from '@/lib/auth/signing-keys';
+import { withRateLimit } from '@/lib/auth/middleware';
+
+const handler = withRateLimit('well-known.jwks', { limit: 60, windowMs: 60 * 1000, key: 'ip' })( // 60 requests per minute
+    async (): Promise<NextResponse> => {
+        try {
+            const jwks = await SigningKeyService.getJwks();
+
+            // Staged keys are published ahead of activation, so verifiers may cache for a while
+            return NextResponse.json(jwks, {
+                headers: { 'Cache-Control': 'public, max-age=300' },
+            });
+
+        } catch (error) {
+            console.error('JWKS error:', error);
+
+            return NextResponse.json(
+                { error: 'Failed to load signing keys' },
+                { status: 500 }
+            );
+        }
+    }
+);
+
+export { handler as GET };
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { JWTService } from '@/lib/auth/jwt';
+import { auditLogFilterSchema, createAuditExportStream, AUDIT_EXPORT_FORMATS } from '@/lib/audit';
+import { withAdmin, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const exportAuditLogsSchema = auditLogFilterSchema.extend({
+    format: z.enum(AUDIT_EXPORT_FORMATS).optional().default('csv'),
+});
+
+const CONTENT_TYPES = {
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+const handler = withCors(
+    withRateLimit('admin.audit-logs.export', { limit: 10, windowMs: 60 * 60 * 1000 })( // 10 exports per hour
+        withAdmin(async (req): Promise<NextResponse> => {
+            try {
+                const { format, ...filters } = exportAuditLogsSchema.parse(
+                    Object.fromEntries(req.nextUrl.searchParams)
+                );
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                // Exports leave the system, so record who took one and what it covered
+                await JWTService.createAuditLog({
+                    actorId: req.user!.id,
+                    action: 'AUDIT_LOGS_EXPORTED',
+                    targetResource: 'audit_log',
+                    metadata: {
+                        format,
+                        filters: {
+                            ...filters,
+                            from: filters.from?.toISOString(),
+                            to: filters.to?.toISOString(),
+                        },
+                    },
+                    ipAddress,
+                    userAgent,
+                });
+
+                const fileName = `audit-logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+                return new NextResponse(createAuditExportStream(filters, format), {
+                    headers: {
+                        'Content-Type': CONTENT_TYPES[format],
+                        'Content-Disposition': `attachment; filename="${fileName}"`,
+                        'Cache-Control': 'no-store',
+                    },
+                });
+
+            } catch (error) {
+                console.error('Export audit logs error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                return NextResponse.json(
+                    { error: 'Failed to export audit logs' },
+                    { status: 500 }
+                );
+            }
+        })
+    )
+);
+
+export { handler as GET };
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AuditLogService, auditLogFilterSchema, MAX_AUDIT_PAGE_SIZE } from '@/lib/audit';
+import { withAdmin, withCors, withRateLimit } from '@/lib/auth/middleware';
+
+// Validation schema
+const listAuditLogsSchema = auditLogFilterSchema.extend({
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_AUDIT_PAGE_SIZE).optional().default(50),
+});
+
+const handler = withCors(
+    withRateLimit('admin.audit-logs.list', { limit: 120, windowMs: 60 * 1000 })( // 120 requests per minute
+        withAdmin(async (req): Promise<NextResponse> => {
+            try {
+                const { cursor, limit, ...filters } = listAuditLogsSchema.parse(
+                    Object.fromEntries(req.nextUrl.searchParams)
+                );
+
+                const page = await AuditLogService.query(filters, { cursor, limit });
+
+                return NextResponse.json(page);
+
+            } catch (error) {
+                console.error('List audit logs error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                if (error instanceof Error && error.message.includes('Invalid cursor')) {
+                    return NextResponse.json(
+                        { error: 'Invalid cursor' },
+                        { status: 400 }
+                    );
+                }
+
+                return NextResponse.json(
+                    { error: 'Failed to retrieve audit logs' },
+                    { status: 500 }
+                );
+            }
+        })
+    )
+);
+
+export { handler as GET };
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { JWTService } from '@/lib/auth/jwt';
+import { AuditChainService } from '@/lib/audit';
+import { SIGNING_ALGORITHMS } from '@/lib/auth/signing-keys';
+import { withAdmin, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const verifyChainSchema = z.object({
+    checkpoints: z.array(z.object({
+        version: z.literal(2),
+        sequence: z.number().int().positive(),
+        hash: z.string().regex(/^[0-9a-f]{64}$/, 'Invalid hash'),
+        createdAt: z.string(),
+        kid: z.string(),
+        algorithm: z.enum(SIGNING_ALGORITHMS),
+        signature: z.string(),
+    })).max(1000).optional().default([]),
+    // Public keys the caller kept outside the database; checkpoints signed by any other key fail
+    publicKeys: z.array(z.looseObject({
+        kid: z.string(),
+        kty: z.string(),
+    })).max(100).optional().default([]),
+});
+
+const handler = withCors(
+    withRateLimit('admin.audit-logs.verify', { limit: 5, windowMs: 60 * 60 * 1000 })( // 5 verifications per hour
+        withAdmin(async (req): Promise<NextResponse> => {
+            try {
+                // The body is optional: without checkpoints only the chain itself is checked
+                const body = await req.json().catch(() => ({}));
+                const { checkpoints, publicKeys } = verifyChainSchema.parse(body);
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                const result = await AuditChainService.verify(checkpoints, publicKeys);
+
+                await JWTService.createAuditLog({
+                    actorId: req.user!.id,
+                    action: 'AUDIT_CHAIN_VERIFIED',
+                    targetResource: 'audit_log',
+                    metadata: {
+                        valid: result.valid,
+                        checkedEntries: result.checkedEntries,
+                        checkpoints: checkpoints.length,
+                        brokenAt: result.brokenAt,
+                    },
+                    ipAddress,
+                    userAgent,
+                    success: result.valid,
+                });
+
+                return NextResponse.json(result);
+
+            } catch (error) {
+                console.error('Verify audit chain error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                return NextResponse.json(
+                    { error: 'Failed to verify audit log' },
+                    { status: 500 }
+                );
+            }
+        })
+    )
+);
+
+export { handler as POST };
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+    ImpersonationService,
+    DEFAULT_IMPERSONATION_MINUTES,
+    MAX_IMPERSONATION_MINUTES,
+} from '@/lib/auth/impersonation';
+import { withAdmin, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const startImpersonationSchema = z.object({
+    userId: z.string().uuid('Invalid user ID'),
+    reason: z.string().trim().min(3, 'A reason is required').max(500),
+    durationMinutes: z.number().int().min(1).max(MAX_IMPERSONATION_MINUTES).optional().default(DEFAULT_IMPERSONATION_MINUTES),
+});
+
+const handler = withCors(
+    withRateLimit('admin.impersonation.start', { limit: 10, windowMs: 15 * 60 * 1000 })( // 10 requests per 15 minutes
+        withAdmin(async (req): Promise<NextResponse> => {
+            try {
+                const body = await req.json();
+                const { userId, reason, durationMinutes } = startImpersonationSchema.parse(body);
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                const { accessToken, expiresIn, session } = await ImpersonationService.start(
+                    req.user!.id,
+                    userId,
+                    reason,
+                    durationMinutes,
+                    ipAddress,
+                    userAgent
+                );
+
+                const response = NextResponse.json({
+                    impersonation: session,
+                    accessToken,
+                    expiresIn,
+                });
+
+                // Replace only the access token: the admin's refresh token cookie restores their
+                // own session once impersonation ends or expires
+                const isSecure = process.env.NODE_ENV === 'production';
+
+                response.cookies.set('access_token', accessToken, {
+                    httpOnly: false, // Client needs to read this for API calls
+                    secure: isSecure,
+                    sameSite: isSecure ? 'strict' : 'lax',
+                    maxAge: expiresIn,
+                    path: '/',
+                });
+
+                return response;
+
+            } catch (error) {
+                console.error('Start impersonation error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                if (error instanceof Error) {
+                    if (error.message.includes('not found')) {
+                        return NextResponse.json(
+                            { error: 'User not found' },
+                            { status: 404 }
+                        );
+                    }
+
+                    if (
+                        error.message.includes('Cannot impersonate') ||
+                        error.message.includes('cannot be impersonated') ||
+                        error.message.includes('not active')
+                    ) {
+                        return NextResponse.json(
+                            { error: error.message },
+                            { status: 400 }
+                        );
+                    }
+                }
+
+                return NextResponse.json(
+                    { error: 'Failed to start impersonation' },
+                    { status: 500 }
+                );
+            }
+        })
+    )
+);
+
+export { handler as POST };
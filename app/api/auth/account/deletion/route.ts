@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { AccountService } from '@/lib/auth/account';
+import { withAuth, withRecentAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+const statusHandler = withCors(
+    withAuth(async (req): Promise<NextResponse> => {
+        try {
+            const status = await AccountService.getDeletionStatus(req.user!.id);
+
+            return NextResponse.json(status);
+
+        } catch (error) {
+            console.error('Get account deletion status error:', error);
+
+            return NextResponse.json(
+                { error: 'Failed to retrieve account deletion status' },
+                { status: 500 }
+            );
+        }
+    }, { scopes: ['profile:read'] })
+);
+
+const scheduleHandler = withCors(
+    withRateLimit('auth.account.deletion', { limit: 5, windowMs: 60 * 60 * 1000 })( // 5 requests per hour
+        withAuth(
+            withRecentAuth()(async (req): Promise<NextResponse> => {
+                try {
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+                    const scheduledFor = await AccountService.scheduleDeletion(req.user!.id, ipAddress, userAgent);
+
+                    // Every session was revoked, this one included
+                    const response = NextResponse.json({
+                        message: 'Account scheduled for deletion. Sign in before then to cancel.',
+                        scheduledFor,
+                    });
+
+                    response.cookies.set('access_token', '', {
+                        httpOnly: false,
+                        secure: process.env.NODE_ENV === 'production',
+                        sameSite: 'strict',
+                        maxAge: 0,
+                        path: '/',
+                    });
+
+                    response.cookies.set('refresh_token', '', {
+                        httpOnly: true,
+                        secure: process.env.NODE_ENV === 'production',
+                        sameSite: 'strict',
+                        maxAge: 0,
+                        path: '/',
+                    });
+
+                    return response;
+
+                } catch (error) {
+                    console.error('Schedule account deletion error:', error);
+
+                    if (error instanceof Error) {
+                        if (error.message.includes('already scheduled')) {
+                            return NextResponse.json(
+                                { error: error.message, code: 'DELETION_ALREADY_SCHEDULED' },
+                                { status: 409 }
+                            );
+                        }
+
+                        if (error.message.includes('last administrator')) {
+                            return NextResponse.json(
+                                { error: error.message, code: 'LAST_ADMIN' },
+                                { status: 409 }
+                            );
+                        }
+                    }
+
+                    return NextResponse.json(
+                        { error: 'Failed to schedule account deletion' },
+                        { status: 500 }
+                    );
+                }
+            }),
+            { blockImpersonation: true }
+        )
+    )
+);
+
+const cancelHandler = withCors(
+    withAuth(async (req): Promise<NextResponse> => {
+        try {
+            const { ipAddress, userAgent } = getRequestMetadata(req);
+            await AccountService.cancelDeletion(req.user!.id, ipAddress, userAgent);
+
+            return NextResponse.json({
+                message: 'Account deletion cancelled',
+            });
+
+        } catch (error) {
+            console.error('Cancel account deletion error:', error);
+
+            if (error instanceof Error && error.message.includes('No account deletion')) {
+                return NextResponse.json(
+                    { error: error.message, code: 'DELETION_NOT_SCHEDULED' },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { error: 'Failed to cancel account deletion' },
+                { status: 500 }
+            );
+        }
+    }, { blockImpersonation: true })
+);
+
+export { statusHandler as GET, scheduleHandler as POST, cancelHandler as DELETE };
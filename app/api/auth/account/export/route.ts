@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { AccountService } from '@/lib/auth/account';
+import { withAuth, withRecentAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withRateLimit('auth.account.export', { limit: 5, windowMs: 60 * 60 * 1000 })( // 5 exports per hour
+        withAuth(
+            withRecentAuth()(async (req): Promise<NextResponse> => {
+                try {
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+                    const archive = await AccountService.exportData(req.user!.id, ipAddress, userAgent);
+                    const date = archive.exportedAt.slice(0, 10);
+
+                    return new NextResponse(JSON.stringify(archive, null, 2), {
+                        headers: {
+                            'Content-Type': 'application/json; charset=utf-8',
+                            'Content-Disposition': `attachment; filename="epop-account-${date}.json"`,
+                            'Cache-Control': 'no-store',
+                        },
+                    });
+
+                } catch (error) {
+                    console.error('Account export error:', error);
+
+                    return NextResponse.json(
+                        { error: 'Failed to export account data' },
+                        { status: 500 }
+                    );
+                }
+            }),
+            { blockImpersonation: true }
+        )
+    )
+);
+
+export { handler as GET };
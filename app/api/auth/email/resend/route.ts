@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { EmailVerificationService } from '@/lib/auth/email-verification';
+import { withAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withRateLimit('auth.email.resend', { limit: 3, windowMs: 15 * 60 * 1000 })( // 3 requests per 15 minutes
+        withAuth(async (req): Promise<NextResponse> => {
+            try {
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                await EmailVerificationService.sendVerificationEmail(req.user!.id, ipAddress, userAgent);
+
+                return NextResponse.json({
+                    message: 'Verification email sent'
+                });
+
+            } catch (error) {
+                console.error('Resend verification email error:', error);
+
+                if (error instanceof Error) {
+                    if (error.message.includes('already verified')) {
+                        return NextResponse.json(
+                            { error: 'Email is already verified', code: 'EMAIL_ALREADY_VERIFIED' },
+                            { status: 409 }
+                        );
+                    }
+
+                    if (error.message.includes('recently sent')) {
+                        return NextResponse.json(
+                            { error: error.message, code: 'VERIFICATION_COOLDOWN' },
+                            { status: 429 }
+                        );
+                    }
+                }
+
+                return NextResponse.json(
+                    { error: 'Failed to send verification email' },
+                    { status: 500 }
+                );
+            }
+        })
+    )
+);
+
+export { handler as POST };
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { EmailVerificationService } from '@/lib/auth/email-verification';
+import { withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const verifyEmailSchema = z.object({
+    token: z.string().min(1, 'Verification token is required'),
+});
+
+const handler = withCors(
+    withRateLimit('auth.email.verify', { limit: 10, windowMs: 15 * 60 * 1000, key: 'ip' })( // 10 requests per 15 minutes
+        async (req: NextRequest): Promise<NextResponse> => {
+            try {
+                // Parse and validate request body
+                const body = await req.json();
+                const { token } = verifyEmailSchema.parse(body);
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                await EmailVerificationService.verifyEmail(token, ipAddress, userAgent);
+
+                return NextResponse.json({
+                    message: 'Email verified successfully'
+                });
+
+            } catch (error) {
+                console.error('Email verification error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                if (error instanceof Error) {
+                    if (error.message.includes('has expired')) {
+                        return NextResponse.json(
+                            { error: 'Verification link has expired. Please request a new one.', code: 'TOKEN_EXPIRED' },
+                            { status: 400 }
+                        );
+                    }
+
+                    if (error.message.includes('Invalid or expired')) {
+                        return NextResponse.json(
+                            { error: 'Invalid or expired verification token' },
+                            { status: 400 }
+                        );
+                    }
+                }
+
+                return NextResponse.json(
+                    { error: 'Email verification failed' },
+                    { status: 500 }
+                );
+            }
+        }
+    )
+);
+
+export { handler as POST };
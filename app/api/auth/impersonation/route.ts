@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { ImpersonationService } from '@/lib/auth/impersonation';
+import { withAuth, withCors, getRequestMetadata } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withAuth(async (req): Promise<NextResponse> => {
+        try {
+            if (!req.impersonation) {
+                return NextResponse.json(
+                    { error: 'Not impersonating a user' },
+                    { status: 400 }
+                );
+            }
+
+            const { ipAddress, userAgent } = getRequestMetadata(req);
+
+            await ImpersonationService.end(req.impersonation, ipAddress, userAgent);
+
+            // Dropping the impersonation token lets the client refresh back into the admin's session
+            const response = NextResponse.json({
+                message: 'Impersonation ended'
+            });
+
+            response.cookies.set('access_token', '', {
+                httpOnly: false,
+                secure: process.env.NODE_ENV === 'production',
+                sameSite: 'strict',
+                maxAge: 0,
+                path: '/',
+            });
+
+            return response;
+
+        } catch (error) {
+            console.error('End impersonation error:', error);
+
+            return NextResponse.json(
+                { error: 'Failed to end impersonation' },
+                { status: 500 }
+            );
+        }
+    })
+);
+
+export { handler as DELETE };
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { PasswordService } from '@/lib/auth/password';
+import { JWTService } from '@/lib/auth/jwt';
+import { LoginRiskService, getRequestLocation } from '@/lib/auth/login-risk';
+import { withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const challengeSchema = z.object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+const handler = withCors(
+    withRateLimit('auth.login.challenge', { limit: 10, windowMs: 15 * 60 * 1000, key: 'ip' })( // 10 attempts per 15 minutes
+        async (req: NextRequest): Promise<NextResponse> => {
+            try {
+                // Parse and validate request body
+                const body = await req.json();
+                const { challengeToken, code } = challengeSchema.parse(body);
+
+                const challenge = await JWTService.verifyLoginChallengeToken(challengeToken);
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                const [user] = await db
+                    .select()
+                    .from(users)
+                    .where(eq(users.id, challenge.userId))
+                    .limit(1);
+
+                if (!user || user.status !== 'ACTIVE') {
+                    return NextResponse.json(
+                        { error: 'Invalid login challenge' },
+                        { status: 401 }
+                    );
+                }
+
+                const isLocked = await PasswordService.isUserLocked(user.id);
+                if (isLocked) {
+                    return NextResponse.json(
+                        {
+                            error: 'Account temporarily locked due to too many failed login attempts. Please try again later.',
+                            code: 'ACCOUNT_LOCKED'
+                        },
+                        { status: 423 }
+                    );
+                }
+
+                const isValid = await LoginRiskService.verifyChallenge(
+                    user.id,
+                    challenge.challengeId,
+                    code,
+                    ipAddress,
+                    userAgent
+                );
+
+                if (!isValid) {
+                    return NextResponse.json(
+                        { error: 'Invalid verification code', code: 'LOGIN_CHALLENGE_INVALID_CODE' },
+                        { status: 401 }
+                    );
+                }
+
+                await PasswordService.resetFailedLoginAttempts(user.id, ipAddress, userAgent, {
+                    location: getRequestLocation(req.headers),
+                    loginChallengeId: challenge.challengeId,
+                });
+
+                // Expired passwords still have to be replaced before tokens are issued
+                if (await PasswordService.isPasswordExpired(user.passwordChangedAt)) {
+                    return NextResponse.json({
+                        passwordChangeRequired: true,
+                        passwordChangeToken: await JWTService.generatePasswordChangeToken(user.id),
+                        expiresIn: 10 * 60, // 10 minutes in seconds
+                    });
+                }
+
+                // Generate tokens
+                const deviceFingerprint = userAgent;
+                const tokenPair = await JWTService.createTokenPair(
+                    user.id,
+                    deviceFingerprint,
+                    ipAddress,
+                    userAgent
+                );
+
+                // Set response
+                const response = NextResponse.json({
+                    user: {
+                        id: user.id,
+                        name: user.name,
+                        email: user.email,
+                        role: user.role,
+                        emailVerified: user.emailVerified,
+                        avatarUrl: user.avatarUrl,
+                    },
+                    tokenPair,
+                });
+
+                // Set secure cookies
+                const isSecure = process.env.NODE_ENV === 'production';
+                const sameSite = isSecure ? 'strict' : 'lax';
+
+                response.cookies.set('access_token', tokenPair.accessToken, {
+                    httpOnly: false, // Client needs to read this for API calls
+                    secure: isSecure,
+                    sameSite,
+                    maxAge: tokenPair.expiresIn,
+                    path: '/',
+                });
+
+                // Keep the "remember me" choice made at the password step
+                const refreshMaxAge = challenge.rememberMe ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60; // 30 days or 7 days
+
+                response.cookies.set('refresh_token', tokenPair.refreshToken, {
+                    httpOnly: true, // HTTP-only for security
+                    secure: isSecure,
+                    sameSite,
+                    maxAge: refreshMaxAge,
+                    path: '/',
+                });
+
+                return response;
+
+            } catch (error) {
+                console.error('Login challenge error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                if (error instanceof Error) {
+                    if (error.message.includes('Login challenge expired')) {
+                        return NextResponse.json(
+                            { error: 'Verification code expired. Please sign in again.', code: 'LOGIN_CHALLENGE_EXPIRED' },
+                            { status: 401 }
+                        );
+                    }
+
+                    if (error.message.includes('Invalid login challenge')) {
+                        return NextResponse.json(
+                            { error: 'Invalid login challenge' },
+                            { status: 401 }
+                        );
+                    }
+                }
+
+                return NextResponse.json(
+                    { error: 'Login verification failed' },
+                    { status: 500 }
+                );
+            }
+        }
+    )
+);
+
+export { handler as POST };
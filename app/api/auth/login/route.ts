@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { eq, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 import { db } from '@/db';
 import { users } from '@/db/schema';
 import { PasswordService } from '@/lib/auth/password';
 import { JWTService } from '@/lib/auth/jwt';
-import { withCors, withRateLimit } from '@/lib/auth/middleware';
+import { MFAService } from '@/lib/auth/mfa';
+import { LoginRiskService, getRequestLocation } from '@/lib/auth/login-risk';
+import { withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
 
 // Validation schema
 const loginSchema = z.object({
@@ -15,151 +17,239 @@ const loginSchema = z.object({
 });
 
 const handler = withCors(
-    withRateLimit(5, 15 * 60 * 1000)( // 5 attempts per 15 minutes
-        async (req: NextRequest): Promise<NextResponse> => {
-            try {
-                // Parse and validate request body
-                const body = await req.json();
-                const { email, password, rememberMe } = loginSchema.parse(body);
-
-                // Find user by email
-                const [user] = await db
-                    .select()
-                    .from(users)
-                    .where(eq(users.email, email.toLowerCase()))
-                    .limit(1);
-
-                if (!user) {
-                    // Don't reveal that user doesn't exist for security
-                    return NextResponse.json(
-                        { error: 'Invalid email or password' },
-                        { status: 401 }
-                    );
-                }
+    withRateLimit('auth.login.ip', { limit: 20, windowMs: 15 * 60 * 1000, key: 'ip' })( // 20 attempts per 15 minutes from one address
+        withRateLimit('auth.login', { limit: 5, windowMs: 15 * 60 * 1000, key: 'email' })( // 5 attempts per 15 minutes per account
+            async (req: NextRequest): Promise<NextResponse> => {
+                try {
+                    // Parse and validate request body
+                    const body = await req.json();
+                    const { email, password, rememberMe } = loginSchema.parse(body);
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
 
-                // Check if user is locked out
-                const isLocked = await PasswordService.isUserLocked(user.id);
-                if (isLocked) {
-                    return NextResponse.json(
-                        {
-                            error: 'Account temporarily locked due to too many failed login attempts. Please try again later.',
-                            code: 'ACCOUNT_LOCKED'
-                        },
-                        { status: 423 }
-                    );
-                }
+                    // Find user by email
+                    const [user] = await db
+                        .select()
+                        .from(users)
+                        .where(eq(users.email, email.toLowerCase()))
+                        .limit(1);
 
-                // Verify password
-                const isPasswordValid = await PasswordService.verifyPassword(password, user.passwordHash);
+                    if (!user) {
+                        // Kept so bursts of failures across accounts can be spotted
+                        await JWTService.createAuditLog({
+                            action: 'LOGIN_FAILED',
+                            targetResource: 'user',
+                            metadata: {
+                                email: email.toLowerCase(),
+                                reason: 'unknown_user',
+                            },
+                            ipAddress,
+                            userAgent,
+                            success: false,
+                        });
 
-                if (!isPasswordValid) {
-                    // Record failed login attempt
-                    const ipAddress = req.headers.get('x-forwarded-for') || req.ip || 'unknown';
-                    const userAgent = req.headers.get('user-agent') || 'unknown';
+                        // Don't reveal that user doesn't exist for security
+                        return NextResponse.json(
+                            { error: 'Invalid email or password' },
+                            { status: 401 }
+                        );
+                    }
 
-                    await PasswordService.recordFailedLogin(user.id, ipAddress, userAgent);
+                    // Check if user is locked out
+                    const isLocked = await PasswordService.isUserLocked(user.id);
+                    if (isLocked) {
+                        return NextResponse.json(
+                            {
+                                error: 'Account temporarily locked due to too many failed login attempts. Please try again later.',
+                                code: 'ACCOUNT_LOCKED'
+                            },
+                            { status: 423 }
+                        );
+                    }
 
-                    return NextResponse.json(
-                        { error: 'Invalid email or password' },
-                        { status: 401 }
+                    // Verify password
+                    const isPasswordValid = await PasswordService.verifyPassword(password, user.passwordHash);
+
+                    if (!isPasswordValid) {
+                        // Record failed login attempt
+                        await PasswordService.recordFailedLogin(user.id, ipAddress, userAgent);
+
+                        return NextResponse.json(
+                            { error: 'Invalid email or password' },
+                            { status: 401 }
+                        );
+                    }
+
+                    // Upgrade outdated hashes while we have the plaintext; never block the login on it
+                    if (PasswordService.needsRehash(user.passwordHash)) {
+                        try {
+                            await PasswordService.rehashPassword(user.id, password, user.passwordHash, ipAddress, userAgent);
+                        } catch (error) {
+                            console.error('Password rehash error:', error);
+                        }
+                    }
+
+                    // Check if account is active
+                    if (user.status !== 'ACTIVE') {
+                        return NextResponse.json(
+                            {
+                                error: 'Account is not active',
+                                code: 'ACCOUNT_INACTIVE'
+                            },
+                            { status: 403 }
+                        );
+                    }
+
+                    // Compare with known devices and recent activity; flagged sign-ins may be challenged or blocked
+                    const loginContext = { ipAddress, userAgent, location: getRequestLocation(req.headers) };
+                    const risk = await LoginRiskService.assess(user.id, loginContext);
+
+                    if (risk.action !== 'allow') {
+                        await LoginRiskService.alert(user, risk, loginContext);
+                    }
+
+                    if (risk.action === 'block') {
+                        return NextResponse.json(
+                            {
+                                error: 'This sign-in looked suspicious and was blocked. Check your email for details.',
+                                code: 'LOGIN_BLOCKED'
+                            },
+                            { status: 403 }
+                        );
+                    }
+
+                    // The second factor already confirms the sign-in for MFA users; everyone else gets an emailed code
+                    if (risk.action === 'challenge' && !(await MFAService.isMfaEnabled(user.id))) {
+                        const challengeId = await LoginRiskService.createChallenge(user, risk, loginContext);
+
+                        return NextResponse.json({
+                            challengeRequired: true,
+                            challengeToken: await JWTService.generateLoginChallengeToken(user.id, challengeId, rememberMe),
+                            expiresIn: 10 * 60, // 10 minutes in seconds
+                        });
+                    }
+
+                    // Users with a second factor get a short-lived challenge instead of tokens
+                    if (await MFAService.isMfaEnabled(user.id)) {
+                        await JWTService.createAuditLog({
+                            actorId: user.id,
+                            action: 'MFA_CHALLENGE_ISSUED',
+                            targetResource: 'user',
+                            targetId: user.id,
+                            ipAddress,
+                            userAgent,
+                        });
+
+                        return NextResponse.json({
+                            mfaRequired: true,
+                            mfaToken: await JWTService.generateMfaChallengeToken(user.id, rememberMe),
+                            expiresIn: 5 * 60, // 5 minutes in seconds
+                        });
+                    }
+
+                    // Expired passwords must be replaced before tokens are issued. MFA users are asked after their
+                    // second factor (mfa/verify), so a password alone never unlocks the change.
+                    if (await PasswordService.isPasswordExpired(user.passwordChangedAt)) {
+                        await JWTService.createAuditLog({
+                            actorId: user.id,
+                            action: 'PASSWORD_EXPIRED',
+                            targetResource: 'user',
+                            targetId: user.id,
+                            ipAddress,
+                            userAgent,
+                        });
+
+                        return NextResponse.json({
+                            passwordChangeRequired: true,
+                            passwordChangeToken: await JWTService.generatePasswordChangeToken(user.id),
+                            expiresIn: 10 * 60, // 10 minutes in seconds
+                        });
+                    }
+
+                    // Reset failed login attempts
+                    await PasswordService.resetFailedLoginAttempts(user.id, ipAddress, userAgent, {
+                        location: loginContext.location,
+                        riskSignals: risk.signals,
+                    });
+
+                    // Generate tokens
+                    const deviceFingerprint = userAgent;
+                    const tokenPair = await JWTService.createTokenPair(
+                        user.id,
+                        deviceFingerprint,
+                        ipAddress,
+                        userAgent
                     );
-                }
 
-                // Check if account is active
-                if (user.status !== 'ACTIVE') {
-                    return NextResponse.json(
-                        {
-                            error: 'Account is not active',
-                            code: 'ACCOUNT_INACTIVE'
+                    // Update user data
+                    await db
+                        .update(users)
+                        .set({
+                            lastLoginAt: new Date(),
+                            updatedAt: new Date(),
+                        })
+                        .where(eq(users.id, user.id));
+
+                    // Set response
+                    const response = NextResponse.json({
+                        user: {
+                            id: user.id,
+                            name: user.name,
+                            email: user.email,
+                            role: user.role,
+                            emailVerified: user.emailVerified,
+                            avatarUrl: user.avatarUrl,
                         },
-                        { status: 403 }
-                    );
-                }
+                        tokenPair,
+                    });
+
+                    // Set secure cookies
+                    const isSecure = process.env.NODE_ENV === 'production';
+                    const sameSite = isSecure ? 'strict' : 'lax';
+
+                    response.cookies.set('access_token', tokenPair.accessToken, {
+                        httpOnly: false, // Client needs to read this for API calls
+                        secure: isSecure,
+                        sameSite,
+                        maxAge: tokenPair.expiresIn,
+                        path: '/',
+                    });
+
+                    // Set refresh token with longer expiry if "remember me" is checked
+                    const refreshMaxAge = rememberMe ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60; // 30 days or 7 days
+
+                    response.cookies.set('refresh_token', tokenPair.refreshToken, {
+                        httpOnly: true, // HTTP-only for security
+                        secure: isSecure,
+                        sameSite,
+                        maxAge: refreshMaxAge,
+                        path: '/',
+                    });
+
+                    return response;
+
+                } catch (error) {
+                    console.error('Login error:', error);
+
+                    if (error instanceof z.ZodError) {
+                        return NextResponse.json(
+                            {
+                                error: 'Validation failed',
+                                details: error.issues.map(err => ({
+                                    field: err.path.join('.'),
+                                    message: err.message
+                                }))
+                            },
+                            { status: 400 }
+                        );
+                    }
 
-                // Reset failed login attempts
-                const ipAddress = req.headers.get('x-forwarded-for') || req.ip || 'unknown';
-                const userAgent = req.headers.get('user-agent') || 'unknown';
-
-                await PasswordService.resetFailedLoginAttempts(user.id, ipAddress, userAgent);
-
-                // Generate tokens
-                const deviceFingerprint = userAgent;
-                const tokenPair = await JWTService.createTokenPair(
-                    user.id,
-                    deviceFingerprint,
-                    ipAddress,
-                    userAgent
-                );
-
-                // Update user data
-                await db
-                    .update(users)
-                    .set({
-                        lastLoginAt: new Date(),
-                        updatedAt: new Date(),
-                    })
-                    .where(eq(users.id, user.id));
-
-                // Set response
-                const response = NextResponse.json({
-                    user: {
-                        id: user.id,
-                        name: user.name,
-                        email: user.email,
-                        role: user.role,
-                        emailVerified: user.emailVerified,
-                        avatarUrl: user.avatarUrl,
-                    },
-                    tokenPair,
-                });
-
-                // Set secure cookies
-                const isSecure = process.env.NODE_ENV === 'production';
-                const sameSite = isSecure ? 'strict' : 'lax';
-
-                response.cookies.set('access_token', tokenPair.accessToken, {
-                    httpOnly: false, // Client needs to read this for API calls
-                    secure: isSecure,
-                    sameSite,
-                    maxAge: tokenPair.expiresIn,
-                    path: '/',
-                });
-
-                // Set refresh token with longer expiry if "remember me" is checked
-                const refreshMaxAge = rememberMe ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60; // 30 days or 7 days
-
-                response.cookies.set('refresh_token', tokenPair.refreshToken, {
-                    httpOnly: true, // HTTP-only for security
-                    secure: isSecure,
-                    sameSite,
-                    maxAge: refreshMaxAge,
-                    path: '/',
-                });
-
-                return response;
-
-            } catch (error) {
-                console.error('Login error:', error);
-
-                if (error instanceof z.ZodError) {
                     return NextResponse.json(
-                        {
-                            error: 'Validation failed',
-                            details: error.errors.map(err => ({
-                                field: err.path.join('.'),
-                                message: err.message
-                            }))
-                        },
-                        { status: 400 }
+                        { error: 'Login failed' },
+                        { status: 500 }
                     );
                 }
-
-                return NextResponse.json(
-                    { error: 'Login failed' },
-                    { status: 500 }
-                );
             }
-        }
+        )
     )
 );
 
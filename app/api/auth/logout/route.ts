@@ -1,16 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth, withCors, withRateLimit } from '@/lib/auth/middleware';
+import { withAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
 import { JWTService } from '@/lib/auth/jwt';
+import { ImpersonationService } from '@/lib/auth/impersonation';
 
 const handler = withCors(
-    withRateLimit(10, 60 * 1000)( // 10 requests per minute
+    withRateLimit('auth.logout', { limit: 10, windowMs: 60 * 1000 })( // 10 requests per minute
         withAuth(async (req): Promise<NextResponse> => {
             try {
                 const refreshToken = req.cookies.get('refresh_token')?.value;
 
+                // Signing out while impersonating ends the impersonation and the admin's own session
+                if (req.impersonation) {
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+                    await ImpersonationService.end(req.impersonation, ipAddress, userAgent);
+                }
+
                 if (refreshToken) {
                     // Revoke the refresh token
-                    await JWTService.revokeRefreshToken(refreshToken, req.user!.id);
+                    await JWTService.revokeRefreshToken(refreshToken, req.impersonation?.impersonatorId ?? req.user!.id);
                 }
 
                 // Clear cookies
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { MagicLinkService, MAGIC_LINK_BINDING_COOKIE } from '@/lib/auth/magic-link';
+import { withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const requestLinkSchema = z.object({
+    email: z.string().email('Invalid email address'),
+});
+
+const handler = withCors(
+    withRateLimit('auth.magic-link.request.ip', { limit: 10, windowMs: 15 * 60 * 1000, key: 'ip' })( // 10 requests per 15 minutes from one address
+        withRateLimit('auth.magic-link.request', { limit: 3, windowMs: 15 * 60 * 1000, key: 'email' })( // 3 requests per 15 minutes per email
+            async (req: NextRequest): Promise<NextResponse> => {
+                try {
+                    // Parse and validate request body
+                    const body = await req.json();
+                    const { email } = requestLinkSchema.parse(body);
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                    const { browserBinding, expiresInMinutes } = await MagicLinkService.requestLink(
+                        email,
+                        ipAddress,
+                        userAgent
+                    );
+
+                    // Same response whether or not the account exists to prevent user enumeration
+                    const response = NextResponse.json({
+                        message: 'If an account with this email exists, a sign-in link has been sent',
+                        expiresIn: expiresInMinutes * 60,
+                    });
+
+                    // The link only works in a browser holding this cookie
+                    const isSecure = process.env.NODE_ENV === 'production';
+                    response.cookies.set(MAGIC_LINK_BINDING_COOKIE, browserBinding, {
+                        httpOnly: true,
+                        secure: isSecure,
+                        sameSite: 'lax', // Sent when the link is opened from a mail client
+                        maxAge: expiresInMinutes * 60,
+                        path: '/api/auth/magic-link',
+                    });
+
+                    return response;
+
+                } catch (error) {
+                    console.error('Magic link request error:', error);
+
+                    if (error instanceof z.ZodError) {
+                        return NextResponse.json(
+                            {
+                                error: 'Validation failed',
+                                details: error.issues.map(err => ({
+                                    field: err.path.join('.'),
+                                    message: err.message
+                                }))
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    if (error instanceof Error && error.message.includes('disabled')) {
+                        return NextResponse.json(
+                            { error: 'Sign-in links are not available', code: 'MAGIC_LINK_DISABLED' },
+                            { status: 403 }
+                        );
+                    }
+
+                    return NextResponse.json(
+                        { error: 'Failed to send sign-in link' },
+                        { status: 500 }
+                    );
+                }
+            }
+        )
+    )
+);
+
+export { handler as POST };
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { PasswordService } from '@/lib/auth/password';
+import { JWTService } from '@/lib/auth/jwt';
+import { MFAService } from '@/lib/auth/mfa';
+import { MagicLinkService, MAGIC_LINK_BINDING_COOKIE } from '@/lib/auth/magic-link';
+import { getRequestLocation } from '@/lib/auth/login-risk';
+import { withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const verifyLinkSchema = z.object({
+    token: z.string().min(1, 'Token is required'),
+    rememberMe: z.boolean().optional().default(false),
+});
+
+/**
+ * Drop the browser binding once the link has been used or rejected
+ */
+function clearBinding(response: NextResponse): NextResponse {
+    response.cookies.set(MAGIC_LINK_BINDING_COOKIE, '', {
+        httpOnly: true,
+        maxAge: 0,
+        path: '/api/auth/magic-link',
+    });
+
+    return response;
+}
+
+const handler = withCors(
+    withRateLimit('auth.magic-link.verify', { limit: 10, windowMs: 15 * 60 * 1000, key: 'ip' })( // 10 attempts per 15 minutes
+        async (req: NextRequest): Promise<NextResponse> => {
+            try {
+                // Parse and validate request body
+                const body = await req.json();
+                const { token, rememberMe } = verifyLinkSchema.parse(body);
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                const user = await MagicLinkService.consumeLink(
+                    token,
+                    req.cookies.get(MAGIC_LINK_BINDING_COOKIE)?.value,
+                    ipAddress,
+                    userAgent
+                );
+
+                const isLocked = await PasswordService.isUserLocked(user.id);
+                if (isLocked) {
+                    return clearBinding(NextResponse.json(
+                        {
+                            error: 'Account temporarily locked due to too many failed login attempts. Please try again later.',
+                            code: 'ACCOUNT_LOCKED'
+                        },
+                        { status: 423 }
+                    ));
+                }
+
+                // The link replaces the password, not the second factor
+                if (await MFAService.isMfaEnabled(user.id)) {
+                    await JWTService.createAuditLog({
+                        actorId: user.id,
+                        action: 'MFA_CHALLENGE_ISSUED',
+                        targetResource: 'user',
+                        targetId: user.id,
+                        ipAddress,
+                        userAgent,
+                    });
+
+                    return clearBinding(NextResponse.json({
+                        mfaRequired: true,
+                        mfaToken: await JWTService.generateMfaChallengeToken(user.id, rememberMe),
+                        expiresIn: 5 * 60, // 5 minutes in seconds
+                    }));
+                }
+
+                await PasswordService.resetFailedLoginAttempts(user.id, ipAddress, userAgent, {
+                    method: 'magic_link',
+                    location: getRequestLocation(req.headers),
+                });
+
+                // Generate tokens
+                const deviceFingerprint = userAgent;
+                const tokenPair = await JWTService.createTokenPair(
+                    user.id,
+                    deviceFingerprint,
+                    ipAddress,
+                    userAgent
+                );
+
+                // Update user data
+                await db
+                    .update(users)
+                    .set({
+                        lastLoginAt: new Date(),
+                        updatedAt: new Date(),
+                    })
+                    .where(eq(users.id, user.id));
+
+                // Set response
+                const response = NextResponse.json({
+                    user: {
+                        id: user.id,
+                        name: user.name,
+                        email: user.email,
+                        role: user.role,
+                        emailVerified: user.emailVerified,
+                        avatarUrl: user.avatarUrl,
+                    },
+                    tokenPair,
+                });
+
+                // Set secure cookies
+                const isSecure = process.env.NODE_ENV === 'production';
+                const sameSite = isSecure ? 'strict' : 'lax';
+
+                response.cookies.set('access_token', tokenPair.accessToken, {
+                    httpOnly: false, // Client needs to read this for API calls
+                    secure: isSecure,
+                    sameSite,
+                    maxAge: tokenPair.expiresIn,
+                    path: '/',
+                });
+
+                const refreshMaxAge = rememberMe ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60; // 30 days or 7 days
+
+                response.cookies.set('refresh_token', tokenPair.refreshToken, {
+                    httpOnly: true, // HTTP-only for security
+                    secure: isSecure,
+                    sameSite,
+                    maxAge: refreshMaxAge,
+                    path: '/',
+                });
+
+                return clearBinding(response);
+
+            } catch (error) {
+                console.error('Magic link verification error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                if (error instanceof Error) {
+                    if (error.message.includes('disabled')) {
+                        return NextResponse.json(
+                            { error: 'Sign-in links are not available', code: 'MAGIC_LINK_DISABLED' },
+                            { status: 403 }
+                        );
+                    }
+
+                    // Keep the binding: the right browser may still open the link
+                    if (error.message.includes('browser that requested it')) {
+                        return NextResponse.json(
+                            { error: error.message, code: 'MAGIC_LINK_WRONG_BROWSER' },
+                            { status: 401 }
+                        );
+                    }
+
+                    if (error.message.includes('Invalid or expired')) {
+                        return clearBinding(NextResponse.json(
+                            { error: 'This sign-in link is invalid or has expired', code: 'MAGIC_LINK_INVALID' },
+                            { status: 401 }
+                        ));
+                    }
+
+                    if (error.message.includes('not active')) {
+                        return clearBinding(NextResponse.json(
+                            { error: 'Account is not active', code: 'ACCOUNT_INACTIVE' },
+                            { status: 403 }
+                        ));
+                    }
+                }
+
+                return NextResponse.json(
+                    { error: 'Sign-in failed' },
+                    { status: 500 }
+                );
+            }
+        }
+    )
+);
+
+export { handler as POST };
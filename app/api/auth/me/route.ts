@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { withAuth, withCors } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withAuth(async (req): Promise<NextResponse> => {
+        try {
+            const [user] = await db
+                .select({
+                    id: users.id,
+                    name: users.name,
+                    email: users.email,
+                    role: users.role,
+                    emailVerified: users.emailVerified,
+                    avatarUrl: users.avatarUrl,
+                    lastLoginAt: users.lastLoginAt,
+                    createdAt: users.createdAt,
+                    deletionScheduledFor: users.deletionScheduledFor,
+                })
+                .from(users)
+                .where(eq(users.id, req.user!.id))
+                .limit(1);
+
+            // Lets the UI show who is really signed in while an admin impersonates this user
+            let impersonator = null;
+            if (req.impersonation) {
+                [impersonator] = await db
+                    .select({
+                        id: users.id,
+                        name: users.name,
+                        email: users.email,
+                    })
+                    .from(users)
+                    .where(eq(users.id, req.impersonation.impersonatorId))
+                    .limit(1);
+            }
+
+            return NextResponse.json({
+                user: {
+                    ...user,
+                    impersonator: impersonator
+                        ? { ...impersonator, expiresAt: req.impersonation!.expiresAt }
+                        : null,
+                },
+            });
+
+        } catch (error) {
+            console.error('Get current user error:', error);
+
+            return NextResponse.json(
+                { error: 'Failed to retrieve user' },
+                { status: 500 }
+            );
+        }
+    }, { scopes: ['profile:read'] })
+);
+
+export { handler as GET };
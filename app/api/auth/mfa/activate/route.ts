@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { MFAService } from '@/lib/auth/mfa';
+import { withAuth, withRecentAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const activateSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+});
+
+const handler = withCors(
+    withRateLimit('auth.mfa.activate', { limit: 5, windowMs: 15 * 60 * 1000 })( // 5 attempts per 15 minutes
+        withAuth(
+            withRecentAuth()(async (req): Promise<NextResponse> => {
+                try {
+                    const body = await req.json();
+                    const { code } = activateSchema.parse(body);
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                    const recoveryCodes = await MFAService.activate(
+                        req.user!.id,
+                        code,
+                        ipAddress,
+                        userAgent
+                    );
+
+                    return NextResponse.json({
+                        message: 'Two-factor authentication enabled',
+                        // Only returned once; the server stores hashes
+                        recoveryCodes,
+                    });
+
+                } catch (error) {
+                    console.error('MFA activation error:', error);
+
+                    if (error instanceof z.ZodError) {
+                        return NextResponse.json(
+                            {
+                                error: 'Validation failed',
+                                details: error.issues.map(err => ({
+                                    field: err.path.join('.'),
+                                    message: err.message
+                                }))
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    if (error instanceof Error) {
+                        if (error.message.includes('not started')) {
+                            return NextResponse.json(
+                                { error: 'MFA enrollment not started' },
+                                { status: 400 }
+                            );
+                        }
+
+                        if (error.message.includes('already enabled')) {
+                            return NextResponse.json(
+                                { error: 'MFA is already enabled', code: 'MFA_ALREADY_ENABLED' },
+                                { status: 409 }
+                            );
+                        }
+
+                        if (error.message.includes('Invalid verification code')) {
+                            return NextResponse.json(
+                                { error: 'Invalid verification code', code: 'MFA_INVALID_CODE' },
+                                { status: 400 }
+                            );
+                        }
+                    }
+
+                    return NextResponse.json(
+                        { error: 'Failed to enable MFA' },
+                        { status: 500 }
+                    );
+                }
+            }),
+            { blockImpersonation: true }
+        )
+    )
+);
+
+export { handler as POST };
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { MFAService } from '@/lib/auth/mfa';
+import { withAuth, withRecentAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const disableSchema = z.object({
+    password: z.string().min(1, 'Password is required'),
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits').optional(),
+    recoveryCode: z.string().min(1).optional(),
+}).refine(data => data.code || data.recoveryCode, {
+    message: 'A verification code or recovery code is required',
+    path: ['code'],
+});
+
+const handler = withCors(
+    withRateLimit('auth.mfa.disable', { limit: 5, windowMs: 15 * 60 * 1000 })( // 5 attempts per 15 minutes
+        withAuth(
+            withRecentAuth()(async (req): Promise<NextResponse> => {
+                try {
+                    const body = await req.json();
+                    const { password, code, recoveryCode } = disableSchema.parse(body);
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                    await MFAService.disable(
+                        req.user!.id,
+                        password,
+                        { code, recoveryCode },
+                        ipAddress,
+                        userAgent
+                    );
+
+                    return NextResponse.json({
+                        message: 'Two-factor authentication disabled'
+                    });
+
+                } catch (error) {
+                    console.error('MFA disable error:', error);
+
+                    if (error instanceof z.ZodError) {
+                        return NextResponse.json(
+                            {
+                                error: 'Validation failed',
+                                details: error.issues.map(err => ({
+                                    field: err.path.join('.'),
+                                    message: err.message
+                                }))
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    if (error instanceof Error) {
+                        if (error.message.includes('not enabled')) {
+                            return NextResponse.json(
+                                { error: 'MFA is not enabled' },
+                                { status: 400 }
+                            );
+                        }
+
+                        if (error.message.includes('password is incorrect') || error.message.includes('Invalid verification code')) {
+                            return NextResponse.json(
+                                { error: error.message },
+                                { status: 401 }
+                            );
+                        }
+                    }
+
+                    return NextResponse.json(
+                        { error: 'Failed to disable MFA' },
+                        { status: 500 }
+                    );
+                }
+            }),
+            { blockImpersonation: true }
+        )
+    )
+);
+
+export { handler as POST };
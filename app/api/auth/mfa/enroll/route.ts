@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { MFAService } from '@/lib/auth/mfa';
+import { withAuth, withRecentAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withRateLimit('auth.mfa.enroll', { limit: 5, windowMs: 15 * 60 * 1000 })( // 5 requests per 15 minutes
+        withAuth(
+            withRecentAuth()(async (req): Promise<NextResponse> => {
+                try {
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                    const { secret, otpauthUrl } = await MFAService.startEnrollment(
+                        req.user!.id,
+                        ipAddress,
+                        userAgent
+                    );
+
+                    return NextResponse.json({
+                        message: 'Scan the QR code with your authenticator app, then confirm with a code',
+                        secret,
+                        otpauthUrl,
+                    });
+
+                } catch (error) {
+                    console.error('MFA enrollment error:', error);
+
+                    if (error instanceof Error && error.message.includes('already enabled')) {
+                        return NextResponse.json(
+                            { error: 'MFA is already enabled', code: 'MFA_ALREADY_ENABLED' },
+                            { status: 409 }
+                        );
+                    }
+
+                    return NextResponse.json(
+                        { error: 'Failed to start MFA enrollment' },
+                        { status: 500 }
+                    );
+                }
+            }),
+            { requireVerifiedEmail: true, blockImpersonation: true }
+        )
+    )
+);
+
+export { handler as POST };
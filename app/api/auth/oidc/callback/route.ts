@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PasswordService } from '@/lib/auth/password';
+import { JWTService } from '@/lib/auth/jwt';
+import { OIDCService, OIDC_BINDING_COOKIE } from '@/lib/auth/oidc';
+import { withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+/**
+ * The binding cookie is single-use, whatever the outcome
+ */
+function clearBinding(response: NextResponse): NextResponse {
+    response.cookies.set(OIDC_BINDING_COOKIE, '', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: 0,
+        path: '/api/auth/oidc',
+    });
+
+    return response;
+}
+
+function redirectToSignIn(req: NextRequest, error: string): NextResponse {
+    return clearBinding(NextResponse.redirect(new URL(`/sign-in?error=${error}`, req.url)));
+}
+
+const handler = withRateLimit('auth.oidc.callback', { limit: 20, windowMs: 15 * 60 * 1000, key: 'ip' })( // 20 attempts per 15 minutes
+    async (req: NextRequest): Promise<NextResponse> => {
+        const params = req.nextUrl.searchParams;
+        const code = params.get('code');
+        const state = params.get('state');
+
+        // The IdP reports failures (e.g. the user cancelled) through the error parameter
+        if (params.get('error') || !code || !state) {
+            return redirectToSignIn(req, 'sso_failed');
+        }
+
+        try {
+            const { ipAddress, userAgent } = getRequestMetadata(req);
+
+            // Inactive and locked accounts are refused before any IdP group mapping is applied
+            const { userId, redirectTo } = await OIDCService.handleCallback(
+                code,
+                state,
+                req.cookies.get(OIDC_BINDING_COOKIE)?.value,
+                ipAddress,
+                userAgent
+            );
+
+            await PasswordService.resetFailedLoginAttempts(userId, ipAddress, userAgent);
+
+            // Generate tokens. The IdP is responsible for second factors, so local MFA is not re-prompted.
+            const deviceFingerprint = userAgent;
+            const tokenPair = await JWTService.createTokenPair(
+                userId,
+                deviceFingerprint,
+                ipAddress,
+                userAgent
+            );
+
+            // The login route only stores same-origin paths; check again before following one
+            const destination = new URL(redirectTo, req.url);
+            const response = NextResponse.redirect(
+                destination.origin === req.nextUrl.origin
+                    ? new URL(destination.pathname + destination.search, req.url)
+                    : new URL('/dashboard', req.url)
+            );
+
+            // Set secure cookies. Lax so they survive the cross-site redirect back from the IdP.
+            const isSecure = process.env.NODE_ENV === 'production';
+
+            response.cookies.set('access_token', tokenPair.accessToken, {
+                httpOnly: false, // Client needs to read this for API calls
+                secure: isSecure,
+                sameSite: 'lax',
+                maxAge: tokenPair.expiresIn,
+                path: '/',
+            });
+
+            response.cookies.set('refresh_token', tokenPair.refreshToken, {
+                httpOnly: true, // HTTP-only for security
+                secure: isSecure,
+                sameSite: 'lax',
+                maxAge: 7 * 24 * 60 * 60, // 7 days
+                path: '/',
+            });
+
+            return clearBinding(response);
+
+        } catch (error) {
+            console.error('SSO callback error:', error);
+
+            if (error instanceof Error) {
+                if (error.message.includes('already exists') || error.message.includes('No account exists')) {
+                    return redirectToSignIn(req, 'sso_account_not_linked');
+                }
+
+                if (error.message.includes('not active')) {
+                    return redirectToSignIn(req, 'account_inactive');
+                }
+
+                if (error.message.includes('locked')) {
+                    return redirectToSignIn(req, 'account_locked');
+                }
+            }
+
+            return redirectToSignIn(req, 'sso_failed');
+        }
+    }
+);
+
+export { handler as GET };
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OIDCService, OIDC_BINDING_COOKIE, OIDC_BINDING_MAX_AGE_SECONDS } from '@/lib/auth/oidc';
+import { withRateLimit } from '@/lib/auth/middleware';
+
+/**
+ * Only allow paths on this app to avoid an open redirect. Browsers read `\` as `/`, so `/\evil.com`
+ * is protocol-relative; resolving against the origin catches that and anything else that leaves it.
+ */
+function sameOriginPath(requested: string | null, appOrigin: string): string {
+    if (!requested || !requested.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(requested)) {
+        return '/dashboard';
+    }
+
+    try {
+        const url = new URL(requested, appOrigin);
+        return url.origin === appOrigin ? url.pathname + url.search : '/dashboard';
+    } catch {
+        return '/dashboard';
+    }
+}
+
+const handler = withRateLimit('auth.oidc.login', { limit: 20, windowMs: 15 * 60 * 1000, key: 'ip' })( // 20 attempts per 15 minutes
+    async (req: NextRequest): Promise<NextResponse> => {
+        const redirectTo = sameOriginPath(req.nextUrl.searchParams.get('redirectTo'), req.nextUrl.origin);
+
+        try {
+            if (!(await OIDCService.isEnabled())) {
+                return NextResponse.redirect(new URL('/sign-in?error=sso_unavailable', req.url));
+            }
+
+            const { authorizationUrl, browserBinding } = await OIDCService.createAuthorizationUrl(redirectTo);
+
+            const response = NextResponse.redirect(authorizationUrl);
+
+            // The callback only completes in the browser holding this cookie
+            response.cookies.set(OIDC_BINDING_COOKIE, browserBinding, {
+                httpOnly: true,
+                secure: process.env.NODE_ENV === 'production',
+                sameSite: 'lax', // Sent on the top-level redirect back from the IdP
+                maxAge: OIDC_BINDING_MAX_AGE_SECONDS,
+                path: '/api/auth/oidc',
+            });
+
+            return response;
+
+        } catch (error) {
+            console.error('SSO login error:', error);
+
+            return NextResponse.redirect(new URL('/sign-in?error=sso_failed', req.url));
+        }
+    }
+);
+
+export { handler as GET };
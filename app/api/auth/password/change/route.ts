@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { PasswordService, PasswordPolicyError } from '@/lib/auth/password';
+import { withAuth, withRecentAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const changePasswordSchema = z.object({
+    currentPassword: z.string().min(1, 'Current password is required'),
+    newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const handler = withCors(
+    withRateLimit('auth.password.change', { limit: 5, windowMs: 15 * 60 * 1000 })( // 5 attempts per 15 minutes
+        withAuth(
+            withRecentAuth()(async (req): Promise<NextResponse> => {
+                try {
+                    const body = await req.json();
+                    const { currentPassword, newPassword } = changePasswordSchema.parse(body);
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                    // Signs the user out everywhere, including this session
+                    await PasswordService.changePassword(
+                        req.user!.id,
+                        currentPassword,
+                        newPassword,
+                        ipAddress,
+                        userAgent
+                    );
+
+                    return NextResponse.json({
+                        message: 'Password changed successfully. Please sign in again.'
+                    });
+
+                } catch (error) {
+                    console.error('Password change error:', error);
+
+                    if (error instanceof z.ZodError) {
+                        return NextResponse.json(
+                            {
+                                error: 'Validation failed',
+                                details: error.issues.map(err => ({
+                                    field: err.path.join('.'),
+                                    message: err.message
+                                }))
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    if (error instanceof PasswordPolicyError) {
+                        return NextResponse.json(
+                            {
+                                error: error.message,
+                                details: error.errors
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    if (error instanceof Error && error.message.includes('password is incorrect')) {
+                        return NextResponse.json(
+                            { error: 'Current password is incorrect' },
+                            { status: 401 }
+                        );
+                    }
+
+                    return NextResponse.json(
+                        { error: 'Password change failed' },
+                        { status: 500 }
+                    );
+                }
+            }),
+            { blockImpersonation: true }
+        )
+    )
+);
+
+export { handler as POST };
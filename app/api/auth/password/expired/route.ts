@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { PasswordService, PasswordPolicyError } from '@/lib/auth/password';
+import { JWTService } from '@/lib/auth/jwt';
+import { withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const expiredPasswordSchema = z.object({
+    passwordChangeToken: z.string().min(1, 'Password change token is required'),
+    newPassword: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const handler = withCors(
+    withRateLimit('auth.password.expired', { limit: 5, windowMs: 15 * 60 * 1000, key: 'ip' })( // 5 attempts per 15 minutes
+        async (req: NextRequest): Promise<NextResponse> => {
+            try {
+                // Parse and validate request body
+                const body = await req.json();
+                const { passwordChangeToken, newPassword } = expiredPasswordSchema.parse(body);
+
+                const challenge = await JWTService.verifyPasswordChangeToken(passwordChangeToken);
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                await PasswordService.changeExpiredPassword(
+                    challenge.userId,
+                    newPassword,
+                    ipAddress,
+                    userAgent
+                );
+
+                // No tokens are issued here: signing in with the new password still goes through MFA
+                return NextResponse.json({
+                    message: 'Password changed successfully. Please sign in with your new password.'
+                });
+
+            } catch (error) {
+                console.error('Expired password change error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                if (error instanceof PasswordPolicyError) {
+                    return NextResponse.json(
+                        {
+                            error: error.message,
+                            details: error.errors
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                if (error instanceof Error) {
+                    if (error.message.includes('Password change challenge expired')) {
+                        return NextResponse.json(
+                            { error: 'Password change expired. Please sign in again.', code: 'PASSWORD_CHANGE_EXPIRED' },
+                            { status: 401 }
+                        );
+                    }
+
+                    if (
+                        error.message.includes('Invalid password change challenge') ||
+                        error.message.includes('not required') ||
+                        error.message.includes('not found')
+                    ) {
+                        return NextResponse.json(
+                            { error: 'Invalid password change request' },
+                            { status: 401 }
+                        );
+                    }
+                }
+
+                return NextResponse.json(
+                    { error: 'Password change failed' },
+                    { status: 500 }
+                );
+            }
+        }
+    )
+);
+
+export { handler as POST };
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { PasswordService } from '@/lib/auth/password';
-import { withCors, withRateLimit } from '@/lib/auth/middleware';
+import { PasswordService, PasswordPolicyError } from '@/lib/auth/password';
+import { withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
 
 // Validation schema
 const resetPasswordSchema = z.object({
@@ -10,31 +10,21 @@ const resetPasswordSchema = z.object({
 });
 
 const handler = withCors(
-    withRateLimit(5, 15 * 60 * 1000)( // 5 requests per 15 minutes
+    withRateLimit('auth.password.reset', { limit: 5, windowMs: 15 * 60 * 1000, key: 'ip' })( // 5 requests per 15 minutes
         async (req: NextRequest): Promise<NextResponse> => {
             try {
                 // Parse and validate request body
                 const body = await req.json();
                 const { token, newPassword } = resetPasswordSchema.parse(body);
 
-                // Validate new password strength
-                const passwordValidation = PasswordService.validatePasswordStrength(newPassword);
-                if (!passwordValidation.isValid) {
-                    return NextResponse.json(
-                        {
-                            error: 'Password does not meet security requirements',
-                            details: passwordValidation.errors
-                        },
-                        { status: 400 }
-                    );
-                }
+                const { ipAddress, userAgent } = getRequestMetadata(req);
 
-                // Reset the password
+                // Reset the password; the policy is checked against the account's password history
                 await PasswordService.resetPassword(
                     token,
                     newPassword,
-                    req.headers.get('x-forwarded-for') || req.ip || 'unknown',
-                    req.headers.get('user-agent') || 'unknown'
+                    ipAddress,
+                    userAgent
                 );
 
                 return NextResponse.json({
@@ -48,7 +38,7 @@ const handler = withCors(
                     return NextResponse.json(
                         {
                             error: 'Validation failed',
-                            details: error.errors.map(err => ({
+                            details: error.issues.map(err => ({
                                 field: err.path.join('.'),
                                 message: err.message
                             }))
@@ -57,6 +47,16 @@ const handler = withCors(
                     );
                 }
 
+                if (error instanceof PasswordPolicyError) {
+                    return NextResponse.json(
+                        {
+                            error: error.message,
+                            details: error.errors
+                        },
+                        { status: 400 }
+                    );
+                }
+
                 if (error instanceof Error) {
                     if (error.message.includes('Invalid or expired reset token')) {
                         return NextResponse.json(
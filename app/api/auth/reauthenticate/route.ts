@@ -0,0 +1,149 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { PasswordService } from '@/lib/auth/password';
+import { JWTService } from '@/lib/auth/jwt';
+import { MFAService } from '@/lib/auth/mfa';
+import { withAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema: the password, or an authenticator or recovery code for MFA users
+const reauthenticateSchema = z.object({
+    password: z.string().min(1).optional(),
+    code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits').optional(),
+    recoveryCode: z.string().min(1).optional(),
+}).refine(data => data.password || data.code || data.recoveryCode, {
+    message: 'A password, verification code or recovery code is required',
+    path: ['password'],
+});
+
+/**
+ * Re-check the user's credentials and issue a short-lived access token stamped with the time,
+ * which routes wrapped in withRecentAuth accept
+ */
+const handler = withCors(
+    withRateLimit('auth.reauthenticate', { limit: 5, windowMs: 15 * 60 * 1000 })( // 5 attempts per 15 minutes
+        withAuth(async (req): Promise<NextResponse> => {
+            try {
+                const body = await req.json();
+                const { password, code, recoveryCode } = reauthenticateSchema.parse(body);
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+                const userId = req.user!.id;
+
+                // Failures count towards the same lockout as sign-in
+                const isLocked = await PasswordService.isUserLocked(userId);
+                if (isLocked) {
+                    return NextResponse.json(
+                        {
+                            error: 'Account temporarily locked due to too many failed login attempts. Please try again later.',
+                            code: 'ACCOUNT_LOCKED'
+                        },
+                        { status: 423 }
+                    );
+                }
+
+                let isValid: boolean;
+                let method: 'password' | 'totp';
+
+                if (password) {
+                    const [user] = await db
+                        .select({ passwordHash: users.passwordHash })
+                        .from(users)
+                        .where(eq(users.id, userId))
+                        .limit(1);
+
+                    isValid = !!user && await PasswordService.verifyPassword(password, user.passwordHash);
+                    method = 'password';
+                } else {
+                    if (!(await MFAService.isMfaEnabled(userId))) {
+                        return NextResponse.json(
+                            { error: 'Two-factor authentication is not enabled', code: 'MFA_NOT_ENABLED' },
+                            { status: 400 }
+                        );
+                    }
+
+                    isValid = await MFAService.verifyLogin(userId, { code, recoveryCode }, ipAddress, userAgent);
+                    method = 'totp';
+                }
+
+                if (!isValid) {
+                    await PasswordService.recordFailedLogin(userId, ipAddress, userAgent);
+
+                    await JWTService.createAuditLog({
+                        actorId: userId,
+                        action: 'REAUTHENTICATION_FAILED',
+                        targetResource: 'user',
+                        targetId: userId,
+                        metadata: { method },
+                        ipAddress,
+                        userAgent,
+                        success: false,
+                    });
+
+                    return NextResponse.json(
+                        { error: method === 'password' ? 'Incorrect password' : 'Invalid verification code', code: 'REAUTHENTICATION_FAILED' },
+                        { status: 401 }
+                    );
+                }
+
+                const { accessToken, expiresIn, authTime } = await JWTService.generateReauthenticatedToken({
+                    userId,
+                    email: req.user!.email,
+                    role: req.user!.role,
+                });
+
+                await JWTService.createAuditLog({
+                    actorId: userId,
+                    action: 'REAUTHENTICATED',
+                    targetResource: 'user',
+                    targetId: userId,
+                    metadata: { method },
+                    ipAddress,
+                    userAgent,
+                });
+
+                const response = NextResponse.json({
+                    accessToken,
+                    expiresIn,
+                    authTime,
+                });
+
+                const isSecure = process.env.NODE_ENV === 'production';
+
+                response.cookies.set('access_token', accessToken, {
+                    httpOnly: false, // Client needs to read this for API calls
+                    secure: isSecure,
+                    sameSite: isSecure ? 'strict' : 'lax',
+                    maxAge: expiresIn,
+                    path: '/',
+                });
+
+                return response;
+
+            } catch (error) {
+                console.error('Re-authentication error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                return NextResponse.json(
+                    { error: 'Re-authentication failed' },
+                    { status: 500 }
+                );
+            }
+        }, { blockImpersonation: true })
+    )
+);
+
+export { handler as POST };
@@ -1,16 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { withCors, withRateLimit } from '@/lib/auth/middleware';
+import { withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
 import { JWTService } from '@/lib/auth/jwt';
 
 const handler = withCors(
-    withRateLimit(10, 60 * 1000)( // 10 requests per minute
+    withRateLimit('auth.refresh', { limit: 10, windowMs: 60 * 1000, key: 'ip' })( // 10 requests per minute
         async (req: NextRequest): Promise<NextResponse> => {
             try {
                 // Get refresh token from cookie or request body
                 let refreshToken = req.cookies.get('refresh_token')?.value;
 
                 if (!refreshToken && req.method === 'POST') {
-                    const body = await req.json();
+                    const body = await req.json().catch(() => ({}));
                     refreshToken = body.refreshToken;
                 }
 
@@ -21,15 +21,15 @@ const handler = withCors(
                     );
                 }
 
-                const deviceFingerprint = req.headers.get('user-agent') || 'unknown';
-                const ipAddress = req.headers.get('x-forwarded-for') || req.ip || 'unknown';
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+                const deviceFingerprint = userAgent;
 
                 // Refresh the tokens
                 const tokenPair = await JWTService.refreshTokens(
                     refreshToken,
                     deviceFingerprint,
                     ipAddress,
-                    deviceFingerprint
+                    userAgent
                 );
 
                 // Set response
@@ -63,6 +63,32 @@ const handler = withCors(
                 console.error('Token refresh error:', error);
 
                 if (error instanceof Error) {
+                    if (error.message.includes('reuse detected')) {
+                        // The whole session family was revoked; force a fresh sign-in
+                        const response = NextResponse.json(
+                            { error: 'Session revoked', code: 'TOKEN_REUSE_DETECTED' },
+                            { status: 401 }
+                        );
+
+                        response.cookies.set('access_token', '', {
+                            httpOnly: false,
+                            secure: process.env.NODE_ENV === 'production',
+                            sameSite: 'strict',
+                            maxAge: 0,
+                            path: '/',
+                        });
+
+                        response.cookies.set('refresh_token', '', {
+                            httpOnly: true,
+                            secure: process.env.NODE_ENV === 'production',
+                            sameSite: 'strict',
+                            maxAge: 0,
+                            path: '/',
+                        });
+
+                        return response;
+                    }
+
                     if (error.message.includes('expired')) {
                         // Clear expired cookies
                         const response = NextResponse.json(
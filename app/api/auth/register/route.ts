@@ -5,7 +5,8 @@ import { db } from '@/db';
 import { users } from '@/db/schema';
 import { PasswordService } from '@/lib/auth/password';
 import { JWTService } from '@/lib/auth/jwt';
-import { withCors, withRateLimit } from '@/lib/auth/middleware';
+import { EmailVerificationService } from '@/lib/auth/email-verification';
+import { withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
 
 // Validation schema
 const registerSchema = z.object({
@@ -15,7 +16,7 @@ const registerSchema = z.object({
 });
 
 const handler = withCors(
-    withRateLimit(5, 15 * 60 * 1000)( // 5 requests per 15 minutes
+    withRateLimit('auth.register', { limit: 5, windowMs: 15 * 60 * 1000, key: 'ip' })( // 5 requests per 15 minutes
         async (req: NextRequest): Promise<NextResponse> => {
             try {
                 // Parse and validate request body
@@ -36,8 +37,8 @@ const handler = withCors(
                     );
                 }
 
-                // Validate password strength
-                const passwordValidation = PasswordService.validatePasswordStrength(password);
+                // Validate password against the policy
+                const passwordValidation = await PasswordService.validatePasswordPolicy(password);
                 if (!passwordValidation.isValid) {
                     return NextResponse.json(
                         {
@@ -72,20 +73,36 @@ const handler = withCors(
                         createdAt: users.createdAt,
                     });
 
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
                 // Create initial audit log
-                await db.insert(users).values({
-                    // This would be handled by the audit logs table
+                await JWTService.createAuditLog({
+                    actorId: newUser.id,
+                    action: 'USER_CREATED',
+                    targetResource: 'user',
+                    targetId: newUser.id,
+                    metadata: {
+                        email: newUser.email,
+                    },
+                    ipAddress,
+                    userAgent,
                 });
 
+                // Send verification email; registration still succeeds if delivery fails
+                try {
+                    await EmailVerificationService.sendVerificationEmail(newUser.id, ipAddress, userAgent);
+                } catch (error) {
+                    console.error('Verification email error:', error);
+                }
+
                 // Generate tokens
-                const deviceFingerprint = req.headers.get('user-agent') || 'unknown';
-                const ipAddress = req.headers.get('x-forwarded-for') || req.ip || 'unknown';
+                const deviceFingerprint = userAgent;
 
                 const tokenPair = await JWTService.createTokenPair(
                     newUser.id,
                     deviceFingerprint,
                     ipAddress,
-                    deviceFingerprint
+                    userAgent
                 );
 
                 // Set secure cookie for refresh token
@@ -95,6 +112,7 @@ const handler = withCors(
                         name: newUser.name,
                         email: newUser.email,
                         role: newUser.role,
+                        emailVerified: newUser.emailVerified,
                     },
                     tokenPair,
                 });
@@ -128,7 +146,7 @@ const handler = withCors(
                     return NextResponse.json(
                         {
                             error: 'Validation failed',
-                            details: error.errors.map(err => ({
+                            details: error.issues.map(err => ({
                                 field: err.path.join('.'),
                                 message: err.message
                             }))
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { SessionService } from '@/lib/auth/sessions';
+import { withAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withRateLimit('auth.sessions.revoke', { limit: 10, windowMs: 60 * 1000 })( // 10 requests per minute
+        withAuth(async (req, context): Promise<NextResponse> => {
+            try {
+                const { id } = await context!.params;
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                await SessionService.revokeSession(req.user!.id, id, ipAddress, userAgent);
+
+                return NextResponse.json({
+                    message: 'Session signed out successfully',
+                });
+
+            } catch (error) {
+                console.error('Revoke session error:', error);
+
+                if (error instanceof Error && error.message.includes('not found')) {
+                    return NextResponse.json(
+                        { error: 'Session not found' },
+                        { status: 404 }
+                    );
+                }
+
+                return NextResponse.json(
+                    { error: 'Failed to sign out session' },
+                    { status: 500 }
+                );
+            }
+        }, { blockImpersonation: true })
+    )
+);
+
+export { handler as DELETE };
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { SessionService } from '@/lib/auth/sessions';
+import { withAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withRateLimit('auth.sessions.revoke-others', { limit: 5, windowMs: 60 * 1000 })( // 5 requests per minute
+        withAuth(async (req): Promise<NextResponse> => {
+            try {
+                const currentRefreshToken = req.cookies.get('refresh_token')?.value;
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                await SessionService.revokeOtherSessions(
+                    req.user!.id,
+                    currentRefreshToken,
+                    ipAddress,
+                    userAgent
+                );
+
+                return NextResponse.json({
+                    message: 'Signed out of all other sessions',
+                });
+
+            } catch (error) {
+                console.error('Revoke other sessions error:', error);
+
+                return NextResponse.json(
+                    { error: 'Failed to sign out other sessions' },
+                    { status: 500 }
+                );
+            }
+        }, { blockImpersonation: true })
+    )
+);
+
+export { handler as POST };
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { SessionService } from '@/lib/auth/sessions';
+import { withAuth, withCors } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withAuth(async (req): Promise<NextResponse> => {
+        try {
+            const currentRefreshToken = req.cookies.get('refresh_token')?.value;
+
+            const sessions = await SessionService.listSessions(req.user!.id, currentRefreshToken);
+
+            return NextResponse.json({
+                sessions,
+                count: sessions.length,
+            });
+
+        } catch (error) {
+            console.error('Get sessions error:', error);
+
+            return NextResponse.json(
+                { error: 'Failed to retrieve sessions' },
+                { status: 500 }
+            );
+        }
+    })
+);
+
+export { handler as GET };
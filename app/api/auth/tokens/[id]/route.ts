@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { PersonalAccessTokenService } from '@/lib/auth/access-tokens';
+import { withAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withRateLimit('auth.tokens.revoke', { limit: 10, windowMs: 60 * 1000 })( // 10 requests per minute
+        withAuth(async (req, context): Promise<NextResponse> => {
+            try {
+                const { id } = await context!.params;
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                await PersonalAccessTokenService.revokeToken(req.user!.id, id, ipAddress, userAgent);
+
+                return NextResponse.json({
+                    message: 'Access token revoked successfully',
+                });
+
+            } catch (error) {
+                console.error('Revoke access token error:', error);
+
+                if (error instanceof Error && error.message.includes('not found')) {
+                    return NextResponse.json(
+                        { error: 'Access token not found' },
+                        { status: 404 }
+                    );
+                }
+
+                return NextResponse.json(
+                    { error: 'Failed to revoke access token' },
+                    { status: 500 }
+                );
+            }
+        }, { blockImpersonation: true })
+    )
+);
+
+export { handler as DELETE };
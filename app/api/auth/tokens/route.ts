@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+    PersonalAccessTokenService,
+    API_SCOPES,
+    MAX_TOKEN_LIFETIME_DAYS,
+} from '@/lib/auth/access-tokens';
+import { withAuth, withRecentAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const createTokenSchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+    scopes: z.array(z.enum(API_SCOPES)).min(1, 'At least one scope is required'),
+    expiresInDays: z.number().int().min(1).max(MAX_TOKEN_LIFETIME_DAYS).optional().default(90),
+});
+
+const listHandler = withCors(
+    withAuth(async (req): Promise<NextResponse> => {
+        try {
+            const tokens = await PersonalAccessTokenService.listTokens(req.user!.id);
+
+            return NextResponse.json({
+                tokens,
+                count: tokens.length,
+                availableScopes: API_SCOPES,
+            });
+
+        } catch (error) {
+            console.error('Get access tokens error:', error);
+
+            return NextResponse.json(
+                { error: 'Failed to retrieve access tokens' },
+                { status: 500 }
+            );
+        }
+    })
+);
+
+const createHandler = withCors(
+    withRateLimit('auth.tokens.create', { limit: 10, windowMs: 60 * 60 * 1000 })( // 10 tokens per hour
+        withAuth(
+            withRecentAuth()(async (req): Promise<NextResponse> => {
+                try {
+                    // Parse and validate request body
+                    const body = await req.json();
+                    const input = createTokenSchema.parse(body);
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                    const { token, accessToken } = await PersonalAccessTokenService.createToken(
+                        req.user!.id,
+                        input,
+                        ipAddress,
+                        userAgent
+                    );
+
+                    return NextResponse.json(
+                        {
+                            message: 'Access token created. Copy it now, it will not be shown again.',
+                            token,
+                            accessToken,
+                        },
+                        { status: 201 }
+                    );
+
+                } catch (error) {
+                    console.error('Create access token error:', error);
+
+                    if (error instanceof z.ZodError) {
+                        return NextResponse.json(
+                            {
+                                error: 'Validation failed',
+                                details: error.issues.map(err => ({
+                                    field: err.path.join('.'),
+                                    message: err.message
+                                }))
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    return NextResponse.json(
+                        { error: 'Failed to create access token' },
+                        { status: 500 }
+                    );
+                }
+            }),
+            { blockImpersonation: true }
+        )
+    )
+);
+
+export { listHandler as GET, createHandler as POST };
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { WebAuthnService } from '@/lib/auth/webauthn';
+import { withCors, withRateLimit } from '@/lib/auth/middleware';
+
+// Validation schema
+const authenticateOptionsSchema = z.object({
+    email: z.string().email('Invalid email address').optional(),
+});
+
+const handler = withCors(
+    withRateLimit('auth.webauthn.authenticate.options', { limit: 10, windowMs: 15 * 60 * 1000, key: 'ip' })( // 10 requests per 15 minutes
+        async (req: NextRequest): Promise<NextResponse> => {
+            try {
+                const body = await req.json().catch(() => ({}));
+                const { email } = authenticateOptionsSchema.parse(body);
+
+                const { challengeId, options } = await WebAuthnService.generateAuthenticationOptions(email);
+
+                return NextResponse.json({
+                    challengeId,
+                    options,
+                });
+
+            } catch (error) {
+                console.error('WebAuthn authentication options error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                return NextResponse.json(
+                    { error: 'Failed to start passkey sign-in' },
+                    { status: 500 }
+                );
+            }
+        }
+    )
+);
+
+export { handler as POST };
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { PasswordService } from '@/lib/auth/password';
+import { JWTService } from '@/lib/auth/jwt';
+import { WebAuthnService } from '@/lib/auth/webauthn';
+import { withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const authenticateVerifySchema = z.object({
+    challengeId: z.string().uuid('Invalid challenge'),
+    rememberMe: z.boolean().optional().default(false),
+    response: z.custom<AuthenticationResponseJSON>(
+        (value) => typeof value === 'object' && value !== null && 'id' in value && 'response' in value,
+        'Invalid authentication response'
+    ),
+});
+
+const handler = withCors(
+    withRateLimit('auth.webauthn.authenticate.verify', { limit: 10, windowMs: 15 * 60 * 1000, key: 'ip' })( // 10 attempts per 15 minutes
+        async (req: NextRequest): Promise<NextResponse> => {
+            try {
+                // Parse and validate request body
+                const body = await req.json();
+                const { challengeId, rememberMe, response: assertion } = authenticateVerifySchema.parse(body);
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                const userId = await WebAuthnService.verifyAuthentication(
+                    challengeId,
+                    assertion,
+                    ipAddress,
+                    userAgent
+                );
+
+                const [user] = await db
+                    .select()
+                    .from(users)
+                    .where(eq(users.id, userId))
+                    .limit(1);
+
+                if (!user) {
+                    return NextResponse.json(
+                        { error: 'Passkey not recognized' },
+                        { status: 401 }
+                    );
+                }
+
+                // Check if user is locked out
+                const isLocked = await PasswordService.isUserLocked(user.id);
+                if (isLocked) {
+                    return NextResponse.json(
+                        {
+                            error: 'Account temporarily locked due to too many failed login attempts. Please try again later.',
+                            code: 'ACCOUNT_LOCKED'
+                        },
+                        { status: 423 }
+                    );
+                }
+
+                // Check if account is active
+                if (user.status !== 'ACTIVE') {
+                    return NextResponse.json(
+                        {
+                            error: 'Account is not active',
+                            code: 'ACCOUNT_INACTIVE'
+                        },
+                        { status: 403 }
+                    );
+                }
+
+                await PasswordService.resetFailedLoginAttempts(user.id, ipAddress, userAgent);
+
+                // Generate tokens
+                const deviceFingerprint = userAgent;
+                const tokenPair = await JWTService.createTokenPair(
+                    user.id,
+                    deviceFingerprint,
+                    ipAddress,
+                    userAgent
+                );
+
+                // Set response
+                const response = NextResponse.json({
+                    user: {
+                        id: user.id,
+                        name: user.name,
+                        email: user.email,
+                        role: user.role,
+                        emailVerified: user.emailVerified,
+                        avatarUrl: user.avatarUrl,
+                    },
+                    tokenPair,
+                });
+
+                // Set secure cookies
+                const isSecure = process.env.NODE_ENV === 'production';
+                const sameSite = isSecure ? 'strict' : 'lax';
+
+                response.cookies.set('access_token', tokenPair.accessToken, {
+                    httpOnly: false, // Client needs to read this for API calls
+                    secure: isSecure,
+                    sameSite,
+                    maxAge: tokenPair.expiresIn,
+                    path: '/',
+                });
+
+                // Set refresh token with longer expiry if "remember me" is checked
+                const refreshMaxAge = rememberMe ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60; // 30 days or 7 days
+
+                response.cookies.set('refresh_token', tokenPair.refreshToken, {
+                    httpOnly: true, // HTTP-only for security
+                    secure: isSecure,
+                    sameSite,
+                    maxAge: refreshMaxAge,
+                    path: '/',
+                });
+
+                return response;
+
+            } catch (error) {
+                console.error('WebAuthn sign-in error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                if (error instanceof Error) {
+                    if (error.message.includes('challenge')) {
+                        return NextResponse.json(
+                            { error: 'Sign-in request expired. Please try again.', code: 'CHALLENGE_EXPIRED' },
+                            { status: 400 }
+                        );
+                    }
+
+                    if (error.message.includes('Passkey')) {
+                        return NextResponse.json(
+                            { error: 'Passkey sign-in failed' },
+                            { status: 401 }
+                        );
+                    }
+                }
+
+                return NextResponse.json(
+                    { error: 'Passkey sign-in failed' },
+                    { status: 500 }
+                );
+            }
+        }
+    )
+);
+
+export { handler as POST };
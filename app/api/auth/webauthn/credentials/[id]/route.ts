@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { WebAuthnService } from '@/lib/auth/webauthn';
+import { withAuth, withRecentAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withRateLimit('auth.webauthn.credentials.delete', { limit: 10, windowMs: 60 * 1000 })( // 10 requests per minute
+        withAuth(
+            withRecentAuth()(async (req, context): Promise<NextResponse> => {
+                try {
+                    const { id } = await context!.params;
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                    await WebAuthnService.deleteCredential(req.user!.id, id, ipAddress, userAgent);
+
+                    return NextResponse.json({
+                        message: 'Passkey removed successfully',
+                    });
+
+                } catch (error) {
+                    console.error('Delete passkey error:', error);
+
+                    if (error instanceof Error && error.message.includes('not found')) {
+                        return NextResponse.json(
+                            { error: 'Passkey not found' },
+                            { status: 404 }
+                        );
+                    }
+
+                    return NextResponse.json(
+                        { error: 'Failed to remove passkey' },
+                        { status: 500 }
+                    );
+                }
+            }),
+            { blockImpersonation: true }
+        )
+    )
+);
+
+export { handler as DELETE };
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { WebAuthnService } from '@/lib/auth/webauthn';
+import { withAuth, withCors } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withAuth(async (req): Promise<NextResponse> => {
+        try {
+            const credentials = await WebAuthnService.listCredentials(req.user!.id);
+
+            return NextResponse.json({
+                credentials,
+                count: credentials.length,
+            });
+
+        } catch (error) {
+            console.error('Get passkeys error:', error);
+
+            return NextResponse.json(
+                { error: 'Failed to retrieve passkeys' },
+                { status: 500 }
+            );
+        }
+    })
+);
+
+export { handler as GET };
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { WebAuthnService } from '@/lib/auth/webauthn';
+import { withAuth, withRecentAuth, withCors, withRateLimit } from '@/lib/auth/middleware';
+
+const handler = withCors(
+    withRateLimit('auth.webauthn.register.options', { limit: 10, windowMs: 15 * 60 * 1000 })( // 10 requests per 15 minutes
+        withAuth(
+            withRecentAuth()(async (req): Promise<NextResponse> => {
+                try {
+                    const { challengeId, options } = await WebAuthnService.generateRegistrationOptions(req.user!.id);
+
+                    return NextResponse.json({
+                        challengeId,
+                        options,
+                    });
+
+                } catch (error) {
+                    console.error('WebAuthn registration options error:', error);
+
+                    return NextResponse.json(
+                        { error: 'Failed to start passkey registration' },
+                        { status: 500 }
+                    );
+                }
+            }),
+            { requireVerifiedEmail: true, blockImpersonation: true }
+        )
+    )
+);
+
+export { handler as POST };
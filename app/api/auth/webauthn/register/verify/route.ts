@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { RegistrationResponseJSON } from '@simplewebauthn/server';
+import { WebAuthnService } from '@/lib/auth/webauthn';
+import { withAuth, withRecentAuth, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const registerVerifySchema = z.object({
+    challengeId: z.string().uuid('Invalid challenge'),
+    name: z.string().min(1).max(100).optional(),
+    response: z.custom<RegistrationResponseJSON>(
+        (value) => typeof value === 'object' && value !== null && 'id' in value && 'response' in value,
+        'Invalid registration response'
+    ),
+});
+
+const handler = withCors(
+    withRateLimit('auth.webauthn.register.verify', { limit: 10, windowMs: 15 * 60 * 1000 })( // 10 requests per 15 minutes
+        withAuth(
+            withRecentAuth()(async (req): Promise<NextResponse> => {
+                try {
+                    const body = await req.json();
+                    const { challengeId, name, response } = registerVerifySchema.parse(body);
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                    const credential = await WebAuthnService.verifyRegistration(
+                        req.user!.id,
+                        challengeId,
+                        response,
+                        name,
+                        ipAddress,
+                        userAgent
+                    );
+
+                    return NextResponse.json({
+                        message: 'Passkey registered successfully',
+                        credential,
+                    });
+
+                } catch (error) {
+                    console.error('WebAuthn registration error:', error);
+
+                    if (error instanceof z.ZodError) {
+                        return NextResponse.json(
+                            {
+                                error: 'Validation failed',
+                                details: error.issues.map(err => ({
+                                    field: err.path.join('.'),
+                                    message: err.message
+                                }))
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    if (error instanceof Error) {
+                        if (error.message.includes('challenge') || error.message.includes('verification failed')) {
+                            return NextResponse.json(
+                                { error: error.message },
+                                { status: 400 }
+                            );
+                        }
+                    }
+
+                    return NextResponse.json(
+                        { error: 'Passkey registration failed' },
+                        { status: 500 }
+                    );
+                }
+            }),
+            { blockImpersonation: true }
+        )
+    )
+);
+
+export { handler as POST };
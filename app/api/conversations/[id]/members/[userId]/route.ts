@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ConversationService, CONVERSATION_ROLES } from '@/lib/messaging';
+import { PermissionService } from '@/lib/permissions';
+import { withPermission, resourceIdFromParam, withCors, withRateLimit } from '@/lib/auth/middleware';
+
+// Validation schemas
+const memberParamsSchema = z.object({
+    id: z.string(),
+    userId: z.string().uuid('Invalid user ID'),
+});
+
+const updateMemberSchema = z.object({
+    role: z.enum(CONVERSATION_ROLES),
+});
+
+/**
+ * Map member change errors to responses
+ */
+function memberErrorResponse(error: unknown, fallback: string): NextResponse {
+    if (error instanceof z.ZodError) {
+        return NextResponse.json(
+            {
+                error: 'Validation failed',
+                details: error.issues.map(err => ({
+                    field: err.path.join('.'),
+                    message: err.message
+                }))
+            },
+            { status: 400 }
+        );
+    }
+
+    if (error instanceof Error) {
+        if (error.message.includes('not found')) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes('at least one admin')) {
+            return NextResponse.json(
+                { error: error.message, code: 'LAST_CONVERSATION_ADMIN' },
+                { status: 409 }
+            );
+        }
+
+        if (error.message.includes('fixed members')) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 400 }
+            );
+        }
+    }
+
+    return NextResponse.json(
+        { error: fallback },
+        { status: 500 }
+    );
+}
+
+const updateHandler = withCors(
+    withRateLimit('conversations.members.update', { limit: 60, windowMs: 60 * 1000 })( // 60 requests per minute
+        withPermission('conversation', 'manage_members', resourceIdFromParam(), { scopes: ['messages:write'] })(
+            async (req, context): Promise<NextResponse> => {
+                try {
+                    const { id, userId } = memberParamsSchema.parse(await context!.params);
+                    const body = await req.json();
+                    const { role } = updateMemberSchema.parse(body);
+
+                    await ConversationService.updateMemberRole(req.user!.id, id, userId, role);
+
+                    return NextResponse.json({ conversation: await ConversationService.get(id) });
+
+                } catch (error) {
+                    console.error('Update conversation member error:', error);
+                    return memberErrorResponse(error, 'Failed to update member');
+                }
+            }
+        )
+    )
+);
+
+// Members may always leave; removing someone else takes manage_members
+const removeHandler = withCors(
+    withRateLimit('conversations.members.remove', { limit: 60, windowMs: 60 * 1000 })( // 60 requests per minute
+        withPermission('conversation', 'read', resourceIdFromParam(), { scopes: ['messages:write'] })(
+            async (req, context): Promise<NextResponse> => {
+                try {
+                    const { id, userId } = memberParamsSchema.parse(await context!.params);
+
+                    if (userId !== req.user!.id && !(await PermissionService.can(req.user!, 'conversation', 'manage_members', id))) {
+                        return NextResponse.json(
+                            { error: 'Permission denied', code: 'PERMISSION_DENIED' },
+                            { status: 403 }
+                        );
+                    }
+
+                    await ConversationService.removeMember(req.user!.id, id, userId);
+
+                    return NextResponse.json({
+                        message: userId === req.user!.id ? 'Left conversation' : 'Member removed',
+                    });
+
+                } catch (error) {
+                    console.error('Remove conversation member error:', error);
+                    return memberErrorResponse(error, 'Failed to remove member');
+                }
+            }
+        )
+    )
+);
+
+export { updateHandler as PATCH, removeHandler as DELETE };
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ConversationService, CONVERSATION_ROLES } from '@/lib/messaging';
+import { withPermission, resourceIdFromParam, withCors, withRateLimit } from '@/lib/auth/middleware';
+
+// Validation schema
+const addMemberSchema = z.object({
+    userId: z.string().uuid('Invalid user ID'),
+    role: z.enum(CONVERSATION_ROLES).optional().default('MEMBER'),
+});
+
+const handler = withCors(
+    withRateLimit('conversations.members.add', { limit: 60, windowMs: 60 * 1000 })( // 60 requests per minute
+        withPermission('conversation', 'manage_members', resourceIdFromParam(), { scopes: ['messages:write'] })(
+            async (req, context): Promise<NextResponse> => {
+                try {
+                    const { id } = await context!.params;
+                    const body = await req.json();
+                    const { userId, role } = addMemberSchema.parse(body);
+
+                    await ConversationService.addMember(req.user!.id, id, userId, role);
+
+                    return NextResponse.json(
+                        { conversation: await ConversationService.get(id) },
+                        { status: 201 }
+                    );
+
+                } catch (error) {
+                    console.error('Add conversation member error:', error);
+
+                    if (error instanceof z.ZodError) {
+                        return NextResponse.json(
+                            {
+                                error: 'Validation failed',
+                                details: error.issues.map(err => ({
+                                    field: err.path.join('.'),
+                                    message: err.message
+                                }))
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    if (error instanceof Error) {
+                        if (error.message.includes('not found')) {
+                            return NextResponse.json(
+                                { error: error.message },
+                                { status: 404 }
+                            );
+                        }
+
+                        if (error.message.includes('already a member')) {
+                            return NextResponse.json(
+                                { error: error.message, code: 'ALREADY_MEMBER' },
+                                { status: 409 }
+                            );
+                        }
+
+                        if (error.message.includes('fixed members') || error.message.includes('not a member of the project')) {
+                            return NextResponse.json(
+                                { error: error.message },
+                                { status: 400 }
+                            );
+                        }
+                    }
+
+                    return NextResponse.json(
+                        { error: 'Failed to add member' },
+                        { status: 500 }
+                    );
+                }
+            }
+        )
+    )
+);
+
+export { handler as POST };
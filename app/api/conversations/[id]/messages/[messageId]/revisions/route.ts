@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { JWTService } from '@/lib/auth/jwt';
+import { MessageRevisionService, messageErrorResponse } from '@/lib/messaging';
+import { withPermission, resourceIdFromParam, withCors, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schema
+const messageParamsSchema = z.object({
+    id: z.string(),
+    messageId: z.string().uuid('Invalid message ID'),
+});
+
+// Conversation admins review what a message said before each edit; every lookup is audited
+const handler = withCors(
+    withPermission('conversation', 'view_revisions', resourceIdFromParam(), { scopes: ['messages:read'] })(
+        async (req, context): Promise<NextResponse> => {
+            try {
+                const { id, messageId } = messageParamsSchema.parse(await context!.params);
+                const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                const revisions = await MessageRevisionService.list(id, messageId);
+
+                await JWTService.createAuditLog({
+                    actorId: req.user!.id,
+                    action: 'MESSAGE_REVISIONS_VIEWED',
+                    targetResource: 'message',
+                    targetId: messageId,
+                    metadata: {
+                        conversationId: id,
+                        revisions: revisions.length,
+                    },
+                    ipAddress,
+                    userAgent,
+                    success: true,
+                });
+
+                return NextResponse.json({ revisions });
+
+            } catch (error) {
+                console.error('List message revisions error:', error);
+                return messageErrorResponse(error, 'Failed to retrieve message revisions');
+            }
+        }
+    )
+);
+
+export { handler as GET };
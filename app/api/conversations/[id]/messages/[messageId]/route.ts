@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { MessageService, tiptapDocumentSchema, messageErrorResponse } from '@/lib/messaging';
+import { withPermission, resourceIdFromParam, withCors, withRateLimit, getRequestMetadata } from '@/lib/auth/middleware';
+
+// Validation schemas
+const messageParamsSchema = z.object({
+    id: z.string(),
+    messageId: z.string().uuid('Invalid message ID'),
+});
+
+const editMessageSchema = z.object({
+    bodyRich: tiptapDocumentSchema,
+});
+
+const editHandler = withCors(
+    withRateLimit('conversations.messages.edit', { limit: 60, windowMs: 60 * 1000 })( // 60 requests per minute
+        withPermission('conversation', 'post', resourceIdFromParam(), { scopes: ['messages:write'] })(
+            async (req, context): Promise<NextResponse> => {
+                try {
+                    const { id, messageId } = messageParamsSchema.parse(await context!.params);
+                    const body = await req.json();
+                    const { bodyRich } = editMessageSchema.parse(body);
+
+                    const message = await MessageService.edit(req.user!.id, id, messageId, bodyRich);
+
+                    return NextResponse.json({ message });
+
+                } catch (error) {
+                    console.error('Edit message error:', error);
+                    return messageErrorResponse(error, 'Failed to edit message');
+                }
+            }
+        )
+    )
+);
+
+// Senders delete their own messages; deleting someone else's takes the conversation's delete permission
+const deleteHandler = withCors(
+    withRateLimit('conversations.messages.delete', { limit: 60, windowMs: 60 * 1000 })( // 60 requests per minute
+        withPermission('conversation', 'read', resourceIdFromParam(), { scopes: ['messages:write'] })(
+            async (req, context): Promise<NextResponse> => {
+                try {
+                    const { id, messageId } = messageParamsSchema.parse(await context!.params);
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+
+                    await MessageService.delete(req.user!, id, messageId, ipAddress, userAgent);
+
+                    return NextResponse.json({ message: 'Message deleted' });
+
+                } catch (error) {
+                    console.error('Delete message error:', error);
+                    return messageErrorResponse(error, 'Failed to delete message');
+                }
+            }
+        )
+    )
+);
+
+export { editHandler as PATCH, deleteHandler as DELETE };
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+    MessageService,
+    MESSAGE_TYPES,
+    MESSAGE_PRIORITIES,
+    MAX_MESSAGE_PAGE_SIZE,
+    tiptapDocumentSchema,
+    messageErrorResponse,
+} from '@/lib/messaging';
+import { withPermission, resourceIdFromParam, withCors, withRateLimit } from '@/lib/auth/middleware';
+
+// Validation schemas
+const historySchema = z.object({
+    before: z.string().uuid('Invalid message ID').optional(),
+    after: z.string().uuid('Invalid message ID').optional(),
+    around: z.string().uuid('Invalid message ID').optional(),
+    parentMessageId: z.string().uuid('Invalid message ID').optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_MESSAGE_PAGE_SIZE).optional(),
+}).refine(
+    (options) => [options.before, options.after, options.around].filter(Boolean).length <= 1,
+    'Use only one of before, after and around'
+);
+
+const sendMessageSchema = z.object({
+    bodyRich: tiptapDocumentSchema,
+    parentMessageId: z.string().uuid('Invalid message ID').optional(),
+    messageType: z.enum(MESSAGE_TYPES).optional(),
+    priority: z.enum(MESSAGE_PRIORITIES).optional(),
+});
+
+const listHandler = withCors(
+    withPermission('conversation', 'read', resourceIdFromParam(), { scopes: ['messages:read'] })(
+        async (req, context): Promise<NextResponse> => {
+            try {
+                const { id } = await context!.params;
+                const options = historySchema.parse(Object.fromEntries(req.nextUrl.searchParams));
+
+                const page = await MessageService.list(req.user!.id, id, options);
+
+                return NextResponse.json(page);
+
+            } catch (error) {
+                console.error('List messages error:', error);
+                return messageErrorResponse(error, 'Failed to retrieve messages');
+            }
+        }
+    )
+);
+
+const sendHandler = withCors(
+    withRateLimit('conversations.messages.send', { limit: 60, windowMs: 60 * 1000 })( // 60 messages per minute
+        withPermission('conversation', 'post', resourceIdFromParam(), { scopes: ['messages:write'] })(
+            async (req, context): Promise<NextResponse> => {
+                try {
+                    const { id } = await context!.params;
+                    const body = await req.json();
+                    const input = sendMessageSchema.parse(body);
+
+                    const message = await MessageService.send(req.user!.id, id, input);
+
+                    return NextResponse.json({ message }, { status: 201 });
+
+                } catch (error) {
+                    console.error('Send message error:', error);
+                    return messageErrorResponse(error, 'Failed to send message');
+                }
+            }
+        )
+    )
+);
+
+export { listHandler as GET, sendHandler as POST };
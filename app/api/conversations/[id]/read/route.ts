@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ConversationService } from '@/lib/messaging';
+import { withPermission, resourceIdFromParam, withCors } from '@/lib/auth/middleware';
+
+// Validation schema
+const markReadSchema = z.object({
+    messageId: z.string().uuid('Invalid message ID'),
+});
+
+const handler = withCors(
+    withPermission('conversation', 'read', resourceIdFromParam(), { scopes: ['messages:read'] })(
+        async (req, context): Promise<NextResponse> => {
+            try {
+                const { id } = await context!.params;
+                const body = await req.json();
+                const { messageId } = markReadSchema.parse(body);
+
+                await ConversationService.markRead(req.user!.id, id, messageId);
+
+                return NextResponse.json({ message: 'Conversation marked as read' });
+
+            } catch (error) {
+                console.error('Mark conversation read error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                if (error instanceof Error && error.message.includes('not found')) {
+                    return NextResponse.json(
+                        { error: error.message },
+                        { status: 404 }
+                    );
+                }
+
+                return NextResponse.json(
+                    { error: 'Failed to mark conversation as read' },
+                    { status: 500 }
+                );
+            }
+        }
+    )
+);
+
+export { handler as PUT };
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ConversationService } from '@/lib/messaging';
+import { withPermission, resourceIdFromParam, withCors, withRateLimit } from '@/lib/auth/middleware';
+
+// Validation schema
+const updateConversationSchema = z.object({
+    title: z.string().trim().min(1, 'Title is required').max(200).optional(),
+    description: z.string().trim().max(1000).nullable().optional(),
+    isArchived: z.boolean().optional(),
+}).refine((changes) => Object.keys(changes).length > 0, 'Nothing to update');
+
+const getHandler = withCors(
+    withPermission('conversation', 'read', resourceIdFromParam(), { scopes: ['messages:read'] })(
+        async (_req, context): Promise<NextResponse> => {
+            try {
+                const { id } = await context!.params;
+                const conversation = await ConversationService.get(id);
+
+                return NextResponse.json({ conversation });
+
+            } catch (error) {
+                console.error('Get conversation error:', error);
+
+                return NextResponse.json(
+                    { error: 'Failed to retrieve conversation' },
+                    { status: 500 }
+                );
+            }
+        }
+    )
+);
+
+const updateHandler = withCors(
+    withRateLimit('conversations.update', { limit: 30, windowMs: 60 * 1000 })( // 30 requests per minute
+        withPermission('conversation', 'update', resourceIdFromParam(), { scopes: ['messages:write'] })(
+            async (req, context): Promise<NextResponse> => {
+                try {
+                    const { id } = await context!.params;
+                    const body = await req.json();
+                    const changes = updateConversationSchema.parse(body);
+
+                    const conversation = await ConversationService.update(req.user!.id, id, changes);
+
+                    return NextResponse.json({ conversation });
+
+                } catch (error) {
+                    console.error('Update conversation error:', error);
+
+                    if (error instanceof z.ZodError) {
+                        return NextResponse.json(
+                            {
+                                error: 'Validation failed',
+                                details: error.issues.map(err => ({
+                                    field: err.path.join('.'),
+                                    message: err.message
+                                }))
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    if (error instanceof Error && error.message.includes('cannot be renamed')) {
+                        return NextResponse.json(
+                            { error: error.message },
+                            { status: 400 }
+                        );
+                    }
+
+                    return NextResponse.json(
+                        { error: 'Failed to update conversation' },
+                        { status: 500 }
+                    );
+                }
+            }
+        )
+    )
+);
+
+export { getHandler as GET, updateHandler as PATCH };
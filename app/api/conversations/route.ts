@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ConversationService } from '@/lib/messaging';
+import { withAuth, withCors, withRateLimit } from '@/lib/auth/middleware';
+
+// Validation schema
+const createConversationSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('DM'),
+        userId: z.string().uuid('Invalid user ID'),
+    }),
+    z.object({
+        type: z.literal('GROUP'),
+        title: z.string().trim().min(1, 'Title is required').max(200),
+        description: z.string().trim().max(1000).optional(),
+        memberIds: z.array(z.string().uuid('Invalid user ID')).max(500).default([]),
+    }),
+    z.object({
+        type: z.literal('PROJECT'),
+        projectId: z.string().uuid('Invalid project ID'),
+        title: z.string().trim().min(1).max(200).optional(),
+        description: z.string().trim().max(1000).optional(),
+    }),
+]);
+
+const listHandler = withCors(
+    withAuth(async (req): Promise<NextResponse> => {
+        try {
+            const archived = req.nextUrl.searchParams.get('archived') === 'true';
+            const conversations = await ConversationService.listForUser(req.user!.id, { archived });
+
+            return NextResponse.json({ conversations });
+
+        } catch (error) {
+            console.error('List conversations error:', error);
+
+            return NextResponse.json(
+                { error: 'Failed to retrieve conversations' },
+                { status: 500 }
+            );
+        }
+    }, { scopes: ['messages:read'] })
+);
+
+const createHandler = withCors(
+    withRateLimit('conversations.create', { limit: 30, windowMs: 60 * 60 * 1000 })( // 30 conversations per hour
+        withAuth(async (req): Promise<NextResponse> => {
+            try {
+                const body = await req.json();
+                const input = createConversationSchema.parse(body);
+
+                const { conversation, created } = await ConversationService.create(req.user!, input);
+
+                // Starting a DM that already exists hands back the existing one
+                return NextResponse.json(
+                    { conversation: await ConversationService.get(conversation.id), created },
+                    { status: created ? 201 : 200 }
+                );
+
+            } catch (error) {
+                console.error('Create conversation error:', error);
+
+                if (error instanceof z.ZodError) {
+                    return NextResponse.json(
+                        {
+                            error: 'Validation failed',
+                            details: error.issues.map(err => ({
+                                field: err.path.join('.'),
+                                message: err.message
+                            }))
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                if (error instanceof Error) {
+                    if (error.message.includes('not found')) {
+                        return NextResponse.json(
+                            { error: error.message },
+                            { status: 404 }
+                        );
+                    }
+
+                    if (error.message.includes('Not allowed')) {
+                        return NextResponse.json(
+                            { error: error.message, code: 'PERMISSION_DENIED' },
+                            { status: 403 }
+                        );
+                    }
+
+                    if (error.message.includes('yourself')) {
+                        return NextResponse.json(
+                            { error: error.message },
+                            { status: 400 }
+                        );
+                    }
+                }
+
+                return NextResponse.json(
+                    { error: 'Failed to create conversation' },
+                    { status: 500 }
+                );
+            }
+        }, { scopes: ['messages:write'] })
+    )
+);
+
+export { listHandler as GET, createHandler as POST };
@@ -19,7 +19,7 @@ const registerTokenSchema = z.object({
 });
 
 const handler = withCors(
-    withRateLimit(10, 60 * 1000)( // 10 requests per minute
+    withRateLimit('notify.register-token', { limit: 10, windowMs: 60 * 1000 })( // 10 requests per minute
         withAuth(async (req): Promise<NextResponse> => {
             try {
                 const body = await req.json();
@@ -124,7 +124,7 @@ const handler = withCors(
                     { status: 500 }
                 );
             }
-        })
+        }, { requireVerifiedEmail: true })
     )
 );
 
@@ -12,7 +12,7 @@ const unregisterTokenSchema = z.object({
 });
 
 const handler = withCors(
-    withRateLimit(10, 60 * 1000)( // 10 requests per minute
+    withRateLimit('notify.unregister-token', { limit: 10, windowMs: 60 * 1000 })( // 10 requests per minute
         withAuth(async (req): Promise<NextResponse> => {
             try {
                 const body = await req.json();
@@ -6,6 +6,7 @@ import {
 } from "@/components/ui/sidebar"
 import { AppSidebar } from "@/components/app-sidebar"
 import { SiteHeader } from "@/components/site-header"
+import { ImpersonationBanner } from "@/components/impersonation-banner"
 
 import "@/app/dashboard/theme.css"
 
@@ -28,6 +29,7 @@ export default async function DashboardLayout({
     >
       <AppSidebar variant="inset" />
       <SidebarInset>
+        <ImpersonationBanner />
         <SiteHeader />
         <div className="flex flex-1 flex-col">{children}</div>
       </SidebarInset>
@@ -0,0 +1,17 @@
+import { ConversationHistory } from "@/components/conversation-history"
+
+export default function MessagesPage() {
+  return (
+    <div className="@container/main flex flex-1 flex-col gap-2">
+      <div className="flex flex-col gap-4 px-4 py-4 md:gap-6 md:py-6 lg:px-6">
+        <div>
+          <h2 className="text-xl font-semibold">Messages</h2>
+          <p className="text-sm text-muted-foreground">
+            Read your conversations and review how edited messages changed
+          </p>
+        </div>
+        <ConversationHistory />
+      </div>
+    </div>
+  )
+}
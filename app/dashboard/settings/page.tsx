@@ -0,0 +1,17 @@
+import { ActiveSessions } from "@/components/active-sessions"
+
+export default function SettingsPage() {
+  return (
+    <div className="@container/main flex flex-1 flex-col gap-2">
+      <div className="flex flex-col gap-4 px-4 py-4 md:gap-6 md:py-6 lg:px-6">
+        <div>
+          <h2 className="text-xl font-semibold">Settings</h2>
+          <p className="text-sm text-muted-foreground">
+            Manage your account security
+          </p>
+        </div>
+        <ActiveSessions />
+      </div>
+    </div>
+  )
+}
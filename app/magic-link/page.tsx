@@ -0,0 +1,166 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { signIn } from "@/lib/auth-client";
+
+function MagicLinkSignIn() {
+    const searchParams = useSearchParams();
+    const token = searchParams.get("token");
+    const router = useRouter();
+    const [status, setStatus] = useState<"verifying" | "mfa" | "error">("verifying");
+    const [error, setError] = useState("");
+    const [mfaToken, setMfaToken] = useState<string | null>(null);
+    const [mfaCode, setMfaCode] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+    // Links are single-use, so never send one twice (effects run twice in development)
+    const consumed = useRef(false);
+
+    useEffect(() => {
+        if (!token) {
+            setStatus("error");
+            setError("Sign-in link is missing its token");
+            return;
+        }
+
+        if (consumed.current) {
+            return;
+        }
+        consumed.current = true;
+
+        const verify = async () => {
+            try {
+                const result = await signIn.magicLink({ token });
+
+                if (result.error) {
+                    setStatus("error");
+                    setError(result.error.message || "Sign in failed");
+                } else if (result.data.mfaRequired) {
+                    setMfaToken(result.data.mfaToken);
+                    setStatus("mfa");
+                } else {
+                    router.push("/dashboard");
+                }
+            } catch {
+                setStatus("error");
+                setError("An unexpected error occurred");
+            }
+        };
+
+        verify();
+    }, [token, router]);
+
+    const handleMfaSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError("");
+
+        try {
+            // Six digits is an authenticator code, anything else a recovery code
+            const code = mfaCode.trim();
+            const result = await signIn.mfa(
+                /^\d{6}$/.test(code)
+                    ? { mfaToken: mfaToken!, code }
+                    : { mfaToken: mfaToken!, recoveryCode: code }
+            );
+
+            if (result.error) {
+                if (result.error.code === "MFA_CHALLENGE_EXPIRED") {
+                    setStatus("error");
+                }
+                setError(result.error.message || "Verification failed");
+            } else if (result.data.passwordChangeRequired) {
+                // The new password is chosen on the sign-in form
+                router.push("/sign-in?error=password_expired");
+            } else {
+                router.push("/dashboard");
+            }
+        } catch {
+            setError("An unexpected error occurred");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <Card className="w-full max-w-md">
+            <CardHeader className="text-center">
+                <CardTitle className="text-2xl font-bold">Sign In</CardTitle>
+                <CardDescription>
+                    {status === "mfa"
+                        ? "Enter the code from your authenticator app"
+                        : "Signing you in with your email link"}
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                {status === "verifying" && (
+                    <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Signing in...
+                    </div>
+                )}
+                {status === "mfa" && (
+                    <form onSubmit={handleMfaSubmit} className="space-y-4">
+                        {error && (
+                            <Alert variant="destructive">
+                                <AlertDescription>{error}</AlertDescription>
+                            </Alert>
+                        )}
+                        <div className="space-y-2">
+                            <Label htmlFor="mfa-code">Verification code</Label>
+                            <Input
+                                id="mfa-code"
+                                placeholder="6-digit code or recovery code"
+                                value={mfaCode}
+                                onChange={(e) => setMfaCode(e.target.value)}
+                                required
+                                disabled={isLoading}
+                                autoComplete="one-time-code"
+                                autoFocus
+                            />
+                        </div>
+                        <Button type="submit" className="w-full" disabled={isLoading}>
+                            {isLoading ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Verifying...
+                                </>
+                            ) : (
+                                "Verify"
+                            )}
+                        </Button>
+                    </form>
+                )}
+                {status === "error" && (
+                    <Alert variant="destructive">
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                )}
+            </CardContent>
+            {status === "error" && (
+                <CardFooter>
+                    <Button asChild className="w-full">
+                        <Link href="/sign-in">Back to sign in</Link>
+                    </Button>
+                </CardFooter>
+            )}
+        </Card>
+    );
+}
+
+export default function MagicLinkPage() {
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-background px-4">
+            <Suspense>
+                <MagicLinkSignIn />
+            </Suspense>
+        </div>
+    );
+}
@@ -94,7 +94,7 @@ export default function Home() {
               <h3 className="font-semibold text-lg">Authentication</h3>
             </div>
             <ul className="space-y-2 text-sm text-muted-foreground">
-              <li>• <strong>Better Auth</strong> - Modern auth solution</li>
+              <li>• <strong>JWT Auth</strong> - Access and refresh token rotation</li>
               <li>• <strong>Session Management</strong> - Secure user sessions</li>
               <li>• <strong>Type Safety</strong> - Fully typed auth hooks</li>
               <li>• <strong>Multiple Providers</strong> - Social login support</li>
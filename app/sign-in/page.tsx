@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
@@ -8,90 +8,508 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { signIn } from "@/lib/auth-client";
-import { Loader2 } from "lucide-react";
+import { signIn, csrfHeaders, AuthResult, SignInResult } from "@/lib/auth-client";
+import { startAuthentication } from "@simplewebauthn/browser";
+import { Building2, KeyRound, Loader2, Mail } from "lucide-react";
+
+// Error codes the SSO callback and magic link page redirect back with
+const SSO_ERRORS: Record<string, string> = {
+    sso_unavailable: "Single sign-on is not configured",
+    sso_failed: "Single sign-on failed. Please try again.",
+    sso_account_not_linked: "Your organization account could not be linked to an existing account",
+    account_inactive: "Account is not active",
+    account_locked: "Account temporarily locked due to too many failed login attempts. Please try again later.",
+    password_expired: "Your password has expired. Sign in with it to choose a new one.",
+};
 
 export default function SignInPage() {
     const [email, setEmail] = useState("");
     const [password, setPassword] = useState("");
     const [isLoading, setIsLoading] = useState(false);
+    const [isPasskeyLoading, setIsPasskeyLoading] = useState(false);
     const [error, setError] = useState("");
+    const [magicLinkMessage, setMagicLinkMessage] = useState("");
+    const [isMagicLinkAvailable, setIsMagicLinkAvailable] = useState(true);
+    const [mfaToken, setMfaToken] = useState<string | null>(null);
+    const [mfaCode, setMfaCode] = useState("");
+    const [challengeToken, setChallengeToken] = useState<string | null>(null);
+    const [challengeCode, setChallengeCode] = useState("");
+    const [passwordChangeToken, setPasswordChangeToken] = useState<string | null>(null);
+    const [newPassword, setNewPassword] = useState("");
+    const [confirmPassword, setConfirmPassword] = useState("");
     const router = useRouter();
 
+    useEffect(() => {
+        const code = new URLSearchParams(window.location.search).get("error");
+        if (code) {
+            setError(SSO_ERRORS[code] || "Sign in failed");
+        }
+    }, []);
+
+    const handleSignInResult = (result: AuthResult<SignInResult>) => {
+        if (result.error) {
+            setError(result.error.message || "Sign in failed");
+        } else if (result.data.challengeRequired) {
+            setChallengeToken(result.data.challengeToken);
+        } else if (result.data.passwordChangeRequired) {
+            setPasswordChangeToken(result.data.passwordChangeToken);
+        } else if (result.data.mfaRequired) {
+            setMfaToken(result.data.mfaToken);
+        } else {
+            router.push("/dashboard");
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsLoading(true);
         setError("");
 
         try {
-            const result = await signIn.email({
+            handleSignInResult(await signIn.email({
                 email,
                 password,
+            }));
+        } catch {
+            setError("An unexpected error occurred");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleMfaSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError("");
+
+        try {
+            // Six digits is an authenticator code, anything else a recovery code
+            const code = mfaCode.trim();
+            const result = await signIn.mfa(
+                /^\d{6}$/.test(code)
+                    ? { mfaToken: mfaToken!, code }
+                    : { mfaToken: mfaToken!, recoveryCode: code }
+            );
+
+            if (result.error) {
+                if (result.error.code === "MFA_CHALLENGE_EXPIRED") {
+                    setMfaToken(null);
+                    setMfaCode("");
+                }
+                setError(result.error.message || "Verification failed");
+            } else {
+                // An expired password is replaced now that the second factor checked out
+                setMfaToken(null);
+                setMfaCode("");
+                handleSignInResult(result);
+            }
+        } catch {
+            setError("An unexpected error occurred");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleChallengeSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError("");
+
+        try {
+            const result = await signIn.challenge({
+                challengeToken: challengeToken!,
+                code: challengeCode.trim(),
+            });
+
+            if (result.error) {
+                if (result.error.code === "LOGIN_CHALLENGE_EXPIRED") {
+                    setChallengeToken(null);
+                    setChallengeCode("");
+                }
+                setError(result.error.message || "Verification failed");
+                return;
+            }
+
+            // An expired password may still have to be replaced
+            setChallengeToken(null);
+            setChallengeCode("");
+            handleSignInResult(result);
+        } catch {
+            setError("An unexpected error occurred");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleExpiredPasswordSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (newPassword !== confirmPassword) {
+            setError("Passwords do not match");
+            return;
+        }
+
+        setIsLoading(true);
+        setError("");
+
+        try {
+            const result = await signIn.expiredPassword({
+                passwordChangeToken: passwordChangeToken!,
+                newPassword,
             });
 
             if (result.error) {
-                setError(result.error.message || "Sign in failed");
+                if (result.error.code === "PASSWORD_CHANGE_EXPIRED") {
+                    setPasswordChangeToken(null);
+                }
+                setError(result.error.message || "Password change failed");
+                return;
+            }
+
+            // Continue signing in with the new password, which may still ask for a second factor
+            setPasswordChangeToken(null);
+            setPassword(newPassword);
+            setNewPassword("");
+            setConfirmPassword("");
+            handleSignInResult(await signIn.email({
+                email,
+                password: newPassword,
+            }));
+        } catch {
+            setError("An unexpected error occurred");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleMagicLinkRequest = async () => {
+        if (!email) {
+            setError("Enter your email to receive a sign-in link");
+            return;
+        }
+
+        setIsLoading(true);
+        setError("");
+        setMagicLinkMessage("");
+
+        try {
+            const result = await signIn.requestMagicLink({ email });
+
+            if (result.error) {
+                if (result.error.code === "MAGIC_LINK_DISABLED") {
+                    setIsMagicLinkAvailable(false);
+                }
+                setError(result.error.message || "Failed to send sign-in link");
             } else {
-                router.push("/dashboard");
+                setMagicLinkMessage("Check your email for a sign-in link. Open it in this browser.");
             }
-        } catch (err) {
+        } catch {
             setError("An unexpected error occurred");
         } finally {
             setIsLoading(false);
         }
     };
 
+    const handlePasskeySignIn = async () => {
+        setIsPasskeyLoading(true);
+        setError("");
+
+        try {
+            const optionsResponse = await fetch("/api/auth/webauthn/authenticate/options", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", ...csrfHeaders() },
+                body: JSON.stringify(email ? { email } : {}),
+            });
+            const { challengeId, options, error: optionsError } = await optionsResponse.json();
+
+            if (!optionsResponse.ok) {
+                setError(optionsError || "Passkey sign in failed");
+                return;
+            }
+
+            const assertion = await startAuthentication({ optionsJSON: options });
+
+            const verifyResponse = await fetch("/api/auth/webauthn/authenticate/verify", {
+                method: "POST",
+                headers: { "Content-Type": "application/json", ...csrfHeaders() },
+                credentials: "include",
+                body: JSON.stringify({ challengeId, response: assertion }),
+            });
+
+            if (!verifyResponse.ok) {
+                const { error: verifyError } = await verifyResponse.json();
+                setError(verifyError || "Passkey sign in failed");
+                return;
+            }
+
+            router.push("/dashboard");
+        } catch (err) {
+            // The user dismissed the browser prompt or no passkey is available
+            if (err instanceof Error && err.name === "NotAllowedError") {
+                setError("Passkey sign in was cancelled");
+            } else {
+                setError("An unexpected error occurred");
+            }
+        } finally {
+            setIsPasskeyLoading(false);
+        }
+    };
+
     return (
         <div className="min-h-screen flex items-center justify-center bg-background px-4">
             <Card className="w-full max-w-md">
                 <CardHeader className="text-center">
                     <CardTitle className="text-2xl font-bold">Sign In</CardTitle>
                     <CardDescription>
-                        Enter your email and password to access your account
+                        {passwordChangeToken
+                            ? "Your password has expired. Choose a new one to continue."
+                            : challengeToken
+                                ? "This sign-in looks unusual. Enter the code we emailed you to continue."
+                                : mfaToken
+                                    ? "Enter the code from your authenticator app"
+                                    : "Enter your email and password to access your account"}
                     </CardDescription>
                 </CardHeader>
                 <CardContent>
-                    <form onSubmit={handleSubmit} className="space-y-4">
-                        {error && (
-                            <Alert variant="destructive">
-                                <AlertDescription>{error}</AlertDescription>
-                            </Alert>
-                        )}
-                        <div className="space-y-2">
-                            <Label htmlFor="email">Email</Label>
-                            <Input
-                                id="email"
-                                type="email"
-                                placeholder="Enter your email"
-                                value={email}
-                                onChange={(e) => setEmail(e.target.value)}
-                                required
+                    {passwordChangeToken ? (
+                        <form onSubmit={handleExpiredPasswordSubmit} className="space-y-4">
+                            {error && (
+                                <Alert variant="destructive">
+                                    <AlertDescription>{error}</AlertDescription>
+                                </Alert>
+                            )}
+                            <div className="space-y-2">
+                                <Label htmlFor="new-password">New password</Label>
+                                <Input
+                                    id="new-password"
+                                    type="password"
+                                    placeholder="Enter a new password"
+                                    value={newPassword}
+                                    onChange={(e) => setNewPassword(e.target.value)}
+                                    required
+                                    disabled={isLoading}
+                                    autoComplete="new-password"
+                                    autoFocus
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="confirm-password">Confirm new password</Label>
+                                <Input
+                                    id="confirm-password"
+                                    type="password"
+                                    placeholder="Repeat the new password"
+                                    value={confirmPassword}
+                                    onChange={(e) => setConfirmPassword(e.target.value)}
+                                    required
+                                    disabled={isLoading}
+                                    autoComplete="new-password"
+                                />
+                            </div>
+                            <Button type="submit" className="w-full" disabled={isLoading}>
+                                {isLoading ? (
+                                    <>
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        Changing password...
+                                    </>
+                                ) : (
+                                    "Change password"
+                                )}
+                            </Button>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                className="w-full"
+                                onClick={() => {
+                                    setPasswordChangeToken(null);
+                                    setNewPassword("");
+                                    setConfirmPassword("");
+                                    setError("");
+                                }}
                                 disabled={isLoading}
-                            />
-                        </div>
-                        <div className="space-y-2">
-                            <Label htmlFor="password">Password</Label>
-                            <Input
-                                id="password"
-                                type="password"
-                                placeholder="Enter your password"
-                                value={password}
-                                onChange={(e) => setPassword(e.target.value)}
-                                required
+                            >
+                                Back to sign in
+                            </Button>
+                        </form>
+                    ) : challengeToken ? (
+                        <form onSubmit={handleChallengeSubmit} className="space-y-4">
+                            {error && (
+                                <Alert variant="destructive">
+                                    <AlertDescription>{error}</AlertDescription>
+                                </Alert>
+                            )}
+                            <div className="space-y-2">
+                                <Label htmlFor="challenge-code">Verification code</Label>
+                                <Input
+                                    id="challenge-code"
+                                    placeholder="6-digit code"
+                                    value={challengeCode}
+                                    onChange={(e) => setChallengeCode(e.target.value)}
+                                    required
+                                    disabled={isLoading}
+                                    inputMode="numeric"
+                                    autoComplete="one-time-code"
+                                    autoFocus
+                                />
+                            </div>
+                            <Button type="submit" className="w-full" disabled={isLoading}>
+                                {isLoading ? (
+                                    <>
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        Verifying...
+                                    </>
+                                ) : (
+                                    "Verify"
+                                )}
+                            </Button>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                className="w-full"
+                                onClick={() => {
+                                    setChallengeToken(null);
+                                    setChallengeCode("");
+                                    setError("");
+                                }}
+                                disabled={isLoading}
+                            >
+                                Back to sign in
+                            </Button>
+                        </form>
+                    ) : mfaToken ? (
+                        <form onSubmit={handleMfaSubmit} className="space-y-4">
+                            {error && (
+                                <Alert variant="destructive">
+                                    <AlertDescription>{error}</AlertDescription>
+                                </Alert>
+                            )}
+                            <div className="space-y-2">
+                                <Label htmlFor="mfa-code">Verification code</Label>
+                                <Input
+                                    id="mfa-code"
+                                    placeholder="6-digit code or recovery code"
+                                    value={mfaCode}
+                                    onChange={(e) => setMfaCode(e.target.value)}
+                                    required
+                                    disabled={isLoading}
+                                    autoComplete="one-time-code"
+                                    autoFocus
+                                />
+                            </div>
+                            <Button type="submit" className="w-full" disabled={isLoading}>
+                                {isLoading ? (
+                                    <>
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        Verifying...
+                                    </>
+                                ) : (
+                                    "Verify"
+                                )}
+                            </Button>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                className="w-full"
+                                onClick={() => {
+                                    setMfaToken(null);
+                                    setMfaCode("");
+                                    setError("");
+                                }}
                                 disabled={isLoading}
-                            />
-                        </div>
-                        <Button type="submit" className="w-full" disabled={isLoading}>
-                            {isLoading ? (
-                                <>
-                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                    Signing in...
-                                </>
-                            ) : (
-                                "Sign In"
+                            >
+                                Back to sign in
+                            </Button>
+                        </form>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            {error && (
+                                <Alert variant="destructive">
+                                    <AlertDescription>{error}</AlertDescription>
+                                </Alert>
+                            )}
+                            {magicLinkMessage && (
+                                <Alert>
+                                    <AlertDescription>{magicLinkMessage}</AlertDescription>
+                                </Alert>
+                            )}
+                            <div className="space-y-2">
+                                <Label htmlFor="email">Email</Label>
+                                <Input
+                                    id="email"
+                                    type="email"
+                                    placeholder="Enter your email"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    required
+                                    disabled={isLoading || isPasskeyLoading}
+                                    autoComplete="username webauthn"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="password">Password</Label>
+                                <Input
+                                    id="password"
+                                    type="password"
+                                    placeholder="Enter your password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    required
+                                    disabled={isLoading || isPasskeyLoading}
+                                />
+                            </div>
+                            <Button type="submit" className="w-full" disabled={isLoading || isPasskeyLoading}>
+                                {isLoading ? (
+                                    <>
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        Signing in...
+                                    </>
+                                ) : (
+                                    "Sign In"
+                                )}
+                            </Button>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                className="w-full"
+                                onClick={handlePasskeySignIn}
+                                disabled={isLoading || isPasskeyLoading}
+                            >
+                                {isPasskeyLoading ? (
+                                    <>
+                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                        Waiting for passkey...
+                                    </>
+                                ) : (
+                                    <>
+                                        <KeyRound className="mr-2 h-4 w-4" />
+                                        Sign in with a passkey
+                                    </>
+                                )}
+                            </Button>
+                            {isMagicLinkAvailable && (
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    className="w-full"
+                                    onClick={handleMagicLinkRequest}
+                                    disabled={isLoading || isPasskeyLoading}
+                                >
+                                    <Mail className="mr-2 h-4 w-4" />
+                                    Email me a sign-in link
+                                </Button>
                             )}
-                        </Button>
-                    </form>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                className="w-full"
+                                // Full page navigation: the route redirects to the identity provider
+                                onClick={() => window.location.assign("/api/auth/oidc/login")}
+                                disabled={isLoading || isPasskeyLoading}
+                            >
+                                <Building2 className="mr-2 h-4 w-4" />
+                                Sign in with SSO
+                            </Button>
+                        </form>
+                    )}
                 </CardContent>
                 <CardFooter className="text-center">
                     <p className="text-sm text-muted-foreground">
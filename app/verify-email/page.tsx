@@ -0,0 +1,92 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { csrfHeaders } from "@/lib/auth-client";
+
+function VerifyEmail() {
+    const searchParams = useSearchParams();
+    const token = searchParams.get("token");
+    const [status, setStatus] = useState<"verifying" | "success" | "error">("verifying");
+    const [error, setError] = useState("");
+
+    useEffect(() => {
+        if (!token) {
+            setStatus("error");
+            setError("Verification link is missing its token");
+            return;
+        }
+
+        const verify = async () => {
+            try {
+                const response = await fetch("/api/auth/email/verify", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json", ...csrfHeaders() },
+                    body: JSON.stringify({ token }),
+                });
+
+                if (response.ok) {
+                    setStatus("success");
+                } else {
+                    const data = await response.json();
+                    setStatus("error");
+                    setError(data.error || "Email verification failed");
+                }
+            } catch {
+                setStatus("error");
+                setError("An unexpected error occurred");
+            }
+        };
+
+        verify();
+    }, [token]);
+
+    return (
+        <Card className="w-full max-w-md">
+            <CardHeader className="text-center">
+                <CardTitle className="text-2xl font-bold">Verify Email</CardTitle>
+                <CardDescription>
+                    Confirming your email address
+                </CardDescription>
+            </CardHeader>
+            <CardContent>
+                {status === "verifying" && (
+                    <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Verifying...
+                    </div>
+                )}
+                {status === "success" && (
+                    <Alert>
+                        <AlertDescription>Your email address has been verified.</AlertDescription>
+                    </Alert>
+                )}
+                {status === "error" && (
+                    <Alert variant="destructive">
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                )}
+            </CardContent>
+            <CardFooter>
+                <Button asChild className="w-full">
+                    <Link href="/dashboard">Continue to dashboard</Link>
+                </Button>
+            </CardFooter>
+        </Card>
+    );
+}
+
+export default function VerifyEmailPage() {
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-background px-4">
+            <Suspense>
+                <VerifyEmail />
+            </Suspense>
+        </div>
+    );
+}
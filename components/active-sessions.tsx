@@ -0,0 +1,185 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import {
+  IconDeviceDesktop,
+  IconDeviceMobile,
+  IconDeviceTablet,
+  IconLoader2,
+  IconLogout,
+} from "@tabler/icons-react"
+
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { authFetch } from "@/lib/auth-client"
+
+interface Session {
+  id: string
+  device: {
+    browser: string
+    os: string
+    deviceType: "desktop" | "mobile" | "tablet" | "unknown"
+  }
+  ipAddress: string | null
+  signedInAt: string
+  lastActiveAt: string
+  isCurrent: boolean
+}
+
+function DeviceIcon({ type }: { type: Session["device"]["deviceType"] }) {
+  if (type === "mobile") return <IconDeviceMobile className="size-5" />
+  if (type === "tablet") return <IconDeviceTablet className="size-5" />
+  return <IconDeviceDesktop className="size-5" />
+}
+
+export function ActiveSessions() {
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const [error, setError] = useState("")
+
+  const loadSessions = useCallback(async () => {
+    setError("")
+    try {
+      const response = await authFetch("/api/auth/sessions")
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Failed to load sessions")
+        return
+      }
+
+      setSessions(data.sessions)
+    } catch {
+      setError("Failed to load sessions")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const revokeSession = async (id: string) => {
+    setPendingId(id)
+    try {
+      const response = await authFetch(`/api/auth/sessions/${id}`, {
+        method: "DELETE",
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || "Failed to sign out session")
+      }
+
+      await loadSessions()
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const revokeOtherSessions = async () => {
+    setPendingId("others")
+    try {
+      const response = await authFetch("/api/auth/sessions/revoke-others", {
+        method: "POST",
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || "Failed to sign out other sessions")
+      }
+
+      await loadSessions()
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  const hasOtherSessions = sessions.some((session) => !session.isCurrent)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Active sessions</CardTitle>
+        <CardDescription>
+          Devices that are currently signed in to your account
+        </CardDescription>
+        <CardAction>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={revokeOtherSessions}
+            disabled={!hasOtherSessions || pendingId !== null}
+          >
+            {pendingId === "others" ? (
+              <IconLoader2 className="animate-spin" />
+            ) : (
+              <IconLogout />
+            )}
+            Sign out everywhere else
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <IconLoader2 className="size-4 animate-spin" />
+            Loading sessions...
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active sessions</p>
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.id}
+              className="flex items-center gap-4 rounded-lg border p-3"
+            >
+              <div className="text-muted-foreground">
+                <DeviceIcon type={session.device.deviceType} />
+              </div>
+              <div className="grid flex-1 gap-0.5 text-sm">
+                <div className="flex items-center gap-2 font-medium">
+                  {session.device.browser} on {session.device.os}
+                  {session.isCurrent && <Badge variant="secondary">This device</Badge>}
+                </div>
+                <div className="text-muted-foreground text-xs">
+                  {session.ipAddress || "Unknown IP"} · Signed in{" "}
+                  {formatDistanceToNow(new Date(session.signedInAt), { addSuffix: true })} · Last active{" "}
+                  {formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })}
+                </div>
+              </div>
+              {!session.isCurrent && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revokeSession(session.id)}
+                  disabled={pendingId !== null}
+                >
+                  {pendingId === session.id && <IconLoader2 className="animate-spin" />}
+                  Sign out
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -15,6 +15,7 @@ import {
   IconFolder,
   IconHelp,
   IconListDetails,
+  IconMessages,
   IconReport,
   IconSearch,
   IconSettings,
@@ -112,9 +113,14 @@ const staticData = {
     },
   ],
   navSecondary: [
+    {
+      title: "Messages",
+      url: "/dashboard/messages",
+      icon: IconMessages,
+    },
     {
       title: "Settings",
-      url: "#",
+      url: "/dashboard/settings",
       icon: IconSettings,
     },
     {
@@ -153,7 +159,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const userData = session?.user ? {
     name: session.user.name || "User",
     email: session.user.email,
-    avatar: session.user.image || "/codeguide-logo.png",
+    avatar: session.user.avatarUrl || "/codeguide-logo.png",
   } : {
     name: "Guest",
     email: "guest@example.com", 
@@ -53,7 +53,7 @@ export function AuthButtons() {
         <DropdownMenuTrigger asChild>
           <Button variant="ghost" className="relative h-8 w-8 rounded-full">
             <Avatar className="h-8 w-8">
-              <AvatarImage src={user.image || undefined} alt={user.name || "User"} />
+              <AvatarImage src={user.avatarUrl || undefined} alt={user.name || "User"} />
               <AvatarFallback>{initials}</AvatarFallback>
             </Avatar>
           </Button>
@@ -0,0 +1,199 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { format } from "date-fns"
+import { IconLoader2 } from "@tabler/icons-react"
+
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { MessageRevisionsDialog } from "@/components/message-revisions"
+import { authFetch, useSession } from "@/lib/auth-client"
+
+interface Conversation {
+  id: string
+  type: string
+  title: string | null
+  role: string
+}
+
+interface Message {
+  id: string
+  sender: { id: string; name: string } | null
+  bodyPlain: string
+  messageType: string
+  isEdited: boolean
+  isDeleted: boolean
+  createdAt: string
+  editedAt: string | null
+}
+
+function conversationLabel(conversation: Conversation) {
+  return conversation.title || (conversation.type === "DM" ? "Direct message" : "Untitled conversation")
+}
+
+/**
+ * Read-only message history of the user's conversations. Conversation and platform admins can
+ * open the edit history of edited messages.
+ */
+export function ConversationHistory() {
+  const { data: session } = useSession()
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [messages, setMessages] = useState<Message[]>([])
+  const [hasOlder, setHasOlder] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const loadConversations = async () => {
+      try {
+        const response = await authFetch("/api/conversations")
+        const data = await response.json()
+
+        if (!response.ok) {
+          setError(data.error || "Failed to load conversations")
+          return
+        }
+
+        setConversations(data.conversations)
+        setConversationId(data.conversations[0]?.id ?? null)
+      } catch {
+        setError("Failed to load conversations")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadConversations()
+  }, [])
+
+  const loadMessages = useCallback(async (before?: string) => {
+    if (!conversationId) {
+      return
+    }
+
+    setError("")
+    try {
+      const params = new URLSearchParams({ limit: "50", ...(before ? { before } : {}) })
+      const response = await authFetch(`/api/conversations/${conversationId}/messages?${params}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Failed to load messages")
+        return
+      }
+
+      setMessages((current) => (before ? [...data.messages, ...current] : data.messages))
+      setHasOlder(data.hasOlder)
+    } catch {
+      setError("Failed to load messages")
+    }
+  }, [conversationId])
+
+  useEffect(() => {
+    setMessages([])
+    setHasOlder(false)
+    loadMessages()
+  }, [loadMessages])
+
+  const loadOlder = async () => {
+    setIsLoadingOlder(true)
+    try {
+      await loadMessages(messages[0]?.id)
+    } finally {
+      setIsLoadingOlder(false)
+    }
+  }
+
+  const conversation = conversations.find((item) => item.id === conversationId)
+  // Mirrors the view_revisions policy: conversation ADMINs and platform ADMINs
+  const canViewRevisions = conversation?.role === "ADMIN" || session?.user.role === "ADMIN"
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Conversations</CardTitle>
+        <CardDescription>
+          Message history of the conversations you are a member of
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <IconLoader2 className="size-4 animate-spin" />
+            Loading conversations...
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No conversations yet</p>
+        ) : (
+          <>
+            <Select value={conversationId ?? undefined} onValueChange={setConversationId}>
+              <SelectTrigger className="w-full sm:w-72">
+                <SelectValue placeholder="Select a conversation" />
+              </SelectTrigger>
+              <SelectContent>
+                {conversations.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {conversationLabel(item)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {hasOlder && (
+              <Button variant="outline" size="sm" onClick={loadOlder} disabled={isLoadingOlder}>
+                {isLoadingOlder && <IconLoader2 className="animate-spin" />}
+                Load older messages
+              </Button>
+            )}
+            {messages.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No messages yet</p>
+            ) : (
+              messages.map((message) => (
+                <div key={message.id} className="flex items-start gap-4 rounded-lg border p-3">
+                  <div className="grid flex-1 gap-0.5 text-sm">
+                    <div className="flex items-center gap-2 font-medium">
+                      {message.sender?.name ?? (message.messageType === "SYSTEM" ? "System" : "Deleted user")}
+                      {message.isEdited && !message.isDeleted && <Badge variant="secondary">Edited</Badge>}
+                    </div>
+                    <div className="text-muted-foreground text-xs">
+                      {format(new Date(message.createdAt), "PP p")}
+                    </div>
+                    {message.isDeleted ? (
+                      <p className="italic text-muted-foreground">This message was deleted</p>
+                    ) : (
+                      <p className="whitespace-pre-wrap">{message.bodyPlain}</p>
+                    )}
+                  </div>
+                  {canViewRevisions && message.isEdited && conversationId && (
+                    <MessageRevisionsDialog conversationId={conversationId} messageId={message.id} />
+                  )}
+                </div>
+              ))
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { IconEyeCheck, IconLogout } from "@tabler/icons-react"
+
+import { stopImpersonating, useSession } from "@/lib/auth-client"
+import { Button } from "@/components/ui/button"
+
+export function ImpersonationBanner() {
+  const { data: session } = useSession()
+  const router = useRouter()
+  const [isExiting, setIsExiting] = useState(false)
+
+  const impersonator = session?.user.impersonator
+  if (!impersonator) {
+    return null
+  }
+
+  const handleExit = async () => {
+    setIsExiting(true)
+    try {
+      await stopImpersonating()
+      router.refresh()
+    } catch (error) {
+      console.error("Stop impersonating error:", error)
+    } finally {
+      setIsExiting(false)
+    }
+  }
+
+  const expiresAt = new Date(impersonator.expiresAt).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+
+  return (
+    <div
+      role="status"
+      className="flex items-center justify-between gap-4 border-b bg-amber-100 px-4 py-2 text-sm text-amber-950 lg:px-6 dark:bg-amber-900 dark:text-amber-50"
+    >
+      <div className="flex items-center gap-2">
+        <IconEyeCheck className="size-4 shrink-0" />
+        <span>
+          Viewing as <strong>{session.user.name}</strong> ({session.user.email}).
+          Signed in as {impersonator.name}; access ends at {expiresAt}.
+        </span>
+      </div>
+      <Button size="sm" variant="outline" onClick={handleExit} disabled={isExiting}>
+        <IconLogout />
+        {isExiting ? "Exiting..." : "Exit impersonation"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { IconHistory, IconLoader2 } from "@tabler/icons-react"
+
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { authFetch } from "@/lib/auth-client"
+import { diffWords } from "@/lib/messaging/diff"
+
+interface Revision {
+  revision: number
+  bodyPlain: string
+  editor: { id: string; name: string } | null
+  editedAt: string
+  isCurrent: boolean
+}
+
+function revisionLabel(revision: Revision) {
+  return `${revision.isCurrent ? "Current" : `Revision ${revision.revision}`} · ${format(new Date(revision.editedAt), "PP p")}`
+}
+
+function RevisionPicker({
+  label,
+  revisions,
+  value,
+  onChange,
+}: {
+  label: string
+  revisions: Revision[]
+  value: number | null
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="grid flex-1 gap-1.5 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <Select
+        value={value === null ? undefined : String(value)}
+        onValueChange={(next) => onChange(Number(next))}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Select a revision" />
+        </SelectTrigger>
+        <SelectContent>
+          {revisions.map((revision) => (
+            <SelectItem key={revision.revision} value={String(revision.revision)}>
+              {revisionLabel(revision)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+/**
+ * Edit history of a message for conversation admins, comparing any two revisions word by word
+ */
+export function MessageRevisionsDialog({
+  conversationId,
+  messageId,
+}: {
+  conversationId: string
+  messageId: string
+}) {
+  const [open, setOpen] = useState(false)
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [from, setFrom] = useState<number | null>(null)
+  const [to, setTo] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  const loadRevisions = useCallback(async () => {
+    setError("")
+    setIsLoading(true)
+    try {
+      const response = await authFetch(
+        `/api/conversations/${conversationId}/messages/${messageId}/revisions`
+      )
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "Failed to load edit history")
+        return
+      }
+
+      const loaded: Revision[] = data.revisions
+      setRevisions(loaded)
+      // Start with the latest edit: the previous revision against the current one
+      setFrom(loaded.at(-2)?.revision ?? null)
+      setTo(loaded.at(-1)?.revision ?? null)
+    } catch {
+      setError("Failed to load edit history")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [conversationId, messageId])
+
+  useEffect(() => {
+    if (open) {
+      loadRevisions()
+    }
+  }, [open, loadRevisions])
+
+  const fromRevision = revisions.find((revision) => revision.revision === from)
+  const toRevision = revisions.find((revision) => revision.revision === to)
+
+  const changes = useMemo(
+    () =>
+      fromRevision && toRevision
+        ? diffWords(fromRevision.bodyPlain, toRevision.bodyPlain)
+        : [],
+    [fromRevision, toRevision]
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <IconHistory />
+          Edit history
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>
+            Compare what this message said before and after its edits
+          </DialogDescription>
+        </DialogHeader>
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <IconLoader2 className="size-4 animate-spin" />
+            Loading edit history...
+          </div>
+        ) : revisions.length < 2 ? (
+          !error && (
+            <p className="text-sm text-muted-foreground">
+              No earlier revisions are kept for this message
+            </p>
+          )
+        ) : (
+          <div className="flex flex-col gap-4">
+            <div className="flex gap-3">
+              <RevisionPicker label="From" revisions={revisions} value={from} onChange={setFrom} />
+              <RevisionPicker label="To" revisions={revisions} value={to} onChange={setTo} />
+            </div>
+            {toRevision && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                {toRevision.isCurrent && <Badge variant="secondary">Current</Badge>}
+                Written by {toRevision.editor?.name ?? "a deleted user"}
+              </div>
+            )}
+            <div className="max-h-96 overflow-y-auto whitespace-pre-wrap rounded-lg border p-3 text-sm">
+              {changes.map((change, index) =>
+                change.type === "added" ? (
+                  <ins key={index} className="bg-green-500/15 text-green-700 no-underline dark:text-green-400">
+                    {change.text}
+                  </ins>
+                ) : change.type === "removed" ? (
+                  <del key={index} className="bg-red-500/15 text-red-700 dark:text-red-400">
+                    {change.text}
+                  </del>
+                ) : (
+                  <span key={index}>{change.text}</span>
+                )
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,116 @@
+import 'dotenv/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AuditChainService, AuditCheckpoint, AuditCheckpointKey, AuditChainVerification } from '@/lib/audit';
+import { SigningKeyService } from '@/lib/auth/signing-keys';
+
+const USAGE = `Usage: npm run audit:chain -- <command>
+
+Commands:
+  verify [--checkpoints <dir>] [--keys <dir>]
+                                Walk the hash chain and report the first broken link, also checking
+                                the signed checkpoints (*.json) in the directory against the public
+                                keys (*.json JWKs, default <dir>/keys)
+  checkpoint                    Sign the current head of the chain with the active JWT signing key,
+                                print it and save it to AUDIT_CHECKPOINT_DIR, pinning the key's public
+                                half in its keys/ directory; copy both somewhere the database cannot reach
+
+Run checkpoint on a schedule (e.g. hourly) and verify before each compliance review.`;
+
+function getOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index === -1 ? undefined : args[index + 1];
+}
+
+async function readJsonFiles<T>(directory: string): Promise<T[]> {
+    const fileNames = (await fs.readdir(directory).catch(() => [] as string[]))
+        .filter((fileName) => fileName.endsWith('.json'));
+
+    return Promise.all(fileNames.map(async (fileName) =>
+        JSON.parse(await fs.readFile(path.join(directory, fileName), 'utf8')) as T
+    ));
+}
+
+/**
+ * Keep the public key that signed a checkpoint next to it; verification trusts only these files
+ */
+async function pinPublicKey(directory: string, kid: string): Promise<void> {
+    const { keys } = await SigningKeyService.getJwks();
+    const jwk = keys.find((key) => key.kid === kid);
+
+    if (!jwk) {
+        throw new Error(`Public key ${kid} is not published`);
+    }
+
+    await fs.mkdir(path.join(directory, 'keys'), { recursive: true });
+    // 'wx' keeps the first copy; a key never changes under the same kid
+    await fs.writeFile(path.join(directory, 'keys', `${kid}.json`), JSON.stringify(jwk, null, 2), { flag: 'wx' })
+        .catch((error: NodeJS.ErrnoException) => {
+            if (error.code !== 'EEXIST') {
+                throw error;
+            }
+        });
+}
+
+function formatVerification(result: AuditChainVerification): string {
+    const range = result.firstSequence === null
+        ? 'no chained entries'
+        : `entries ${result.firstSequence}-${result.lastSequence}${result.prunedThrough ? ` (1-${result.prunedThrough} pruned)` : ''}`;
+
+    if (result.valid) {
+        return `✅ Audit chain intact: ${result.checkedEntries} ${range}, head ${result.lastHash}`;
+    }
+
+    const { sequence, id, reason } = result.brokenAt!;
+    return `❌ Audit chain broken at entry ${sequence}${id ? ` (${id})` : ''}: ${reason}; ${result.checkedEntries} entries verified before it`;
+}
+
+/**
+ * Verify and checkpoint the tamper-evident audit log (see lib/audit/chain.ts)
+ */
+async function manageAuditChain(args: string[]): Promise<boolean> {
+    const [command] = args;
+
+    switch (command) {
+        case 'verify': {
+            const directory = getOption(args, '--checkpoints');
+            const keysDirectory = getOption(args, '--keys') ?? (directory && path.join(directory, 'keys'));
+            const checkpoints = directory ? await readJsonFiles<AuditCheckpoint>(directory) : [];
+            const publicKeys = keysDirectory ? await readJsonFiles<AuditCheckpointKey>(keysDirectory) : [];
+
+            const result = await AuditChainService.verify(checkpoints, publicKeys);
+            console.log(formatVerification(result));
+            return result.valid;
+        }
+
+        case 'checkpoint': {
+            const checkpoint = await AuditChainService.createCheckpoint();
+            const directory = process.env.AUDIT_CHECKPOINT_DIR || '.audit-checkpoints';
+
+            await fs.mkdir(directory, { recursive: true });
+            await pinPublicKey(directory, checkpoint.kid);
+            await fs.writeFile(
+                path.join(directory, `checkpoint-${String(checkpoint.sequence).padStart(12, '0')}.json`),
+                JSON.stringify(checkpoint, null, 2)
+            );
+
+            console.log(JSON.stringify(checkpoint));
+            return true;
+        }
+
+        default:
+            throw new Error(USAGE);
+    }
+}
+
+// Run the command if called directly
+if (require.main === module) {
+    manageAuditChain(process.argv.slice(2))
+        .then((ok) => process.exit(ok ? 0 : 2))
+        .catch((error) => {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        });
+}
+
+export { manageAuditChain };
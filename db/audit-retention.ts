@@ -0,0 +1,31 @@
+import 'dotenv/config';
+import { AuditRetentionService } from '@/lib/audit';
+
+/**
+ * Archive and prune audit log entries older than the audit_log_retention_policy setting allows
+ * (see lib/audit/retention.ts). Run it daily from a scheduler.
+ */
+async function applyAuditRetention() {
+    const { cutoff, archivePath, deleted } = await AuditRetentionService.run();
+
+    if (!cutoff) {
+        console.log('Audit log retention is disabled');
+        return;
+    }
+
+    console.log(deleted > 0
+        ? `✅ Pruned ${deleted} audit log entr${deleted === 1 ? 'y' : 'ies'} before ${cutoff.toISOString()}${archivePath ? `, archived to ${archivePath}` : ''}`
+        : `No audit log entries before ${cutoff.toISOString()}`);
+}
+
+// Run the job if called directly
+if (require.main === module) {
+    applyAuditRetention()
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        });
+}
+
+export { applyAuditRetention };
@@ -0,0 +1,86 @@
+import 'dotenv/config';
+import { SigningKeyService, SIGNING_ALGORITHMS, SigningAlgorithm, SigningKeyInfo } from '@/lib/auth/signing-keys';
+
+const USAGE = `Usage: npm run auth:keys -- <command>
+
+Commands:
+  list                          Show all signing keys
+  generate [--alg ES256|RS256]  Create a staged key, published in the JWKS but not yet signing
+           [--activate]         ...or start signing with it right away
+  activate <kid>                Start signing with a key; the current key is retired
+  retire <kid> [--now]          Stop trusting a key once its tokens expire, or immediately with --now
+
+Rotation: generate a key, wait for verifiers to refresh the JWKS (5 minutes), then activate it.`;
+
+function formatKey(key: SigningKeyInfo): string {
+    const dates = [
+        `created ${key.createdAt.toISOString()}`,
+        key.activatedAt && `activated ${key.activatedAt.toISOString()}`,
+        key.retiredAt && `retired ${key.retiredAt.toISOString()}`,
+        key.expiresAt && `trusted until ${key.expiresAt.toISOString()}`,
+    ].filter(Boolean).join(', ');
+
+    return `${key.kid}  ${key.algorithm}  ${key.status.padEnd(7)}  ${dates}`;
+}
+
+function getOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index === -1 ? undefined : args[index + 1];
+}
+
+/**
+ * Generate, activate and retire the keys that sign JWTs (see lib/auth/signing-keys.ts)
+ */
+async function manageJwtKeys(args: string[]) {
+    const [command, kid] = args;
+
+    switch (command) {
+        case 'list': {
+            const keys = await SigningKeyService.listKeys();
+            console.log(keys.length > 0 ? keys.map(formatKey).join('\n') : 'No signing keys');
+            break;
+        }
+
+        case 'generate': {
+            const algorithm = (getOption(args, '--alg') || 'ES256') as SigningAlgorithm;
+            if (!SIGNING_ALGORITHMS.includes(algorithm)) {
+                throw new Error(`Unsupported algorithm: ${algorithm}`);
+            }
+
+            const key = await SigningKeyService.generateKey(algorithm, { activate: args.includes('--activate') });
+            console.log(`✅ Generated ${formatKey(key)}`);
+            break;
+        }
+
+        case 'activate': {
+            if (!kid) throw new Error(USAGE);
+
+            const key = await SigningKeyService.activateKey(kid);
+            console.log(`✅ Activated ${formatKey(key)}`);
+            break;
+        }
+
+        case 'retire': {
+            if (!kid) throw new Error(USAGE);
+
+            const key = await SigningKeyService.retireKey(kid, { immediately: args.includes('--now') });
+            console.log(`✅ Retired ${formatKey(key)}`);
+            break;
+        }
+
+        default:
+            throw new Error(USAGE);
+    }
+}
+
+// Run the command if called directly
+if (require.main === module) {
+    manageJwtKeys(process.argv.slice(2))
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        });
+}
+
+export { manageJwtKeys };
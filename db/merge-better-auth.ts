@@ -0,0 +1,153 @@
+import 'dotenv/config';
+import * as crypto from 'crypto';
+import { sql, eq } from 'drizzle-orm';
+import { db } from './index';
+import { users, userIdentities } from './schema';
+import { PasswordService, LEGACY_SCRYPT_PREFIX } from '@/lib/auth/password';
+import { AuditChainService } from '@/lib/audit/chain';
+
+interface LegacyUser extends Record<string, unknown> {
+    id: string;
+    name: string;
+    email: string;
+    email_verified: boolean;
+    image: string | null;
+    created_at: Date;
+    password: string | null;
+}
+
+interface LegacyAccount extends Record<string, unknown> {
+    user_id: string;
+    provider_id: string;
+    account_id: string;
+}
+
+/**
+ * Merge accounts from the retired better-auth tables ("user", "account") into "users".
+ *
+ * - Users are matched by email. Existing rows keep their password; new rows keep the
+ *   better-auth scrypt hash, which PasswordService still verifies.
+ * - Social accounts become user_identities rows keyed by provider and account id.
+ * - better-auth sessions are not carried over, so those users sign in once more.
+ *
+ * Safe to re-run. Pass --drop to remove the legacy tables afterwards.
+ */
+async function mergeBetterAuth() {
+    console.log('🔀 Merging better-auth accounts into users...');
+
+    const { rows: [legacyTable] } = await db.execute<{ name: string | null }>(
+        sql`select to_regclass('public."user"')::text as name`
+    );
+
+    if (!legacyTable?.name) {
+        console.log('No better-auth tables found, nothing to merge.');
+        return;
+    }
+
+    const stats = { created: 0, linked: 0, identities: 0 };
+
+    await db.transaction(async (tx) => {
+        const { rows: legacyUsers } = await tx.execute<LegacyUser>(sql`
+            select u.id, u.name, u.email, u.email_verified, u.image, u.created_at, a.password
+            from "user" u
+            left join "account" a on a.user_id = u.id and a.provider_id = 'credential'
+        `);
+
+        const { rows: legacyAccounts } = await tx.execute<LegacyAccount>(sql`
+            select user_id, provider_id, account_id
+            from "account"
+            where provider_id <> 'credential'
+        `);
+
+        for (const legacyUser of legacyUsers) {
+            const email = legacyUser.email.toLowerCase();
+
+            const [existing] = await tx
+                .select({ id: users.id, emailVerified: users.emailVerified })
+                .from(users)
+                .where(eq(users.email, email))
+                .limit(1);
+
+            let userId: string;
+
+            if (existing) {
+                userId = existing.id;
+
+                if (legacyUser.email_verified && !existing.emailVerified) {
+                    await tx
+                        .update(users)
+                        .set({ emailVerified: true, updatedAt: new Date() })
+                        .where(eq(users.id, userId));
+                }
+
+                stats.linked++;
+            } else {
+                // Accounts without a credential only signed in socially, so give them an unusable password
+                const passwordHash = legacyUser.password
+                    ? `${LEGACY_SCRYPT_PREFIX}${legacyUser.password}`
+                    : await PasswordService.hashPassword(crypto.randomBytes(32).toString('hex'));
+
+                const [newUser] = await tx
+                    .insert(users)
+                    .values({
+                        email,
+                        name: legacyUser.name,
+                        passwordHash,
+                        avatarUrl: legacyUser.image,
+                        emailVerified: legacyUser.email_verified,
+                        createdAt: legacyUser.created_at,
+                    })
+                    .returning({ id: users.id });
+
+                userId = newUser.id;
+                stats.created++;
+            }
+
+            for (const account of legacyAccounts.filter((a) => a.user_id === legacyUser.id)) {
+                const inserted = await tx
+                    .insert(userIdentities)
+                    .values({
+                        userId,
+                        issuer: account.provider_id,
+                        subject: account.account_id,
+                        email,
+                    })
+                    .onConflictDoNothing()
+                    .returning({ id: userIdentities.id });
+
+                stats.identities += inserted.length;
+            }
+
+            await AuditChainService.append({
+                actorId: userId,
+                action: 'USER_MERGED_FROM_BETTER_AUTH',
+                targetResource: 'user',
+                targetId: userId,
+                metadata: {
+                    legacyUserId: legacyUser.id,
+                    created: !existing,
+                },
+                success: true,
+            }, tx);
+        }
+
+        if (process.argv.includes('--drop')) {
+            console.log('Dropping better-auth tables...');
+            await tx.execute(sql`drop table if exists "verification", "session", "account", "user"`);
+        }
+    });
+
+    console.log(`✅ Merge complete: ${stats.created} created, ${stats.linked} linked to existing users, ${stats.identities} social identities`);
+}
+
+// Run the merge if called directly
+if (require.main === module) {
+    mergeBetterAuth()
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error(error);
+            process.exit(1);
+        });
+}
+
+export { mergeBetterAuth };
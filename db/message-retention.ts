@@ -0,0 +1,31 @@
+import 'dotenv/config';
+import { MessageRevisionService } from '@/lib/messaging';
+
+/**
+ * Prune message revisions superseded longer ago than the message_retention_days setting allows
+ * (see lib/messaging/revisions.ts). Run it daily from a scheduler.
+ */
+async function applyMessageRetention() {
+    const { cutoff, deleted } = await MessageRevisionService.pruneExpired();
+
+    if (!cutoff) {
+        console.log('Message retention is disabled');
+        return;
+    }
+
+    console.log(deleted > 0
+        ? `✅ Pruned ${deleted} message revision${deleted === 1 ? '' : 's'} superseded before ${cutoff.toISOString()}`
+        : `No message revisions superseded before ${cutoff.toISOString()}`);
+}
+
+// Run the job if called directly
+if (require.main === module) {
+    applyMessageRetention()
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        });
+}
+
+export { applyMessageRetention };
@@ -0,0 +1,23 @@
+import 'dotenv/config';
+import { AccountService } from '@/lib/auth/account';
+
+/**
+ * Permanently delete accounts whose deletion grace period has ended (see lib/auth/account.ts).
+ * Run it daily from a scheduler.
+ */
+async function purgeAccounts() {
+    const count = await AccountService.purgeScheduledDeletions();
+    console.log(count > 0 ? `✅ Deleted ${count} account${count === 1 ? '' : 's'}` : 'No accounts due for deletion');
+}
+
+// Run the purge if called directly
+if (require.main === module) {
+    purgeAccounts()
+        .then(() => process.exit(0))
+        .catch((error) => {
+            console.error(error instanceof Error ? error.message : error);
+            process.exit(1);
+        });
+}
+
+export { purgeAccounts };
@@ -4,6 +4,7 @@ import {
     timestamp,
     boolean,
     integer,
+    bigint,
     jsonb,
     uuid,
     pgEnum,
@@ -27,11 +28,16 @@ export const users = pgTable("users", {
     avatarUrl: text("avatar_url"),
     lastLoginAt: timestamp("last_login_at"),
     emailVerified: boolean("email_verified").notNull().default(false),
-    emailVerificationToken: text("email_verification_token"),
-    passwordResetToken: text("password_reset_token"),
+    emailVerificationToken: text("email_verification_token"), // SHA-256 of the emailed token
+    emailVerificationExpires: timestamp("email_verification_expires"),
+    emailVerificationSentAt: timestamp("email_verification_sent_at"),
+    passwordResetToken: text("password_reset_token"), // SHA-256 of the emailed token
     passwordResetExpires: timestamp("password_reset_expires"),
+    passwordChangedAt: timestamp("password_changed_at").notNull().defaultNow(), // Drives password expiry
     failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
     lockedUntil: timestamp("locked_until"),
+    deletionRequestedAt: timestamp("deletion_requested_at"),
+    deletionScheduledFor: timestamp("deletion_scheduled_for"), // Purged after this (see lib/auth/account.ts)
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
@@ -58,6 +64,8 @@ export const refreshTokens = pgTable("refresh_tokens", {
     id: uuid("id").primaryKey().defaultRandom(),
     userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
     token: text("token").notNull().unique(),
+    familyId: uuid("family_id").notNull().defaultRandom(), // Shared by every token in one rotation chain
+    replacedById: uuid("replaced_by_id"), // Token issued when this one was rotated
     deviceFingerprint: text("device_fingerprint"),
     expiresAt: timestamp("expires_at").notNull(),
     isActive: boolean("is_active").notNull().default(true),
@@ -68,13 +76,115 @@ export const refreshTokens = pgTable("refresh_tokens", {
 }, (table) => ({
     userIdIdx: index("refresh_tokens_user_id_idx").on(table.userId),
     tokenIdx: index("refresh_tokens_token_idx").on(table.token),
+    familyIdIdx: index("refresh_tokens_family_id_idx").on(table.familyId),
     expiresAtIdx: index("refresh_tokens_expires_at_idx").on(table.expiresAt),
 }));
 
-// Audit logging for security
+// Long-lived API tokens for scripts and integrations
+export const personalAccessTokens = pgTable("personal_access_tokens", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the full token
+    tokenPrefix: text("token_prefix").notNull(), // First characters, shown so users can tell tokens apart
+    scopes: jsonb("scopes").$type<string[]>().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    lastUsedAt: timestamp("last_used_at"),
+    lastUsedIp: text("last_used_ip"),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+    userIdIdx: index("personal_access_tokens_user_id_idx").on(table.userId),
+}));
+
+// Previous password hashes, checked so users cannot cycle back to a recent password
+export const passwordHistory = pgTable("password_history", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    passwordHash: text("password_hash").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+    userIdIdx: index("password_history_user_id_idx").on(table.userId),
+}));
+
+// Asymmetric keys for signing JWTs (see lib/auth/signing-keys.ts)
+export const jwtSigningKeys = pgTable("jwt_signing_keys", {
+    kid: text("kid").primaryKey(),
+    algorithm: text("algorithm").notNull(), // 'ES256' or 'RS256'
+    status: text("status").notNull().default("staged"), // 'staged' (published only), 'active' (signing), 'retired'
+    publicKey: jsonb("public_key").$type<Record<string, unknown>>().notNull(), // JWK
+    privateKey: text("private_key").notNull(), // Encrypted PKCS#8 PEM (iv:authTag:ciphertext)
+    activatedAt: timestamp("activated_at"),
+    retiredAt: timestamp("retired_at"),
+    expiresAt: timestamp("expires_at"), // Retired keys stop verifying once tokens they signed have expired
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+    statusIdx: index("jwt_signing_keys_status_idx").on(table.status),
+}));
+
+// Admins acting as another user; the access token names the session so it can be ended early
+export const impersonationSessions = pgTable("impersonation_sessions", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    impersonatorId: uuid("impersonator_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    targetUserId: uuid("target_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    reason: text("reason").notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    endedAt: timestamp("ended_at"),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+    impersonatorIdIdx: index("impersonation_sessions_impersonator_id_idx").on(table.impersonatorId),
+    targetUserIdIdx: index("impersonation_sessions_target_user_id_idx").on(table.targetUserId),
+}));
+
+// Emailed one-time codes that confirm a sign-in flagged as suspicious (see lib/auth/login-risk.ts)
+export const loginChallenges = pgTable("login_challenges", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    codeHash: text("code_hash").notNull(), // SHA-256 of the emailed code
+    signals: jsonb("signals").$type<string[]>().notNull(), // Risk signals that caused the challenge
+    attempts: integer("attempts").notNull().default(0),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+    userIdIdx: index("login_challenges_user_id_idx").on(table.userId),
+}));
+
+// Passwordless sign-in links (see lib/auth/magic-link.ts)
+export const magicLinkTokens = pgTable("magic_link_tokens", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the emailed token
+    browserBindingHash: text("browser_binding_hash").notNull(), // SHA-256 of the cookie set on the requesting browser
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+    userIdIdx: index("magic_link_tokens_user_id_idx").on(table.userId),
+}));
+
+// Rate limiter state shared between instances (see lib/rate-limit)
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+    key: text("key").primaryKey(), // Policy name, algorithm and identifier
+    state: jsonb("state").$type<Record<string, number>>(),
+    expiresAt: timestamp("expires_at").notNull(),
+}, (table) => ({
+    expiresAtIdx: index("rate_limit_buckets_expires_at_idx").on(table.expiresAt),
+}));
+
+// Audit logging for security. Rows are hash-chained (see lib/audit/chain.ts) and never updated, so the
+// user columns carry no foreign keys that would rewrite them when an account is deleted.
 export const auditLogs = pgTable("audit_logs", {
     id: uuid("id").primaryKey().defaultRandom(),
-    actorId: uuid("actor_id").references(() => users.id, { onDelete: "set null" }),
+    sequence: bigint("sequence", { mode: "number" }).unique(), // Position in the hash chain; null for rows written before chaining
+    actorId: uuid("actor_id"),
+    impersonatorId: uuid("impersonator_id"), // Admin acting as actorId
     action: text("action").notNull(), // 'LOGIN', 'LOGOUT', 'PASSWORD_RESET', 'USER_CREATED', etc.
     targetId: text("target_id"), // ID of affected resource
     targetResource: text("target_resource"), // 'user', 'conversation', 'project', etc.
@@ -83,70 +193,97 @@ export const auditLogs = pgTable("audit_logs", {
     userAgent: text("user_agent"),
     success: boolean("success").notNull().default(true),
     errorMessage: text("error_message"),
+    previousHash: text("previous_hash"), // Hash of the row before this one in the chain
+    hash: text("hash"), // SHA-256 over this row's content and previousHash
     createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
     actorIdIdx: index("audit_logs_actor_id_idx").on(table.actorId),
     actionIdx: index("audit_logs_action_idx").on(table.action),
     createdAtIdx: index("audit_logs_created_at_idx").on(table.createdAt),
+    targetIdx: index("audit_logs_target_idx").on(table.targetResource, table.targetId),
+    ipAddressIdx: index("audit_logs_ip_address_idx").on(table.ipAddress),
 }));
 
-// Keep existing tables for compatibility with better-auth
-export const user = pgTable("user", {
-    id: text("id").primaryKey(),
-    name: text("name").notNull(),
-    email: text("email").notNull().unique(),
-    emailVerified: boolean("email_verified")
-        .$defaultFn(() => false)
-        .notNull(),
-    image: text("image"),
-    createdAt: timestamp("created_at")
-        .$defaultFn(() => /* @__PURE__ */ new Date())
-        .notNull(),
-    updatedAt: timestamp("updated_at")
-        .$defaultFn(() => /* @__PURE__ */ new Date())
-        .notNull(),
-});
-
-export const session = pgTable("session", {
-    id: text("id").primaryKey(),
+// TOTP second factor (one enrolled authenticator per user)
+export const mfaTotpFactors = pgTable("mfa_totp_factors", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+    secret: text("secret").notNull(), // AES-256-GCM encrypted base32 secret
+    isEnabled: boolean("is_enabled").notNull().default(false),
+    lastUsedStep: integer("last_used_step"), // Prevents replaying an accepted code
+    enabledAt: timestamp("enabled_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+    userIdIdx: index("mfa_totp_factors_user_id_idx").on(table.userId),
+}));
+
+// One-time recovery codes for users with MFA enabled
+export const mfaRecoveryCodes = pgTable("mfa_recovery_codes", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    codeHash: text("code_hash").notNull(), // SHA-256 of the normalized code
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+    userIdIdx: index("mfa_recovery_codes_user_id_idx").on(table.userId),
+    codeHashIdx: index("mfa_recovery_codes_code_hash_idx").on(table.codeHash),
+}));
+
+// WebAuthn passkeys
+export const webauthnCredentials = pgTable("webauthn_credentials", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    credentialId: text("credential_id").notNull().unique(), // Base64URL credential ID
+    publicKey: text("public_key").notNull(), // Base64URL COSE public key
+    counter: integer("counter").notNull().default(0),
+    transports: jsonb("transports"), // Array of 'usb', 'nfc', 'ble', 'internal', 'hybrid'
+    deviceType: text("device_type").notNull(), // 'singleDevice', 'multiDevice'
+    backedUp: boolean("backed_up").notNull().default(false),
+    aaguid: text("aaguid"),
+    name: text("name").notNull().default("Passkey"),
+    lastUsedAt: timestamp("last_used_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+    userIdIdx: index("webauthn_credentials_user_id_idx").on(table.userId),
+    credentialIdIdx: index("webauthn_credentials_credential_id_idx").on(table.credentialId),
+}));
+
+// Single-use WebAuthn ceremony challenges
+export const webauthnChallenges = pgTable("webauthn_challenges", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }), // Null for discoverable sign-in
+    challenge: text("challenge").notNull(),
+    type: text("type").notNull(), // 'REGISTRATION', 'AUTHENTICATION'
     expiresAt: timestamp("expires_at").notNull(),
-    token: text("token").notNull().unique(),
-    createdAt: timestamp("created_at").notNull(),
-    updatedAt: timestamp("updated_at").notNull(),
-    ipAddress: text("ip_address"),
-    userAgent: text("user_agent"),
-    userId: text("user_id")
-        .notNull()
-        .references(() => user.id, { onDelete: "cascade" }),
-});
-
-export const account = pgTable("account", {
-    id: text("id").primaryKey(),
-    accountId: text("account_id").notNull(),
-    providerId: text("provider_id").notNull(),
-    userId: text("user_id")
-        .notNull()
-        .references(() => user.id, { onDelete: "cascade" }),
-    accessToken: text("access_token"),
-    refreshToken: text("refresh_token"),
-    idToken: text("id_token"),
-    accessTokenExpiresAt: timestamp("access_token_expires_at"),
-    refreshTokenExpiresAt: timestamp("refresh_token_expires_at"),
-    scope: text("scope"),
-    password: text("password"),
-    createdAt: timestamp("created_at").notNull(),
-    updatedAt: timestamp("updated_at").notNull(),
-});
-
-export const verification = pgTable("verification", {
-    id: text("id").primaryKey(),
-    identifier: text("identifier").notNull(),
-    value: text("value").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+    expiresAtIdx: index("webauthn_challenges_expires_at_idx").on(table.expiresAt),
+}));
+
+// Links users to their accounts at an external OpenID Connect provider
+export const userIdentities = pgTable("user_identities", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    issuer: text("issuer").notNull(),
+    subject: text("subject").notNull(), // The IdP's stable "sub" claim
+    email: text("email"),
+    lastLoginAt: timestamp("last_login_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+    userIdIdx: index("user_identities_user_id_idx").on(table.userId),
+    issuerSubjectUnique: unique("user_identities_issuer_subject_unique").on(table.issuer, table.subject),
+}));
+
+// Pending OIDC authorization requests, consumed by the callback
+export const oidcAuthRequests = pgTable("oidc_auth_requests", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    state: text("state").notNull().unique(),
+    nonce: text("nonce").notNull(),
+    codeVerifier: text("code_verifier").notNull(),
+    redirectTo: text("redirect_to").notNull().default("/dashboard"),
     expiresAt: timestamp("expires_at").notNull(),
-    createdAt: timestamp("created_at").$defaultFn(
-        () => /* @__PURE__ */ new Date(),
-    ),
-    updatedAt: timestamp("updated_at").$defaultFn(
-        () => /* @__PURE__ */ new Date(),
-    ),
-});
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+    expiresAtIdx: index("oidc_auth_requests_expires_at_idx").on(table.expiresAt),
+}));
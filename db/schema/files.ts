@@ -40,7 +40,7 @@ export const files = pgTable("files", {
     mimeTypeIdx: index("files_mime_type_idx").on(table.mimeType),
     storageKeyIdx: index("files_storage_key_idx").on(table.storageKey),
     hashIdx: index("files_hash_idx").on(table.hash),
-    filenameIdx: index("files_filename_idx").using("gin", table.filename.generate("gin_trgm_ops")),
+    filenameIdx: index("files_filename_idx").using("gin", table.filename.op("gin_trgm_ops")),
     tagsIdx: index("files_tags_idx").using("gin", table.tags),
     createdAtIdx: index("files_created_at_idx").on(table.createdAt),
 }));
@@ -13,6 +13,15 @@ import {
     fcmTokens,
     refreshTokens,
     auditLogs,
+    mfaTotpFactors,
+    mfaRecoveryCodes,
+    webauthnCredentials,
+    userIdentities,
+    personalAccessTokens,
+    passwordHistory,
+    impersonationSessions,
+    loginChallenges,
+    magicLinkTokens,
 } from './auth';
 import {
     divisions,
@@ -23,6 +32,7 @@ import {
     conversations,
     conversationMembers,
     messages,
+    messageRevisions,
     messageReactions,
     typingIndicators,
     readReceipts,
@@ -53,6 +63,15 @@ export const usersRelations = relations(users, ({ many }) => ({
     fcmTokens: many(fcmTokens),
     refreshTokens: many(refreshTokens),
     auditLogsAsActor: many(auditLogs),
+    mfaRecoveryCodes: many(mfaRecoveryCodes),
+    webauthnCredentials: many(webauthnCredentials),
+    identities: many(userIdentities),
+    personalAccessTokens: many(personalAccessTokens),
+    passwordHistory: many(passwordHistory),
+    impersonationsStarted: many(impersonationSessions, { relationName: 'impersonator' }),
+    impersonationsReceived: many(impersonationSessions, { relationName: 'impersonationTarget' }),
+    loginChallenges: many(loginChallenges),
+    magicLinkTokens: many(magicLinkTokens),
     divisionMemberships: many(divisionMembers),
     conversationMemberships: many(conversationMembers),
     sentMessages: many(messages),
@@ -91,6 +110,75 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
     }),
 }));
 
+export const mfaTotpFactorsRelations = relations(mfaTotpFactors, ({ one }) => ({
+    user: one(users, {
+        fields: [mfaTotpFactors.userId],
+        references: [users.id],
+    }),
+}));
+
+export const mfaRecoveryCodesRelations = relations(mfaRecoveryCodes, ({ one }) => ({
+    user: one(users, {
+        fields: [mfaRecoveryCodes.userId],
+        references: [users.id],
+    }),
+}));
+
+export const webauthnCredentialsRelations = relations(webauthnCredentials, ({ one }) => ({
+    user: one(users, {
+        fields: [webauthnCredentials.userId],
+        references: [users.id],
+    }),
+}));
+
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+    user: one(users, {
+        fields: [userIdentities.userId],
+        references: [users.id],
+    }),
+}));
+
+export const personalAccessTokensRelations = relations(personalAccessTokens, ({ one }) => ({
+    user: one(users, {
+        fields: [personalAccessTokens.userId],
+        references: [users.id],
+    }),
+}));
+
+export const passwordHistoryRelations = relations(passwordHistory, ({ one }) => ({
+    user: one(users, {
+        fields: [passwordHistory.userId],
+        references: [users.id],
+    }),
+}));
+
+export const impersonationSessionsRelations = relations(impersonationSessions, ({ one }) => ({
+    impersonator: one(users, {
+        fields: [impersonationSessions.impersonatorId],
+        references: [users.id],
+        relationName: 'impersonator',
+    }),
+    targetUser: one(users, {
+        fields: [impersonationSessions.targetUserId],
+        references: [users.id],
+        relationName: 'impersonationTarget',
+    }),
+}));
+
+export const loginChallengesRelations = relations(loginChallenges, ({ one }) => ({
+    user: one(users, {
+        fields: [loginChallenges.userId],
+        references: [users.id],
+    }),
+}));
+
+export const magicLinkTokensRelations = relations(magicLinkTokens, ({ one }) => ({
+    user: one(users, {
+        fields: [magicLinkTokens.userId],
+        references: [users.id],
+    }),
+}));
+
 // Relations for organization tables
 export const divisionsRelations = relations(divisions, ({ many, one }) => ({
     parent: one(divisions, {
@@ -122,6 +210,10 @@ export const conversationsRelations = relations(conversations, ({ one, many }) =
         fields: [conversations.lastMessageId],
         references: [messages.id],
     }),
+    project: one(projects, {
+        fields: [conversations.projectId],
+        references: [projects.id],
+    }),
     members: many(conversationMembers),
     messages: many(messages),
 }));
@@ -155,10 +247,22 @@ export const messagesRelations = relations(messages, ({ one, many }) => ({
         references: [messages.id],
     }),
     replies: many(messages),
+    revisions: many(messageRevisions),
     reactions: many(messageReactions),
     readReceipts: many(readReceipts),
 }));
 
+export const messageRevisionsRelations = relations(messageRevisions, ({ one }) => ({
+    message: one(messages, {
+        fields: [messageRevisions.messageId],
+        references: [messages.id],
+    }),
+    editor: one(users, {
+        fields: [messageRevisions.editedBy],
+        references: [users.id],
+    }),
+}));
+
 export const messageReactionsRelations = relations(messageReactions, ({ one }) => ({
     message: one(messages, {
         fields: [messageReactions.messageId],
@@ -198,6 +302,7 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
     tasks: many(tasks),
     activities: many(projectActivity),
     calendarEvents: many(calendarEvents),
+    conversations: many(conversations),
 }));
 
 export const projectMembersRelations = relations(projectMembers, ({ one }) => ({
@@ -7,9 +7,12 @@ import {
     jsonb,
     boolean,
     index,
-    integer
+    uniqueIndex,
+    integer,
+    AnyPgColumn
 } from "drizzle-orm/pg-core";
 import { users } from "./auth";
+import { projects } from "./projects";
 
 // Enums
 export const conversationTypeEnum = pgEnum("conversation_type", ["DM", "GROUP", "PROJECT"]);
@@ -26,13 +29,16 @@ export const conversations = pgTable("conversations", {
     isArchived: boolean("is_archived").notNull().default(false),
     lastMessageId: uuid("last_message_id"),
     lastMessageAt: timestamp("last_message_at"),
-    createdBy: uuid("created_by").notNull().references(() => users.id, { onDelete: "set null" }),
+    projectId: uuid("project_id").references(() => projects.id, { onDelete: "cascade" }), // PROJECT conversations
+    directKey: text("direct_key").unique(), // DM only: both user IDs sorted, so a pair has one DM
+    createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
     typeIdx: index("conversations_type_idx").on(table.type),
     createdByIdx: index("conversations_created_by_idx").on(table.createdBy),
     lastMessageAtIdx: index("conversations_last_message_at_idx").on(table.lastMessageAt),
+    projectIdIdx: index("conversations_project_id_idx").on(table.projectId),
 }));
 
 export const conversationMembers = pgTable("conversation_members", {
@@ -49,15 +55,15 @@ export const conversationMembers = pgTable("conversation_members", {
 }, (table) => ({
     conversationIdIdx: index("conversation_members_conversation_id_idx").on(table.conversationId),
     userIdIdx: index("conversation_members_user_id_idx").on(table.userId),
-    uniqueMembership: index("conversation_members_unique_idx").on(table.conversationId, table.userId),
+    uniqueMembership: uniqueIndex("conversation_members_unique_idx").on(table.conversationId, table.userId),
 }));
 
 // Messages
 export const messages = pgTable("messages", {
     id: uuid("id").primaryKey().defaultRandom(),
     conversationId: uuid("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
-    senderId: uuid("sender_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-    parentMessageId: uuid("parent_message_id").references(() => messages.id, { onDelete: "cascade" }), // For threads
+    senderId: uuid("sender_id").references(() => users.id, { onDelete: "set null" }), // Null once the sender's account is deleted
+    parentMessageId: uuid("parent_message_id").references((): AnyPgColumn => messages.id, { onDelete: "cascade" }), // For threads
     bodyRich: jsonb("body_rich").notNull(), // TipTap JSON format
     bodyPlain: text("body_plain").notNull(), // Plain text for search
     bodyHtml: text("body_html"), // Rendered HTML for preview
@@ -70,6 +76,7 @@ export const messages = pgTable("messages", {
     replyCount: integer("reply_count").notNull().default(0),
     reactionCount: integer("reaction_count").notNull().default(0),
     attachmentCount: integer("attachment_count").notNull().default(0),
+    revisionCount: integer("revision_count").notNull().default(0), // Revisions ever recorded, pruned ones included
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
     editedAt: timestamp("edited_at"),
@@ -82,6 +89,22 @@ export const messages = pgTable("messages", {
     bodyPlainSearchIdx: index("messages_body_plain_search_idx").using("gin", table.bodyPlain),
 }));
 
+// Message Revisions
+// Every superseded body of an edited message, kept for compliance until the message retention period passes
+export const messageRevisions = pgTable("message_revisions", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    messageId: uuid("message_id").notNull().references(() => messages.id, { onDelete: "cascade" }),
+    revision: integer("revision").notNull(), // 1 is the body the message was sent with
+    bodyRich: jsonb("body_rich").notNull(), // TipTap JSON format
+    bodyPlain: text("body_plain").notNull(),
+    editedBy: uuid("edited_by").references(() => users.id, { onDelete: "set null" }), // Who wrote this revision
+    editedAt: timestamp("edited_at").notNull(), // When this revision was written
+    createdAt: timestamp("created_at").notNull().defaultNow(), // When a later edit replaced it
+}, (table) => ({
+    messageRevisionIdx: uniqueIndex("message_revisions_message_revision_idx").on(table.messageId, table.revision),
+    createdAtIdx: index("message_revisions_created_at_idx").on(table.createdAt),
+}));
+
 // Message Reactions
 export const messageReactions = pgTable("message_reactions", {
     id: uuid("id").primaryKey().defaultRandom(),
@@ -4,6 +4,7 @@ import {
     timestamp,
     uuid,
     pgEnum,
+    boolean,
     index
 } from "drizzle-orm/pg-core";
 import { users } from "./auth";
@@ -30,7 +30,7 @@ export const projects = pgTable("projects", {
     endDate: timestamp("end_date"),
     tags: jsonb("tags"), // Array of tag strings
     metadata: jsonb("metadata"), // Additional project metadata
-    createdBy: uuid("created_by").notNull().references(() => users.id, { onDelete: "set null" }),
+    createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
     completedAt: timestamp("completed_at"),
@@ -67,7 +67,7 @@ export const tasks = pgTable("tasks", {
     status: taskStatusEnum("status").notNull().default("TODO"),
     priority: taskPriorityEnum("priority").notNull().default("MEDIUM"),
     assigneeId: uuid("assignee_id").references(() => users.id, { onDelete: "set null" }),
-    reporterId: uuid("reporter_id").notNull().references(() => users.id, { onDelete: "set null" }),
+    reporterId: uuid("reporter_id").references(() => users.id, { onDelete: "set null" }),
     estimatedHours: integer("estimated_hours"),
     actualHours: integer("actual_hours"),
     dueDate: timestamp("due_date"),
@@ -118,7 +118,7 @@ export const taskComments = pgTable("task_comments", {
 export const projectActivity = pgTable("project_activity", {
     id: uuid("id").primaryKey().defaultRandom(),
     projectId: uuid("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
-    userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "set null" }),
+    userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
     action: text("action").notNull(), // 'TASK_CREATED', 'TASK_COMPLETED', 'MEMBER_ADDED', etc.
     details: jsonb("details"), // Action-specific details
     targetId: text("target_id"), // ID of affected resource (task, user, etc.)
@@ -13,6 +13,7 @@ import {
     messages,
     notifications,
 } from './schema';
+import { PasswordService } from '@/lib/auth/password';
 
 async function seed() {
     console.log('🌱 Starting database seeding...');
@@ -22,7 +23,7 @@ async function seed() {
         console.log('Creating demo users...');
         const adminUser = await db.insert(users).values({
             email: 'admin@epop.com',
-            passwordHash: await hashPassword('Admin123!@#'), // In production, use proper hashing
+            passwordHash: await PasswordService.hashPassword('Admin123!@#'),
             name: 'System Administrator',
             role: 'ADMIN',
             status: 'ACTIVE',
@@ -31,7 +32,7 @@ async function seed() {
 
         const demoUser = await db.insert(users).values({
             email: 'john.doe@epop.com',
-            passwordHash: await hashPassword('User123!@#'), // In production, use proper hashing
+            passwordHash: await PasswordService.hashPassword('User123!@#'),
             name: 'John Doe',
             role: 'USER',
             status: 'ACTIVE',
@@ -40,7 +41,7 @@ async function seed() {
 
         const managerUser = await db.insert(users).values({
             email: 'jane.smith@epop.com',
-            passwordHash: await hashPassword('Manager123!@#'), // In production, use proper hashing
+            passwordHash: await PasswordService.hashPassword('Manager123!@#'),
             name: 'Jane Smith',
             role: 'USER',
             status: 'ACTIVE',
@@ -81,12 +82,20 @@ async function seed() {
         await db.insert(settings).values([
             { key: 'max_file_size_user', value: '104857600', description: 'Max file size for regular users (100MB)', category: 'storage' },
             { key: 'max_file_size_admin', value: '524288000', description: 'Max file size for admins (500MB)', category: 'storage' },
-            { key: 'message_retention_days', value: '365', description: 'Message retention period in days', category: 'security' },
+            { key: 'message_retention_days', value: '365', description: 'Message retention period in days; superseded message revisions are pruned after it (0 keeps everything)', category: 'security' },
             { key: 'file_retention_days', value: '730', description: 'File retention period in days', category: 'storage' },
             { key: 'max_login_attempts', value: '5', description: 'Maximum failed login attempts before lockout', category: 'security' },
             { key: 'lockout_duration_minutes', value: '30', description: 'Account lockout duration in minutes', category: 'security' },
             { key: 'jwt_access_expiry_minutes', value: '15', description: 'JWT access token expiry in minutes', category: 'security' },
             { key: 'jwt_refresh_expiry_days', value: '7', description: 'JWT refresh token expiry in days', category: 'security' },
+            { key: 'email_verification_policy', value: JSON.stringify({ enforce: false, tokenTtlHours: 24, resendCooldownSeconds: 60 }), description: 'Email verification enforcement for routes that opt in', category: 'security' },
+            { key: 'oidc_provider', value: JSON.stringify({ enabled: false, displayName: 'SSO', issuer: '', clientId: '', clientSecret: '', scopes: ['openid', 'email', 'profile'], groupsClaim: 'groups', autoProvision: true, linkByEmail: true, adminGroups: [], divisionMappings: [] }), description: 'OpenID Connect single sign-on provider', category: 'security' },
+            { key: 'password_policy', value: JSON.stringify({ minLength: 8, historyCount: 5, maxAgeDays: 0, checkBreached: true }), description: 'Password length, reuse, expiry and breached password screening', category: 'security' },
+            { key: 'magic_link_policy', value: JSON.stringify({ enabled: false, tokenTtlMinutes: 15 }), description: 'Passwordless sign-in links sent by email', category: 'security' },
+            { key: 'login_risk_policy', value: JSON.stringify({ enabled: true, actions: { new_device: 'notify', ip_range_change: 'notify', impossible_travel: 'challenge', failure_burst: 'challenge' }, knownDeviceDays: 90, maxTravelSpeedKmh: 1000, failureBurstWindowMinutes: 15, failureBurstAccounts: 5 }), description: 'Suspicious sign-in detection: allow, notify, challenge or block per risk signal', category: 'security' },
+            { key: 'account_deletion_policy', value: JSON.stringify({ gracePeriodDays: 30 }), description: 'Days before a self-deleted account is purged; signing in during that time allows cancelling', category: 'security' },
+            { key: 'audit_log_retention_policy', value: JSON.stringify({ retentionDays: 365, archive: true }), description: 'Audit log entries older than retentionDays are archived (when archive is true) and pruned; 0 keeps everything', category: 'security' },
+            { key: 'rate_limit_policies', value: JSON.stringify({}), description: 'Per-route rate limit overrides keyed by policy name, e.g. {"auth.login": {"limit": 10}}', category: 'security' },
         ]);
 
         // Create demo projects
@@ -201,7 +210,7 @@ async function seed() {
             {
                 conversationId: generalConversation[0].id,
                 senderId: adminUser[0].id,
-                bodyRich: { type: 'doc', content: [{ type: 'paragraph', content: [{ text: 'Welcome to the EPOP platform! 🚀 This is our internal communication and project management system.' }] }],
+                bodyRich: { type: 'doc', content: [{ type: 'paragraph', content: [{ text: 'Welcome to the EPOP platform! 🚀 This is our internal communication and project management system.' }] }] },
                 bodyPlain: 'Welcome to the EPOP platform! 🚀 This is our internal communication and project management system.',
                 messageType: 'TEXT',
                 status: 'SENT',
@@ -210,7 +219,7 @@ async function seed() {
             {
                 conversationId: generalConversation[0].id,
                 senderId: managerUser[0].id,
-                bodyRich: { type: 'doc', content: [{ type: 'paragraph', content: [{ text: 'Excited to start using this platform! The project management features look great.' }] }],
+                bodyRich: { type: 'doc', content: [{ type: 'paragraph', content: [{ text: 'Excited to start using this platform! The project management features look great.' }] }] },
                 bodyPlain: 'Excited to start using this platform! The project management features look great.',
                 messageType: 'TEXT',
                 status: 'SENT',
@@ -219,7 +228,7 @@ async function seed() {
             {
                 conversationId: projectConversation[0].id,
                 senderId: demoUser[0].id,
-                bodyRich: { type: 'doc', content: [{ type: 'paragraph', content: [{ text: 'Working on the authentication system. The JWT implementation is complete and tested.' }] }],
+                bodyRich: { type: 'doc', content: [{ type: 'paragraph', content: [{ text: 'Working on the authentication system. The JWT implementation is complete and tested.' }] }] },
                 bodyPlain: 'Working on the authentication system. The JWT implementation is complete and tested.',
                 messageType: 'TEXT',
                 status: 'SENT',
@@ -228,7 +237,7 @@ async function seed() {
             {
                 conversationId: projectConversation[0].id,
                 senderId: adminUser[0].id,
-                bodyRich: { type: 'doc', content: [{ type: 'paragraph', content: [{ text: 'Great work! Please update the task status and mark it as in progress.' }] }],
+                bodyRich: { type: 'doc', content: [{ type: 'paragraph', content: [{ text: 'Great work! Please update the task status and mark it as in progress.' }] }] },
                 bodyPlain: 'Great work! Please update the task status and mark it as in progress.',
                 messageType: 'TEXT',
                 status: 'SENT',
@@ -277,19 +286,6 @@ async function seed() {
     }
 }
 
-// Helper function to hash passwords (simplified for seeding)
-async function hashPassword(password: string): Promise<string> {
-    const crypto = await import('crypto');
-    const salt = crypto.randomBytes(16).toString('hex');
-
-    return new Promise((resolve, reject) => {
-        crypto.pbkdf2(password, salt, 100000, 64, 'sha512', (err, derivedKey) => {
-            if (err) reject(err);
-            resolve(`${salt}:${derivedKey.toString('hex')}:100000`);
-        });
-    });
-}
-
 // Run the seed script if called directly
 if (require.main === module) {
     seed()
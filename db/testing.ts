@@ -0,0 +1,27 @@
+import { createRequire } from 'module';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import * as schema from './schema';
+
+// The ESM build of drizzle-kit/api cannot load under Vitest; the CommonJS one can
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api') as typeof import('drizzle-kit/api');
+
+/**
+ * In-memory Postgres (PGlite) with the current schema, for tests. Replace the real client with
+ *
+ *     vi.mock('@/db', async () => ({ ...await import('@/db/schema'), db: await createTestDatabase() }));
+ *
+ * GIN indexes are skipped: they only speed up searches and some need extensions PGlite lacks.
+ */
+export async function createTestDatabase() {
+    const client = new PGlite();
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+
+    for (const statement of statements) {
+        if (!/\busing gin\b/i.test(statement)) {
+            await client.exec(statement);
+        }
+    }
+
+    return drizzle(client, { schema });
+}
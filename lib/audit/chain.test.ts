@@ -0,0 +1,99 @@
+import * as crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { AuditChainService, AuditCheckpoint, AuditCheckpointKey, computeHash } from '@/lib/audit/chain';
+
+const auditRow = {
+    id: '6f1c1f0e-4d3b-4c36-9b8e-2f5d0f1d2a10',
+    sequence: 42,
+    previousHash: 'a'.repeat(64),
+    actorId: null,
+    impersonatorId: null,
+    action: 'MESSAGE_DELETED',
+    targetResource: 'message',
+    targetId: null,
+    metadata: { conversationId: 'c1', nested: { b: 2, a: [1, { y: true, x: null }] } },
+    ipAddress: '203.0.113.7',
+    userAgent: null,
+    success: true,
+    errorMessage: null,
+    createdAt: new Date('2026-01-02T03:04:05.678Z'),
+};
+
+describe('computeHash', () => {
+    // Postgres returns jsonb objects with their keys reordered
+    it('survives jsonb key reordering', () => {
+        expect(computeHash({
+            ...auditRow,
+            metadata: { nested: { a: [1, { x: null, y: true }], b: 2 }, conversationId: 'c1' },
+        })).toBe(computeHash(auditRow));
+    });
+
+    it('changes when metadata does', () => {
+        expect(computeHash({
+            ...auditRow,
+            metadata: { ...auditRow.metadata, conversationId: 'c2' },
+        })).not.toBe(computeHash(auditRow));
+    });
+
+    it('changes with the previous hash', () => {
+        expect(computeHash({ ...auditRow, previousHash: 'b'.repeat(64) })).not.toBe(computeHash(auditRow));
+    });
+});
+
+describe('AuditChainService.isCheckpointSignatureValid', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const publicJwk: AuditCheckpointKey = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'ES256' };
+
+    function sign(fields: Omit<AuditCheckpoint, 'signature'>): AuditCheckpoint {
+        // Canonical JSON: keys sorted
+        const payload = JSON.stringify({
+            algorithm: fields.algorithm,
+            createdAt: fields.createdAt,
+            hash: fields.hash,
+            kid: fields.kid,
+            sequence: fields.sequence,
+            version: fields.version,
+        });
+        const signature = crypto.sign('sha256', Buffer.from(payload), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+
+        return { ...fields, signature: signature.toString('base64url') };
+    }
+
+    const checkpoint = sign({
+        version: 2,
+        sequence: 42,
+        hash: computeHash(auditRow),
+        createdAt: '2026-01-02T04:00:00.000Z',
+        kid: 'key-1',
+        algorithm: 'ES256',
+    });
+
+    it('accepts a checkpoint signed by a trusted key', () => {
+        expect(AuditChainService.isCheckpointSignatureValid(checkpoint, [publicJwk])).toBe(true);
+    });
+
+    it('rejects a checkpoint whose fields were changed', () => {
+        expect(AuditChainService.isCheckpointSignatureValid({ ...checkpoint, sequence: 41 }, [publicJwk])).toBe(false);
+        expect(AuditChainService.isCheckpointSignatureValid({ ...checkpoint, hash: 'b'.repeat(64) }, [publicJwk])).toBe(false);
+    });
+
+    it('rejects a checkpoint without a trusted key for its kid', () => {
+        expect(AuditChainService.isCheckpointSignatureValid(checkpoint, [])).toBe(false);
+        expect(AuditChainService.isCheckpointSignatureValid(checkpoint, [{ ...publicJwk, kid: 'key-2' }])).toBe(false);
+    });
+
+    it('rejects a checkpoint signed by another key under a trusted kid', () => {
+        const other = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey;
+        const otherJwk: AuditCheckpointKey = { ...other.export({ format: 'jwk' }), kid: 'key-1', alg: 'ES256' };
+
+        expect(AuditChainService.isCheckpointSignatureValid(checkpoint, [otherJwk])).toBe(false);
+    });
+
+    it('rejects a checkpoint claiming another algorithm than its key', () => {
+        expect(AuditChainService.isCheckpointSignatureValid({ ...checkpoint, algorithm: 'RS256' }, [publicJwk])).toBe(false);
+    });
+
+    it('rejects a malformed signature', () => {
+        expect(AuditChainService.isCheckpointSignatureValid({ ...checkpoint, signature: 'not-a-signature' }, [publicJwk])).toBe(false);
+    });
+});
@@ -0,0 +1,349 @@
+import * as crypto from 'crypto';
+import { eq, and, gt, desc, asc, isNotNull, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { auditLogs } from '@/db/schema';
+import { SigningKeyService, SigningAlgorithm } from '@/lib/auth/signing-keys';
+
+/**
+ * What callers record; the chain adds the sequence, hashes and timestamp
+ */
+export interface AuditLogInput {
+    actorId?: string;
+    impersonatorId?: string;
+    action: string;
+    targetResource?: string;
+    targetId?: string;
+    metadata?: Record<string, unknown>;
+    ipAddress?: string;
+    userAgent?: string;
+    success?: boolean;
+    errorMessage?: string;
+}
+
+export type AuditTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type ChainedAuditLog = Omit<typeof auditLogs.$inferSelect, 'hash'>;
+
+export type AuditChainBreak =
+    | 'hash_mismatch' // The row was edited
+    | 'previous_hash_mismatch' // A row before it was edited, deleted or inserted
+    | 'sequence_gap' // Rows were deleted, including from the start without a prune record
+    | 'checkpoint_mismatch' // The row a checkpoint vouches for is different now
+    | 'checkpoint_missing' // Rows a checkpoint vouches for are gone and no prune record covers them
+    | 'invalid_checkpoint_signature';
+
+export interface AuditChainVerification {
+    valid: boolean;
+    checkedEntries: number;
+    firstSequence: number | null; // Earlier entries were pruned by retention
+    prunedThrough: number | null; // From the latest AUDIT_LOGS_PRUNED entry
+    lastSequence: number | null;
+    lastHash: string | null;
+    brokenAt: { sequence: number; id?: string; reason: AuditChainBreak } | null;
+}
+
+/**
+ * Signed statement that the chain contained this hash at this position. Kept outside the
+ * database, it shows later whether the chain up to that point was rewritten or truncated.
+ * Signed with the active JWT signing key, so verifying takes only its public key.
+ */
+export interface AuditCheckpoint {
+    version: 2;
+    sequence: number;
+    hash: string;
+    createdAt: string;
+    kid: string; // Signing key (see lib/auth/signing-keys.ts)
+    algorithm: SigningAlgorithm;
+    signature: string; // Over the other fields in canonical JSON, base64url (JWS encoding)
+}
+
+/**
+ * Public half of a signing key as published in /.well-known/jwks.json
+ */
+export type AuditCheckpointKey = crypto.JsonWebKey & { kid?: string; alg?: string };
+
+// Key for pg_advisory_xact_lock: one writer extends the chain at a time
+const CHAIN_LOCK_KEY = 7305001;
+
+const VERIFY_BATCH_SIZE = 1000;
+
+/**
+ * JSON with object keys sorted, so jsonb's reordering does not change the hash
+ */
+function canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalize).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+        return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`).join(',')}}`;
+    }
+
+    return JSON.stringify(value ?? null);
+}
+
+/**
+ * Hash of a chained row; exported for tests
+ */
+export function computeHash(row: ChainedAuditLog): string {
+    return crypto
+        .createHash('sha256')
+        .update(canonicalize([
+            row.sequence,
+            row.previousHash,
+            row.id,
+            row.actorId,
+            row.impersonatorId,
+            row.action,
+            row.targetResource,
+            row.targetId,
+            row.metadata,
+            row.ipAddress,
+            row.userAgent,
+            row.success,
+            row.errorMessage,
+            row.createdAt.toISOString(),
+        ]))
+        .digest('hex');
+}
+
+// ES256 and RS256 both hash with SHA-256; ECDSA signatures use the fixed-size JWS encoding
+const CHECKPOINT_SIGN_OPTIONS = { dsaEncoding: 'ieee-p1363' } as const;
+
+export class AuditChainService {
+    /**
+     * Append an entry to the audit log, chained to the previous one. Pass a transaction to
+     * write the entry together with other changes.
+     */
+    static async append(entry: AuditLogInput, tx?: AuditTransaction): Promise<void> {
+        if (!tx) {
+            return db.transaction((transaction) => this.append(entry, transaction));
+        }
+
+        await tx.execute(sql`select pg_advisory_xact_lock(${CHAIN_LOCK_KEY})`);
+
+        const [previous] = await tx
+            .select({ sequence: auditLogs.sequence, hash: auditLogs.hash })
+            .from(auditLogs)
+            .where(isNotNull(auditLogs.sequence))
+            .orderBy(desc(auditLogs.sequence))
+            .limit(1);
+
+        const row: ChainedAuditLog = {
+            id: crypto.randomUUID(),
+            sequence: (previous?.sequence ?? 0) + 1,
+            previousHash: previous?.hash ?? null,
+            actorId: entry.actorId ?? null,
+            impersonatorId: entry.impersonatorId ?? null,
+            action: entry.action,
+            targetResource: entry.targetResource ?? null,
+            targetId: entry.targetId ?? null,
+            // Stored the way jsonb will hand it back
+            metadata: JSON.parse(JSON.stringify(entry.metadata || {})),
+            ipAddress: entry.ipAddress ?? null,
+            userAgent: entry.userAgent ?? null,
+            success: entry.success ?? true,
+            errorMessage: entry.errorMessage ?? null,
+            createdAt: new Date(),
+        };
+
+        await tx.insert(auditLogs).values({ ...row, hash: computeHash(row) });
+    }
+
+    /**
+     * Walk the chain from its oldest remaining entry and report the first broken link. The chain
+     * must start at sequence 1 or right after the range the latest prune record removed.
+     * Checkpoints additionally prove the entries they vouch for are still present and unchanged;
+     * their signatures are checked against the given public keys only, never keys from the database.
+     */
+    static async verify(
+        checkpoints: AuditCheckpoint[] = [],
+        publicKeys: AuditCheckpointKey[] = []
+    ): Promise<AuditChainVerification> {
+        const prunedThrough = await this.getPrunedThrough();
+        const vouched = new Map<number, AuditCheckpoint>();
+
+        for (const checkpoint of checkpoints) {
+            if (!this.isCheckpointSignatureValid(checkpoint, publicKeys)) {
+                return this.broken(0, null, prunedThrough, null, { sequence: checkpoint.sequence, reason: 'invalid_checkpoint_signature' });
+            }
+
+            vouched.set(checkpoint.sequence, checkpoint);
+        }
+
+        let checkedEntries = 0;
+        let firstSequence: number | null = null;
+        let previous: { sequence: number; hash: string | null } | null = null;
+
+        while (true) {
+            const rows: (typeof auditLogs.$inferSelect)[] = await db
+                .select()
+                .from(auditLogs)
+                .where(previous ? gt(auditLogs.sequence, previous.sequence) : isNotNull(auditLogs.sequence))
+                .orderBy(asc(auditLogs.sequence))
+                .limit(VERIFY_BATCH_SIZE);
+
+            for (const { hash, ...row } of rows) {
+                const sequence = row.sequence!;
+                let reason: AuditChainBreak | null = null;
+
+                if (hash !== computeHash(row)) {
+                    reason = 'hash_mismatch';
+                } else if (sequence !== (previous ? previous.sequence : prunedThrough ?? 0) + 1) {
+                    reason = 'sequence_gap';
+                } else if (previous && row.previousHash !== previous.hash) {
+                    reason = 'previous_hash_mismatch';
+                } else if (vouched.has(sequence) && vouched.get(sequence)!.hash !== hash) {
+                    reason = 'checkpoint_mismatch';
+                }
+
+                if (reason) {
+                    return this.broken(checkedEntries, firstSequence, prunedThrough, previous, { sequence, id: row.id, reason });
+                }
+
+                firstSequence ??= sequence;
+                previous = { sequence, hash };
+                checkedEntries++;
+            }
+
+            if (rows.length < VERIFY_BATCH_SIZE) {
+                break;
+            }
+        }
+
+        // A checkpoint the walk never reached vouches for entries that are gone: past the end they were
+        // removed from the tail, before the start they must have been pruned on the record
+        const missing = [...vouched.keys()]
+            .filter((sequence) => previous
+                ? sequence > previous.sequence || (sequence < firstSequence! && sequence > (prunedThrough ?? 0))
+                : sequence > (prunedThrough ?? 0))
+            .sort((a, b) => a - b)[0];
+
+        if (missing !== undefined) {
+            return this.broken(checkedEntries, firstSequence, prunedThrough, previous, { sequence: missing, reason: 'checkpoint_missing' });
+        }
+
+        return {
+            valid: true,
+            checkedEntries,
+            firstSequence,
+            prunedThrough,
+            lastSequence: previous?.sequence ?? null,
+            lastHash: previous?.hash ?? null,
+            brokenAt: null,
+        };
+    }
+
+    /**
+     * Sign the current head of the chain. The caller stores the result, and the public key that
+     * verifies it, outside the database.
+     */
+    static async createCheckpoint(): Promise<AuditCheckpoint> {
+        const [head] = await db
+            .select({ sequence: auditLogs.sequence, hash: auditLogs.hash })
+            .from(auditLogs)
+            .where(isNotNull(auditLogs.sequence))
+            .orderBy(desc(auditLogs.sequence))
+            .limit(1);
+
+        if (!head) {
+            throw new Error('The audit log has no chained entries yet');
+        }
+
+        const { kid, algorithm, privateKey } = await SigningKeyService.getSigningKey();
+
+        const unsigned: Omit<AuditCheckpoint, 'signature'> = {
+            version: 2,
+            sequence: head.sequence!,
+            hash: head.hash!,
+            createdAt: new Date().toISOString(),
+            kid,
+            algorithm,
+        };
+        const signature = crypto.sign(
+            'sha256',
+            Buffer.from(canonicalize(unsigned)),
+            { key: privateKey, ...CHECKPOINT_SIGN_OPTIONS }
+        );
+        const checkpoint: AuditCheckpoint = { ...unsigned, signature: signature.toString('base64url') };
+
+        await this.append({
+            action: 'AUDIT_CHECKPOINT_CREATED',
+            targetResource: 'audit_log',
+            metadata: {
+                sequence: checkpoint.sequence,
+                hash: checkpoint.hash,
+                kid,
+            },
+        });
+
+        return checkpoint;
+    }
+
+    /**
+     * Whether a checkpoint was signed by one of the given public keys and left unchanged
+     */
+    static isCheckpointSignatureValid(checkpoint: AuditCheckpoint, publicKeys: AuditCheckpointKey[]): boolean {
+        const { signature, ...unsigned } = checkpoint;
+        const jwk = publicKeys.find((key) => key.kid === checkpoint.kid);
+
+        if (checkpoint.version !== 2 || !jwk || (jwk.alg && jwk.alg !== checkpoint.algorithm)) {
+            return false;
+        }
+
+        try {
+            return crypto.verify(
+                'sha256',
+                Buffer.from(canonicalize(unsigned)),
+                { key: crypto.createPublicKey({ key: jwk, format: 'jwk' }), ...CHECKPOINT_SIGN_OPTIONS },
+                Buffer.from(String(signature), 'base64url')
+            );
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * The last sequence retention removed, as recorded by the latest AUDIT_LOGS_PRUNED entry
+     */
+    private static async getPrunedThrough(): Promise<number | null> {
+        const [record] = await db
+            .select({ metadata: auditLogs.metadata })
+            .from(auditLogs)
+            .where(
+                and(
+                    eq(auditLogs.action, 'AUDIT_LOGS_PRUNED'),
+                    isNotNull(auditLogs.sequence),
+                    sql`${auditLogs.metadata}->>'throughSequence' is not null`
+                )
+            )
+            .orderBy(desc(auditLogs.sequence))
+            .limit(1);
+
+        const throughSequence = Number((record?.metadata as { throughSequence?: unknown } | undefined)?.throughSequence);
+
+        return Number.isInteger(throughSequence) && throughSequence > 0 ? throughSequence : null;
+    }
+
+    private static broken(
+        checkedEntries: number,
+        firstSequence: number | null,
+        prunedThrough: number | null,
+        previous: { sequence: number; hash: string | null } | null,
+        brokenAt: NonNullable<AuditChainVerification['brokenAt']>
+    ): AuditChainVerification {
+        return {
+            valid: false,
+            checkedEntries,
+            firstSequence,
+            prunedThrough,
+            lastSequence: previous?.sequence ?? null,
+            lastHash: previous?.hash ?? null,
+            brokenAt,
+        };
+    }
+}
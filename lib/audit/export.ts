@@ -0,0 +1,84 @@
+import { AuditLogService, AuditLogEntry, AuditLogFilters } from './query';
+
+export const AUDIT_EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+export type AuditExportFormat = typeof AUDIT_EXPORT_FORMATS[number];
+
+const CSV_COLUMNS: (keyof AuditLogEntry)[] = [
+    'id',
+    'sequence',
+    'createdAt',
+    'actorId',
+    'actorEmail',
+    'impersonatorId',
+    'action',
+    'targetResource',
+    'targetId',
+    'success',
+    'ipAddress',
+    'userAgent',
+    'errorMessage',
+    'metadata',
+    'hash',
+];
+
+/**
+ * Quote a CSV field. Values that spreadsheets would run as formulas get a leading apostrophe.
+ */
+function csvField(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    let text = value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    if (/^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render one entry as a line of the export
+ */
+export function formatAuditEntry(entry: AuditLogEntry, format: AuditExportFormat): string {
+    if (format === 'ndjson') {
+        return `${JSON.stringify(entry)}\n`;
+    }
+
+    return `${CSV_COLUMNS.map((column) => csvField(entry[column])).join(',')}\r\n`;
+}
+
+/**
+ * Stream every matching entry without holding the result set in memory
+ */
+export function createAuditExportStream(filters: AuditLogFilters, format: AuditExportFormat): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const entries = AuditLogService.iterate(filters);
+    let headerSent = format !== 'csv';
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (!headerSent) {
+                headerSent = true;
+                controller.enqueue(encoder.encode(`${CSV_COLUMNS.join(',')}\r\n`));
+                return;
+            }
+
+            const { value, done } = await entries.next();
+
+            if (done) {
+                controller.close();
+                return;
+            }
+
+            controller.enqueue(encoder.encode(formatAuditEntry(value, format)));
+        },
+        async cancel() {
+            await entries.return(undefined);
+        },
+    });
+}
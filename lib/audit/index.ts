@@ -0,0 +1,8 @@
+export { AuditLogService, auditLogFilterSchema, MAX_AUDIT_PAGE_SIZE } from './query';
+export type { AuditLogFilters, AuditLogEntry, AuditLogPage } from './query';
+export { AUDIT_EXPORT_FORMATS, formatAuditEntry, createAuditExportStream } from './export';
+export type { AuditExportFormat } from './export';
+export { AuditRetentionService, AUDIT_RETENTION_POLICY_KEY } from './retention';
+export type { AuditRetentionPolicy, AuditRetentionResult } from './retention';
+export { AuditChainService } from './chain';
+export type { AuditLogInput, AuditTransaction, AuditChainBreak, AuditChainVerification, AuditCheckpoint, AuditCheckpointKey } from './chain';
@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import { eq, and, gte, lt, inArray, desc, sql, SQL } from 'drizzle-orm';
+import { db } from '@/db';
+import { users, auditLogs } from '@/db/schema';
+
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+/**
+ * Filters accepted as query parameters by the admin audit log endpoints
+ */
+export const auditLogFilterSchema = z.object({
+    actorId: z.string().uuid('Invalid actor ID').optional(),
+    action: z.string().trim().min(1).optional(), // Comma-separated, e.g. LOGIN,LOGIN_FAILED
+    targetResource: z.string().trim().min(1).optional(),
+    targetId: z.string().trim().min(1).optional(),
+    success: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+    ipAddress: z.string().trim().min(1).optional(),
+    from: z.coerce.date().optional(), // Inclusive
+    to: z.coerce.date().optional(), // Exclusive
+});
+
+export type AuditLogFilters = z.infer<typeof auditLogFilterSchema>;
+
+export interface AuditLogEntry {
+    id: string;
+    sequence: number | null;
+    actorId: string | null;
+    actorEmail: string | null;
+    impersonatorId: string | null;
+    action: string;
+    targetResource: string | null;
+    targetId: string | null;
+    metadata: unknown;
+    ipAddress: string | null;
+    userAgent: string | null;
+    success: boolean;
+    errorMessage: string | null;
+    hash: string | null;
+    createdAt: Date;
+}
+
+export interface AuditLogPage {
+    entries: AuditLogEntry[];
+    nextCursor: string | null;
+}
+
+// The database keeps microseconds, which a Date would lose, so cursors carry the timestamp as text
+const CURSOR_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6})\|([0-9a-f-]{36})$/;
+
+function encodeCursor(createdAt: string, id: string): string {
+    return Buffer.from(`${createdAt}|${id}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { createdAt: string; id: string } {
+    const match = Buffer.from(cursor, 'base64url').toString().match(CURSOR_PATTERN);
+
+    if (!match) {
+        throw new Error('Invalid cursor');
+    }
+
+    return { createdAt: match[1], id: match[2] };
+}
+
+function buildConditions(filters: AuditLogFilters, cursor?: string): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filters.actorId) {
+        conditions.push(eq(auditLogs.actorId, filters.actorId));
+    }
+
+    if (filters.action) {
+        const actions = filters.action.split(',').map((action) => action.trim()).filter(Boolean);
+        conditions.push(inArray(auditLogs.action, actions));
+    }
+
+    if (filters.targetResource) {
+        conditions.push(eq(auditLogs.targetResource, filters.targetResource));
+    }
+
+    if (filters.targetId) {
+        conditions.push(eq(auditLogs.targetId, filters.targetId));
+    }
+
+    if (filters.success !== undefined) {
+        conditions.push(eq(auditLogs.success, filters.success));
+    }
+
+    if (filters.ipAddress) {
+        conditions.push(eq(auditLogs.ipAddress, filters.ipAddress));
+    }
+
+    if (filters.from) {
+        conditions.push(gte(auditLogs.createdAt, filters.from));
+    }
+
+    if (filters.to) {
+        conditions.push(lt(auditLogs.createdAt, filters.to));
+    }
+
+    if (cursor) {
+        const position = decodeCursor(cursor);
+        conditions.push(sql`(${auditLogs.createdAt}, ${auditLogs.id}) < (${position.createdAt}::timestamp, ${position.id}::uuid)`);
+    }
+
+    return conditions;
+}
+
+export class AuditLogService {
+    /**
+     * One page of audit entries, newest first. Pass nextCursor back to continue.
+     */
+    static async query(
+        filters: AuditLogFilters,
+        { cursor, limit = 50, where }: { cursor?: string; limit?: number; where?: SQL } = {}
+    ): Promise<AuditLogPage> {
+        const pageSize = Math.min(Math.max(limit, 1), MAX_AUDIT_PAGE_SIZE);
+
+        const rows = await db
+            .select({
+                entry: {
+                    id: auditLogs.id,
+                    sequence: auditLogs.sequence,
+                    actorId: auditLogs.actorId,
+                    actorEmail: users.email,
+                    impersonatorId: auditLogs.impersonatorId,
+                    action: auditLogs.action,
+                    targetResource: auditLogs.targetResource,
+                    targetId: auditLogs.targetId,
+                    metadata: auditLogs.metadata,
+                    ipAddress: auditLogs.ipAddress,
+                    userAgent: auditLogs.userAgent,
+                    success: auditLogs.success,
+                    errorMessage: auditLogs.errorMessage,
+                    hash: auditLogs.hash,
+                    createdAt: auditLogs.createdAt,
+                },
+                position: sql<string>`to_char(${auditLogs.createdAt}, 'YYYY-MM-DD"T"HH24:MI:SS.US')`,
+            })
+            .from(auditLogs)
+            .leftJoin(users, eq(users.id, auditLogs.actorId))
+            .where(and(...buildConditions(filters, cursor), where))
+            .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+            .limit(pageSize + 1);
+
+        const hasMore = rows.length > pageSize;
+        const page = rows.slice(0, pageSize);
+        const last = page[page.length - 1];
+
+        return {
+            entries: page.map((row) => row.entry),
+            nextCursor: hasMore && last ? encodeCursor(last.position, last.entry.id) : null,
+        };
+    }
+
+    /**
+     * Walk every matching entry, newest first, one page at a time. `where` narrows the filters
+     * further for internal callers such as retention.
+     */
+    static async *iterate(
+        filters: AuditLogFilters,
+        batchSize: number = MAX_AUDIT_PAGE_SIZE,
+        where?: SQL
+    ): AsyncGenerator<AuditLogEntry> {
+        let cursor: string | undefined;
+
+        do {
+            const page = await this.query(filters, { cursor, limit: batchSize, where });
+            yield* page.entries;
+            cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+    }
+}
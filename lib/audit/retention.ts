@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { and, or, lt, lte, gte, isNull, isNotNull, min, max, sql, SQL } from 'drizzle-orm';
+import { db } from '@/db';
+import { auditLogs } from '@/db/schema';
+import { SettingsService } from '@/lib/settings';
+import { AuditLogService } from './query';
+import { AuditChainService } from './chain';
+import { formatAuditEntry } from './export';
+
+export interface AuditRetentionPolicy {
+    retentionDays: number; // Entries older than this are pruned; 0 keeps everything
+    archive: boolean; // Write pruned entries to AUDIT_ARCHIVE_DIR first
+}
+
+export const AUDIT_RETENTION_POLICY_KEY = 'audit_log_retention_policy';
+
+const DEFAULT_POLICY: AuditRetentionPolicy = {
+    retentionDays: 365,
+    archive: true,
+};
+
+export interface AuditRetentionResult {
+    cutoff: Date | null;
+    archivePath: string | null;
+    deleted: number;
+}
+
+export class AuditRetentionService {
+    /**
+     * Get the audit log retention policy from settings
+     */
+    static async getPolicy(): Promise<AuditRetentionPolicy> {
+        return SettingsService.get(AUDIT_RETENTION_POLICY_KEY, DEFAULT_POLICY);
+    }
+
+    /**
+     * Archive entries past the retention period to a gzipped NDJSON file, then delete them.
+     * Nothing is deleted unless the archive was written completely.
+     */
+    static async run(now: Date = new Date()): Promise<AuditRetentionResult> {
+        const policy = await this.getPolicy();
+
+        if (policy.retentionDays <= 0) {
+            return { cutoff: null, archivePath: null, deleted: 0 };
+        }
+
+        const cutoff = new Date(now.getTime() - policy.retentionDays * 24 * 60 * 60 * 1000);
+
+        const throughSequence = await this.getPrunableThrough(cutoff);
+
+        // Chained entries go by sequence, not by createdAt: app servers' clocks differ, and deleting by
+        // time could take a row out of the middle of the chain. Legacy rows were never chained.
+        const prunable = or(
+            throughSequence !== null ? lte(auditLogs.sequence, throughSequence) : undefined,
+            and(isNull(auditLogs.sequence), lt(auditLogs.createdAt, cutoff))
+        ) as SQL;
+
+        const [{ deleted }] = await db
+            .select({ deleted: sql<number>`count(*)::int` })
+            .from(auditLogs)
+            .where(prunable);
+
+        if (deleted === 0) {
+            return { cutoff, archivePath: null, deleted: 0 };
+        }
+
+        let archivePath: string | null = null;
+
+        if (policy.archive) {
+            const directory = process.env.AUDIT_ARCHIVE_DIR || '.audit-archive';
+            await fs.promises.mkdir(directory, { recursive: true });
+
+            archivePath = path.join(directory, `audit-logs-before-${cutoff.toISOString().replace(/[:.]/g, '-')}.ndjson.gz`);
+
+            const lines = async function* () {
+                for await (const entry of AuditLogService.iterate({}, undefined, prunable)) {
+                    yield formatAuditEntry(entry, 'ndjson');
+                }
+            };
+
+            // 'wx' refuses to overwrite an archive from an earlier run
+            await pipeline(Readable.from(lines()), zlib.createGzip(), fs.createWriteStream(archivePath, { flags: 'wx' }));
+        }
+
+        // Recorded first, in the same transaction, so the chain never loses its head and
+        // verification can tell pruning from tampering
+        await db.transaction(async (tx) => {
+            await AuditChainService.append({
+                action: 'AUDIT_LOGS_PRUNED',
+                targetResource: 'audit_log',
+                metadata: {
+                    cutoff: cutoff.toISOString(),
+                    retentionDays: policy.retentionDays,
+                    archive: archivePath ? path.basename(archivePath) : null,
+                    deleted,
+                    throughSequence,
+                },
+            }, tx);
+
+            await tx
+                .delete(auditLogs)
+                .where(prunable);
+        });
+
+        return { cutoff, archivePath, deleted };
+    }
+
+    /**
+     * The last sequence before the first chained entry written at or after the cutoff, so only an
+     * unbroken prefix of the chain is pruned. Null when no chained entry is old enough.
+     */
+    private static async getPrunableThrough(cutoff: Date): Promise<number | null> {
+        const [{ firstKept }] = await db
+            .select({ firstKept: min(auditLogs.sequence) })
+            .from(auditLogs)
+            .where(and(isNotNull(auditLogs.sequence), gte(auditLogs.createdAt, cutoff)));
+
+        if (firstKept !== null) {
+            return firstKept > 1 ? firstKept - 1 : null;
+        }
+
+        const [{ last }] = await db
+            .select({ last: max(auditLogs.sequence) })
+            .from(auditLogs);
+
+        return last;
+    }
+}
@@ -1,13 +1,292 @@
-import { createAuthClient } from "better-auth/react";
-
-export const authClient = createAuthClient({
-    baseURL: process.env.NEXT_PUBLIC_BETTER_AUTH_URL || "http://localhost:3000",
-});
-
-export const {
-    signIn,
-    signUp,
-    signOut,
-    useSession,
-    getSession,
-} = authClient;
\ No newline at end of file
+import { useCallback, useEffect, useState } from "react";
+import { CSRF_COOKIE, CSRF_HEADER } from "@/lib/security/csrf";
+
+export interface SessionUser {
+    id: string;
+    name: string;
+    email: string;
+    role: string;
+    emailVerified: boolean;
+    avatarUrl: string | null;
+    // Set while a requested account deletion is in its grace period
+    deletionScheduledFor?: string | null;
+    // The admin acting as this user, when the session is an impersonation
+    impersonator?: {
+        id: string;
+        name: string;
+        email: string;
+        expiresAt: string;
+    } | null;
+}
+
+export interface Session {
+    user: SessionUser;
+}
+
+export interface AuthError {
+    message: string;
+    code?: string;
+    // With REAUTHENTICATION_REQUIRED: what reauthenticate() accepts for this user
+    methods?: ("password" | "totp")[];
+}
+
+export type AuthResult<T> =
+    | { data: T; error: null }
+    | { data: null; error: AuthError };
+
+export type SignInResult =
+    | { mfaRequired?: false; passwordChangeRequired?: false; challengeRequired?: false; user: SessionUser }
+    | { mfaRequired: true; passwordChangeRequired?: false; challengeRequired?: false; mfaToken: string; expiresIn: number }
+    | { mfaRequired?: false; passwordChangeRequired: true; challengeRequired?: false; passwordChangeToken: string; expiresIn: number }
+    | { mfaRequired?: false; passwordChangeRequired?: false; challengeRequired: true; challengeToken: string; expiresIn: number };
+
+// Components using useSession re-fetch when the user signs in or out
+const listeners = new Set<() => void>();
+
+function notifySessionChange() {
+    listeners.forEach((listener) => listener());
+}
+
+/**
+ * Echo the CSRF cookie in a header, as the API requires for requests authenticated by cookies
+ */
+export function csrfHeaders(): Record<string, string> {
+    const match = typeof document === "undefined"
+        ? null
+        : document.cookie.match(new RegExp(`(?:^|;\\s*)${CSRF_COOKIE}=([^;]+)`));
+
+    return match ? { [CSRF_HEADER]: decodeURIComponent(match[1]) } : {};
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<AuthResult<T>> {
+    try {
+        const response = await fetch(url, {
+            ...init,
+            credentials: "include",
+            headers: { "Content-Type": "application/json", ...csrfHeaders(), ...init?.headers },
+        });
+        const body = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+            return {
+                data: null,
+                error: { message: body.error || "Request failed", code: body.code, methods: body.methods },
+            };
+        }
+
+        return { data: body as T, error: null };
+    } catch {
+        return { data: null, error: { message: "Network error" } };
+    }
+}
+
+// Every request that hits an expired access token waits for the same refresh, so the refresh
+// token is rotated once rather than by each caller (which the server would take for a replay)
+let refreshInFlight: Promise<boolean> | null = null;
+let refreshCount = 0;
+
+/**
+ * Rotate the access token through the refresh token cookie, joining a refresh already under way
+ */
+function refreshSession(): Promise<boolean> {
+    if (!refreshInFlight) {
+        refreshInFlight = fetch("/api/auth/refresh", { method: "POST", credentials: "include", headers: csrfHeaders() })
+            .then((response) => response.ok)
+            .catch(() => false)
+            .finally(() => {
+                refreshCount++;
+                refreshInFlight = null;
+            });
+    }
+
+    return refreshInFlight;
+}
+
+/**
+ * Fetch with the access token cookie, rotating it through the refresh token cookie once if it expired
+ */
+export async function authFetch(url: string, init?: RequestInit): Promise<Response> {
+    const send = () => fetch(url, {
+        ...init,
+        credentials: "include",
+        headers: { ...csrfHeaders(), ...init?.headers },
+    });
+
+    const refreshesBefore = refreshCount;
+    const response = await send();
+
+    if (response.status !== 401) {
+        return response;
+    }
+
+    // A refresh that finished while this request was out already replaced the token
+    if (refreshCount === refreshesBefore || refreshInFlight) {
+        const refreshed = await refreshSession();
+        if (!refreshed) {
+            return response;
+        }
+    }
+
+    return send();
+}
+
+export const signIn = {
+    email: async (input: { email: string; password: string; rememberMe?: boolean }) => {
+        const result = await request<SignInResult>("/api/auth/login", {
+            method: "POST",
+            body: JSON.stringify(input),
+        });
+
+        if (result.data && !result.data.mfaRequired && !result.data.passwordChangeRequired && !result.data.challengeRequired) {
+            notifySessionChange();
+        }
+
+        return result;
+    },
+
+    // May still ask for an expired password to be replaced once the second factor checks out
+    mfa: async (input: { mfaToken: string; code?: string; recoveryCode?: string }) => {
+        const result = await request<SignInResult>("/api/auth/mfa/verify", {
+            method: "POST",
+            body: JSON.stringify(input),
+        });
+
+        if (result.data && !result.data.passwordChangeRequired) {
+            notifySessionChange();
+        }
+
+        return result;
+    },
+
+    // Confirm a sign-in flagged as suspicious with the code emailed to the user
+    challenge: async (input: { challengeToken: string; code: string }) => {
+        const result = await request<SignInResult>("/api/auth/login/challenge", {
+            method: "POST",
+            body: JSON.stringify(input),
+        });
+
+        if (result.data && !result.data.passwordChangeRequired) {
+            notifySessionChange();
+        }
+
+        return result;
+    },
+
+    // Passwordless sign-in: email a single-use link that only works in this browser
+    requestMagicLink: async (input: { email: string }) => {
+        return request<{ message: string; expiresIn: number }>("/api/auth/magic-link/request", {
+            method: "POST",
+            body: JSON.stringify(input),
+        });
+    },
+
+    magicLink: async (input: { token: string; rememberMe?: boolean }) => {
+        const result = await request<SignInResult>("/api/auth/magic-link/verify", {
+            method: "POST",
+            body: JSON.stringify(input),
+        });
+
+        if (result.data && !result.data.mfaRequired) {
+            notifySessionChange();
+        }
+
+        return result;
+    },
+
+    // Replace an expired password; sign in again with the new one afterwards
+    expiredPassword: async (input: { passwordChangeToken: string; newPassword: string }) => {
+        return request<{ message: string }>("/api/auth/password/expired", {
+            method: "POST",
+            body: JSON.stringify(input),
+        });
+    },
+};
+
+export const signUp = {
+    email: async (input: { name: string; email: string; password: string }) => {
+        const result = await request<{ user: SessionUser }>("/api/auth/register", {
+            method: "POST",
+            body: JSON.stringify(input),
+        });
+
+        if (result.data) {
+            notifySessionChange();
+        }
+
+        return result;
+    },
+};
+
+/**
+ * Confirm the password or a second factor after a sensitive request failed with
+ * REAUTHENTICATION_REQUIRED, then retry the request
+ */
+export async function reauthenticate(input: {
+    password?: string;
+    code?: string;
+    recoveryCode?: string;
+}): Promise<AuthResult<{ expiresIn: number; authTime: number }>> {
+    return request<{ expiresIn: number; authTime: number }>("/api/auth/reauthenticate", {
+        method: "POST",
+        body: JSON.stringify(input),
+    });
+}
+
+export async function signOut(): Promise<void> {
+    await authFetch("/api/auth/logout", { method: "POST" });
+    notifySessionChange();
+}
+
+/**
+ * End an admin impersonation and return to the admin's own session
+ */
+export async function stopImpersonating(): Promise<AuthResult<{ message: string }>> {
+    const result = await request<{ message: string }>("/api/auth/impersonation", { method: "DELETE" });
+
+    if (result.data) {
+        // The impersonation token is gone; the admin's refresh token issues their own again
+        await refreshSession();
+        notifySessionChange();
+    }
+
+    return result;
+}
+
+export async function getSession(): Promise<Session | null> {
+    try {
+        const response = await authFetch("/api/auth/me");
+        if (!response.ok) {
+            return null;
+        }
+
+        const { user } = await response.json();
+        return { user };
+    } catch {
+        return null;
+    }
+}
+
+export function useSession(): {
+    data: Session | null;
+    isPending: boolean;
+    refetch: () => Promise<void>;
+} {
+    const [data, setData] = useState<Session | null>(null);
+    const [isPending, setIsPending] = useState(true);
+
+    const refetch = useCallback(async () => {
+        setData(await getSession());
+        setIsPending(false);
+    }, []);
+
+    useEffect(() => {
+        refetch();
+        listeners.add(refetch);
+
+        return () => {
+            listeners.delete(refetch);
+        };
+    }, [refetch]);
+
+    return { data, isPending, refetch };
+}
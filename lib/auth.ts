@@ -1,19 +0,0 @@
-import { betterAuth } from "better-auth";
-import { drizzleAdapter } from "better-auth/adapters/drizzle";
-import { db } from "@/db"; // your drizzle instance
-import { account, session, user, verification } from "@/db/schema/auth";
-
-export const auth = betterAuth({
-    database: drizzleAdapter(db, {
-        provider: "pg", // or "mysql", "sqlite"
-        schema: {
-            user: user,
-            account: account,
-            session: session,
-            verification: verification,
-        }
-    }),
-    emailAndPassword: {
-        enabled: true,
-    },
-});
\ No newline at end of file
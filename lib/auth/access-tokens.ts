@@ -0,0 +1,201 @@
+import * as crypto from 'crypto';
+import { eq, and, isNull, desc } from 'drizzle-orm';
+import { db } from '@/db';
+import { personalAccessTokens } from '@/db/schema';
+import { JWTService } from './jwt';
+
+export const API_SCOPES = [
+    'profile:read',
+    'messages:read',
+    'messages:write',
+    'tasks:read',
+    'tasks:write',
+    'projects:read',
+    'projects:write',
+    'files:read',
+    'files:write',
+    'calendar:read',
+    'calendar:write',
+] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+// Prefix makes tokens recognizable in headers and to secret scanners
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'epop_pat_';
+
+export const MAX_TOKEN_LIFETIME_DAYS = 365;
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000; // Avoid a write on every request
+
+export interface PersonalAccessTokenSummary {
+    id: string;
+    name: string;
+    tokenPrefix: string;
+    scopes: ApiScope[];
+    expiresAt: Date;
+    lastUsedAt: Date | null;
+    createdAt: Date;
+}
+
+export class PersonalAccessTokenService {
+    /**
+     * Whether a bearer token is a personal access token rather than a JWT
+     */
+    static isPersonalAccessToken(token: string): boolean {
+        return token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+    }
+
+    /**
+     * Create a token. The plaintext value is only returned here and never stored.
+     */
+    static async createToken(
+        userId: string,
+        input: {
+            name: string;
+            scopes: ApiScope[];
+            expiresInDays: number;
+        },
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<{ token: string; accessToken: PersonalAccessTokenSummary }> {
+        const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+        const expiresAt = new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000);
+
+        const [record] = await db
+            .insert(personalAccessTokens)
+            .values({
+                userId,
+                name: input.name,
+                tokenHash: this.hashToken(token),
+                tokenPrefix: token.substring(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 6),
+                scopes: [...new Set(input.scopes)],
+                expiresAt,
+            })
+            .returning();
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'ACCESS_TOKEN_CREATED',
+            targetResource: 'personal_access_token',
+            targetId: record.id,
+            metadata: {
+                name: record.name,
+                scopes: record.scopes,
+                expiresAt: record.expiresAt.toISOString(),
+            },
+            ipAddress,
+            userAgent,
+        });
+
+        return { token, accessToken: this.toSummary(record) };
+    }
+
+    /**
+     * List a user's tokens that have not been revoked
+     */
+    static async listTokens(userId: string): Promise<PersonalAccessTokenSummary[]> {
+        const tokens = await db
+            .select()
+            .from(personalAccessTokens)
+            .where(
+                and(
+                    eq(personalAccessTokens.userId, userId),
+                    isNull(personalAccessTokens.revokedAt)
+                )
+            )
+            .orderBy(desc(personalAccessTokens.createdAt));
+
+        return tokens.map((token) => this.toSummary(token));
+    }
+
+    /**
+     * Revoke one of the user's tokens
+     */
+    static async revokeToken(
+        userId: string,
+        tokenId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const [revoked] = await db
+            .update(personalAccessTokens)
+            .set({ revokedAt: new Date() })
+            .where(
+                and(
+                    eq(personalAccessTokens.id, tokenId),
+                    eq(personalAccessTokens.userId, userId),
+                    isNull(personalAccessTokens.revokedAt)
+                )
+            )
+            .returning({ id: personalAccessTokens.id, name: personalAccessTokens.name });
+
+        if (!revoked) {
+            throw new Error('Access token not found');
+        }
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'ACCESS_TOKEN_REVOKED',
+            targetResource: 'personal_access_token',
+            targetId: revoked.id,
+            metadata: {
+                name: revoked.name,
+            },
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Resolve a presented token to its owner and scopes
+     */
+    static async verifyToken(
+        token: string,
+        ipAddress?: string
+    ): Promise<{ tokenId: string; userId: string; scopes: ApiScope[] }> {
+        const [record] = await db
+            .select()
+            .from(personalAccessTokens)
+            .where(eq(personalAccessTokens.tokenHash, this.hashToken(token)))
+            .limit(1);
+
+        if (!record || record.revokedAt) {
+            throw new Error('Access token invalid or revoked');
+        }
+
+        if (record.expiresAt < new Date()) {
+            throw new Error('Access token expired');
+        }
+
+        if (!record.lastUsedAt || Date.now() - record.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+            await db
+                .update(personalAccessTokens)
+                .set({
+                    lastUsedAt: new Date(),
+                    lastUsedIp: ipAddress,
+                })
+                .where(eq(personalAccessTokens.id, record.id));
+        }
+
+        return {
+            tokenId: record.id,
+            userId: record.userId,
+            scopes: record.scopes as ApiScope[],
+        };
+    }
+
+    private static hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+
+    private static toSummary(token: typeof personalAccessTokens.$inferSelect): PersonalAccessTokenSummary {
+        return {
+            id: token.id,
+            name: token.name,
+            tokenPrefix: token.tokenPrefix,
+            scopes: token.scopes as ApiScope[],
+            expiresAt: token.expiresAt,
+            lastUsedAt: token.lastUsedAt,
+            createdAt: token.createdAt,
+        };
+    }
+}
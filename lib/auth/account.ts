@@ -0,0 +1,420 @@
+import { eq, and, or, ne, lte, isNull, isNotNull, asc } from 'drizzle-orm';
+import { db } from '@/db';
+import {
+    users,
+    personalAccessTokens,
+    auditLogs,
+    messages,
+    messageRevisions,
+    messageReactions,
+    tasks,
+    calendarEvents,
+    eventAttendees,
+    files,
+} from '@/db/schema';
+import { SettingsService } from '@/lib/settings';
+import { MailService } from '@/lib/mail';
+import { JWTService } from './jwt';
+
+export interface AccountDeletionPolicy {
+    gracePeriodDays: number; // Time to change one's mind before the account is purged
+}
+
+export const ACCOUNT_DELETION_POLICY_KEY = 'account_deletion_policy';
+
+const DEFAULT_POLICY: AccountDeletionPolicy = {
+    gracePeriodDays: 30,
+};
+
+export interface AccountDeletionStatus {
+    requestedAt: Date | null;
+    scheduledFor: Date | null;
+}
+
+/**
+ * Everything stored about a user, as handed over by the data export
+ */
+export interface AccountExport {
+    exportedAt: string;
+    profile: Record<string, unknown>;
+    messages: Record<string, unknown>[];
+    messageRevisions: Record<string, unknown>[];
+    reactions: Record<string, unknown>[];
+    tasks: Record<string, unknown>[];
+    calendarEvents: Record<string, unknown>[];
+    eventResponses: Record<string, unknown>[];
+    files: Record<string, unknown>[];
+    auditLog: Record<string, unknown>[];
+}
+
+export class AccountService {
+    /**
+     * Get the account deletion policy from settings
+     */
+    static async getPolicy(): Promise<AccountDeletionPolicy> {
+        return SettingsService.get(ACCOUNT_DELETION_POLICY_KEY, DEFAULT_POLICY);
+    }
+
+    /**
+     * Collect the user's profile and the records they created. Credentials, token hashes and
+     * storage locations are left out.
+     */
+    static async exportData(
+        userId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<AccountExport> {
+        const [profile] = await db
+            .select({
+                id: users.id,
+                email: users.email,
+                name: users.name,
+                role: users.role,
+                status: users.status,
+                avatarUrl: users.avatarUrl,
+                emailVerified: users.emailVerified,
+                lastLoginAt: users.lastLoginAt,
+                passwordChangedAt: users.passwordChangedAt,
+                deletionScheduledFor: users.deletionScheduledFor,
+                createdAt: users.createdAt,
+                updatedAt: users.updatedAt,
+            })
+            .from(users)
+            .where(eq(users.id, userId))
+            .limit(1);
+
+        if (!profile) {
+            throw new Error('User not found');
+        }
+
+        const sentMessages = await db
+            .select({
+                id: messages.id,
+                conversationId: messages.conversationId,
+                parentMessageId: messages.parentMessageId,
+                bodyRich: messages.bodyRich,
+                bodyPlain: messages.bodyPlain,
+                messageType: messages.messageType,
+                priority: messages.priority,
+                isEdited: messages.isEdited,
+                isDeleted: messages.isDeleted,
+                createdAt: messages.createdAt,
+                editedAt: messages.editedAt,
+                deletedAt: messages.deletedAt,
+            })
+            .from(messages)
+            .where(eq(messages.senderId, userId))
+            .orderBy(asc(messages.createdAt));
+
+        // Earlier versions of messages the user edited
+        const revisions = await db
+            .select({
+                messageId: messageRevisions.messageId,
+                revision: messageRevisions.revision,
+                bodyRich: messageRevisions.bodyRich,
+                bodyPlain: messageRevisions.bodyPlain,
+                editedAt: messageRevisions.editedAt,
+            })
+            .from(messageRevisions)
+            .where(eq(messageRevisions.editedBy, userId))
+            .orderBy(asc(messageRevisions.editedAt));
+
+        const reactions = await db
+            .select({
+                messageId: messageReactions.messageId,
+                emoji: messageReactions.emoji,
+                createdAt: messageReactions.createdAt,
+            })
+            .from(messageReactions)
+            .where(eq(messageReactions.userId, userId))
+            .orderBy(asc(messageReactions.createdAt));
+
+        const userTasks = await db
+            .select()
+            .from(tasks)
+            .where(or(eq(tasks.assigneeId, userId), eq(tasks.reporterId, userId)))
+            .orderBy(asc(tasks.createdAt));
+
+        const events = await db
+            .select()
+            .from(calendarEvents)
+            .where(eq(calendarEvents.userId, userId))
+            .orderBy(asc(calendarEvents.startsAt));
+
+        const eventResponses = await db
+            .select({
+                eventId: eventAttendees.eventId,
+                status: eventAttendees.status,
+                responseAt: eventAttendees.responseAt,
+                isOptional: eventAttendees.isOptional,
+            })
+            .from(eventAttendees)
+            .where(eq(eventAttendees.userId, userId));
+
+        const uploadedFiles = await db
+            .select({
+                id: files.id,
+                filename: files.filename,
+                originalName: files.originalName,
+                mimeType: files.mimeType,
+                sizeBytes: files.sizeBytes,
+                hash: files.hash,
+                isPublic: files.isPublic,
+                tags: files.tags,
+                metadata: files.metadata,
+                downloadCount: files.downloadCount,
+                createdAt: files.createdAt,
+                updatedAt: files.updatedAt,
+            })
+            .from(files)
+            .where(eq(files.uploadedBy, userId))
+            .orderBy(asc(files.createdAt));
+
+        const auditEntries = await db
+            .select({
+                action: auditLogs.action,
+                targetResource: auditLogs.targetResource,
+                targetId: auditLogs.targetId,
+                metadata: auditLogs.metadata,
+                ipAddress: auditLogs.ipAddress,
+                userAgent: auditLogs.userAgent,
+                success: auditLogs.success,
+                createdAt: auditLogs.createdAt,
+            })
+            .from(auditLogs)
+            .where(eq(auditLogs.actorId, userId))
+            .orderBy(asc(auditLogs.createdAt));
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'ACCOUNT_EXPORTED',
+            targetResource: 'user',
+            targetId: userId,
+            ipAddress,
+            userAgent,
+        });
+
+        return {
+            exportedAt: new Date().toISOString(),
+            profile,
+            messages: sentMessages,
+            messageRevisions: revisions,
+            reactions,
+            tasks: userTasks,
+            calendarEvents: events,
+            eventResponses,
+            files: uploadedFiles,
+            auditLog: auditEntries,
+        };
+    }
+
+    /**
+     * When the user asked for their account to be deleted, if they did
+     */
+    static async getDeletionStatus(userId: string): Promise<AccountDeletionStatus> {
+        const [user] = await db
+            .select({
+                requestedAt: users.deletionRequestedAt,
+                scheduledFor: users.deletionScheduledFor,
+            })
+            .from(users)
+            .where(eq(users.id, userId))
+            .limit(1);
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        return user;
+    }
+
+    /**
+     * Schedule the account for deletion after the grace period and sign it out everywhere.
+     * Signing in again before then lets the user cancel.
+     */
+    static async scheduleDeletion(
+        userId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<Date> {
+        const [user] = await db
+            .select({
+                name: users.name,
+                email: users.email,
+                role: users.role,
+                deletionScheduledFor: users.deletionScheduledFor,
+            })
+            .from(users)
+            .where(eq(users.id, userId))
+            .limit(1);
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (user.deletionScheduledFor) {
+            throw new Error('Account deletion is already scheduled');
+        }
+
+        // Someone has to be left to run the deployment
+        if (user.role === 'ADMIN') {
+            const [otherAdmin] = await db
+                .select({ id: users.id })
+                .from(users)
+                .where(
+                    and(
+                        eq(users.role, 'ADMIN'),
+                        eq(users.status, 'ACTIVE'),
+                        isNull(users.deletionScheduledFor),
+                        ne(users.id, userId)
+                    )
+                )
+                .limit(1);
+
+            if (!otherAdmin) {
+                throw new Error('The last administrator account cannot be deleted');
+            }
+        }
+
+        const policy = await this.getPolicy();
+        const now = new Date();
+        const scheduledFor = new Date(now.getTime() + policy.gracePeriodDays * 24 * 60 * 60 * 1000);
+
+        await db
+            .update(users)
+            .set({
+                deletionRequestedAt: now,
+                deletionScheduledFor: scheduledFor,
+                updatedAt: now,
+            })
+            .where(eq(users.id, userId));
+
+        await JWTService.revokeAllRefreshTokens(userId);
+
+        await db
+            .update(personalAccessTokens)
+            .set({ revokedAt: now })
+            .where(
+                and(
+                    eq(personalAccessTokens.userId, userId),
+                    isNull(personalAccessTokens.revokedAt)
+                )
+            );
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'ACCOUNT_DELETION_SCHEDULED',
+            targetResource: 'user',
+            targetId: userId,
+            metadata: {
+                scheduledFor: scheduledFor.toISOString(),
+                gracePeriodDays: policy.gracePeriodDays,
+            },
+            ipAddress,
+            userAgent,
+        });
+
+        await MailService.send(user.email, 'accountDeletionScheduled', {
+            name: user.name,
+            scheduledFor,
+            cancelUrl: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/settings`,
+        });
+
+        return scheduledFor;
+    }
+
+    /**
+     * Keep the account after all
+     */
+    static async cancelDeletion(
+        userId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const [cancelled] = await db
+            .update(users)
+            .set({
+                deletionRequestedAt: null,
+                deletionScheduledFor: null,
+                updatedAt: new Date(),
+            })
+            .where(
+                and(
+                    eq(users.id, userId),
+                    isNotNull(users.deletionScheduledFor)
+                )
+            )
+            .returning({ id: users.id });
+
+        if (!cancelled) {
+            throw new Error('No account deletion is scheduled');
+        }
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'ACCOUNT_DELETION_CANCELLED',
+            targetResource: 'user',
+            targetId: userId,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Permanently delete an account. Messages stay in their conversations without a sender;
+     * rows owned by the user (tokens, sessions, memberships, reactions, events, files) cascade
+     * from the user row, and shared records such as projects and tasks keep a null reference.
+     */
+    static async purgeAccount(userId: string): Promise<void> {
+        const [user] = await db
+            .select({
+                requestedAt: users.deletionRequestedAt,
+                scheduledFor: users.deletionScheduledFor,
+            })
+            .from(users)
+            .where(eq(users.id, userId))
+            .limit(1);
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        await db.transaction(async (tx) => {
+            await tx
+                .update(messages)
+                .set({ senderId: null })
+                .where(eq(messages.senderId, userId));
+
+            await tx
+                .delete(users)
+                .where(eq(users.id, userId));
+        });
+
+        // No actor: the user is gone and the purge runs unattended
+        await JWTService.createAuditLog({
+            action: 'ACCOUNT_DELETED',
+            targetResource: 'user',
+            targetId: userId,
+            metadata: {
+                requestedAt: user.requestedAt?.toISOString(),
+                scheduledFor: user.scheduledFor?.toISOString(),
+            },
+        });
+    }
+
+    /**
+     * Purge every account whose grace period has ended. Returns how many were deleted.
+     */
+    static async purgeScheduledDeletions(now: Date = new Date()): Promise<number> {
+        const due = await db
+            .select({ id: users.id })
+            .from(users)
+            .where(lte(users.deletionScheduledFor, now));
+
+        for (const { id } of due) {
+            await this.purgeAccount(id);
+        }
+
+        return due.length;
+    }
+}
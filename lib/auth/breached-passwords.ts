@@ -0,0 +1,44 @@
+/**
+ * Offline screening against the most common passwords from public breach corpora.
+ * Bundled so registration and resets never depend on an external service.
+ */
+const BREACHED_PASSWORDS = new Set([
+    '000000', '00000000', '0987654321', '1111', '11111', '111111', '1111111', '11111111',
+    '112233', '121212', '123', '123123', '123321', '1234', '12345', '123456', '1234567',
+    '12345678', '123456789', '1234567890', '123456a', '123456789a', '123654', '123abc',
+    '123qwe', '131313', '147258369', '159753', '1q2w3e', '1q2w3e4r', '1q2w3e4r5t',
+    '1qaz2wsx', '1qazxsw2', '222222', '232323', '252525', '33333333', '555555', '654321',
+    '666666', '6969', '696969', '7777777', '777777', '87654321', '888888', '88888888',
+    '987654321', '999999', 'aa123456', 'aaaaaa', 'abc123', 'abcd1234', 'abcdef',
+    'access', 'admin', 'administrator', 'adobe123', 'alexander', 'amanda', 'andrew',
+    'angel', 'anthony', 'apple', 'asdasd', 'asdf', 'asdf1234', 'asdfasdf', 'asdfgh',
+    'asdfghjkl', 'ashley', 'austin', 'azerty', 'babygirl', 'bailey', 'banana', 'baseball',
+    'basketball', 'batman', 'biteme', 'blink182', 'buster', 'changeme', 'charlie',
+    'chelsea', 'chocolate', 'computer', 'cookie', 'corvette', 'dallas', 'daniel',
+    'default', 'dragon', 'eminem', 'energy', 'english', 'football', 'freedom', 'friends',
+    'fuckyou', 'gateway', 'george', 'ginger', 'google', 'hannah', 'harley', 'hello',
+    'hello123', 'hockey', 'hunter', 'hunter2', 'iloveyou', 'internet', 'jasmine',
+    'jennifer', 'jessica', 'jesus', 'jordan', 'jordan23', 'joshua', 'justin', 'killer',
+    'letmein', 'liverpool', 'login', 'lovely', 'loveme', 'maggie', 'master', 'matrix',
+    'matthew', 'medicine', 'merlin', 'michael', 'michelle', 'monkey', 'mustang',
+    'mynoob', 'naruto', 'nicole', 'ninja', 'nothing', 'passw0rd', 'password',
+    'password1', 'password12', 'password123', 'password1234', 'pepper', 'princess',
+    'purple', 'qazwsx', 'qwer1234', 'qwert', 'qwerty', 'qwerty1', 'qwerty12',
+    'qwerty123', 'qwertyuiop', 'rainbow', 'robert', 'root', 'samsung', 'secret',
+    'shadow', 'soccer', 'solo', 'starwars', 'summer', 'sunshine', 'superman', 'taylor',
+    'test', 'test123', 'thomas', 'tigger', 'trustno1', 'welcome', 'welcome1',
+    'welcome123', 'whatever', 'william', 'winter', 'zaq12wsx', 'zxcvbn', 'zxcvbnm',
+    'zxcvbnm123',
+]);
+
+/**
+ * Whether a password is on the bundled list. Case is ignored, and so are digits and
+ * symbols appended to a listed word ("Summer2024!"), since that is how users satisfy
+ * character class rules without picking a stronger password.
+ */
+export function isBreachedPassword(password: string): boolean {
+    const normalized = password.toLowerCase();
+    const base = normalized.replace(/[\d\W_]+$/, '');
+
+    return BREACHED_PASSWORDS.has(normalized) || (base.length >= 4 && BREACHED_PASSWORDS.has(base));
+}
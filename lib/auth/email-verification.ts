@@ -0,0 +1,176 @@
+import * as crypto from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { SettingsService } from '@/lib/settings';
+import { MailService } from '@/lib/mail';
+import { JWTService } from './jwt';
+
+export interface EmailVerificationPolicy {
+    enforce: boolean; // Block unverified users from routes that opt in via withAuth
+    tokenTtlHours: number;
+    resendCooldownSeconds: number;
+}
+
+export const EMAIL_VERIFICATION_POLICY_KEY = 'email_verification_policy';
+
+const DEFAULT_POLICY: EmailVerificationPolicy = {
+    enforce: false,
+    tokenTtlHours: 24,
+    resendCooldownSeconds: 60,
+};
+
+export class EmailVerificationService {
+    /**
+     * Get the verification policy from settings
+     */
+    static async getPolicy(): Promise<EmailVerificationPolicy> {
+        return SettingsService.get(EMAIL_VERIFICATION_POLICY_KEY, DEFAULT_POLICY);
+    }
+
+    /**
+     * Issue a new verification token and send it to the user
+     */
+    static async sendVerificationEmail(
+        userId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const [user] = await db
+            .select({
+                id: users.id,
+                name: users.name,
+                email: users.email,
+                emailVerified: users.emailVerified,
+                emailVerificationSentAt: users.emailVerificationSentAt,
+            })
+            .from(users)
+            .where(eq(users.id, userId))
+            .limit(1);
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (user.emailVerified) {
+            throw new Error('Email is already verified');
+        }
+
+        const policy = await this.getPolicy();
+
+        // Per-user cooldown, independent of which rate limit store is configured
+        if (user.emailVerificationSentAt) {
+            const nextAllowedAt = user.emailVerificationSentAt.getTime() + policy.resendCooldownSeconds * 1000;
+            if (nextAllowedAt > Date.now()) {
+                throw new Error(`Verification email recently sent. Retry after ${Math.ceil((nextAllowedAt - Date.now()) / 1000)} seconds`);
+            }
+        }
+
+        const token = crypto.randomBytes(32).toString('hex');
+        const expiresAt = new Date();
+        expiresAt.setHours(expiresAt.getHours() + policy.tokenTtlHours);
+
+        await db
+            .update(users)
+            .set({
+                emailVerificationToken: this.hashToken(token),
+                emailVerificationExpires: expiresAt,
+                emailVerificationSentAt: new Date(),
+                updatedAt: new Date(),
+            })
+            .where(eq(users.id, user.id));
+
+        await JWTService.createAuditLog({
+            actorId: user.id,
+            action: 'EMAIL_VERIFICATION_SENT',
+            targetResource: 'user',
+            targetId: user.id,
+            metadata: {
+                email: user.email,
+            },
+            ipAddress,
+            userAgent,
+        });
+
+        await MailService.send(user.email, 'emailVerification', {
+            name: user.name,
+            verifyUrl: `${process.env.NEXT_PUBLIC_APP_URL}/verify-email?token=${token}`,
+            expiresInHours: policy.tokenTtlHours,
+        });
+    }
+
+    /**
+     * Confirm an email address using the token from the verification link
+     */
+    static async verifyEmail(
+        token: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<string> {
+        const [user] = await db
+            .select({
+                id: users.id,
+                emailVerified: users.emailVerified,
+                emailVerificationExpires: users.emailVerificationExpires,
+            })
+            .from(users)
+            .where(eq(users.emailVerificationToken, this.hashToken(token)))
+            .limit(1);
+
+        if (!user) {
+            await JWTService.createAuditLog({
+                action: 'EMAIL_VERIFICATION_FAILED',
+                targetResource: 'user',
+                ipAddress,
+                userAgent,
+                success: false,
+                errorMessage: 'Invalid verification token',
+            });
+
+            throw new Error('Invalid or expired verification token');
+        }
+
+        if (!user.emailVerificationExpires || user.emailVerificationExpires < new Date()) {
+            await JWTService.createAuditLog({
+                actorId: user.id,
+                action: 'EMAIL_VERIFICATION_FAILED',
+                targetResource: 'user',
+                targetId: user.id,
+                ipAddress,
+                userAgent,
+                success: false,
+                errorMessage: 'Verification token expired',
+            });
+
+            throw new Error('Verification token has expired');
+        }
+
+        await db
+            .update(users)
+            .set({
+                emailVerified: true,
+                emailVerificationToken: null,
+                emailVerificationExpires: null,
+                updatedAt: new Date(),
+            })
+            .where(eq(users.id, user.id));
+
+        await JWTService.createAuditLog({
+            actorId: user.id,
+            action: 'EMAIL_VERIFIED',
+            targetResource: 'user',
+            targetId: user.id,
+            ipAddress,
+            userAgent,
+        });
+
+        return user.id;
+    }
+
+    /**
+     * Hash a verification token for storage and lookup
+     */
+    private static hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+}
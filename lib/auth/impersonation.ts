@@ -0,0 +1,205 @@
+import { eq, and, isNull, gt } from 'drizzle-orm';
+import { db } from '@/db';
+import { users, impersonationSessions } from '@/db/schema';
+import { JWTService } from './jwt';
+
+export const DEFAULT_IMPERSONATION_MINUTES = 15;
+export const MAX_IMPERSONATION_MINUTES = 60;
+
+export interface ImpersonationSession {
+    id: string;
+    impersonatorId: string;
+    targetUserId: string;
+    reason: string;
+    expiresAt: Date;
+}
+
+export class ImpersonationService {
+    /**
+     * Start acting as another user. Returns an access token for the target that also names
+     * the admin; no refresh token is issued, so the session ends when the token expires.
+     */
+    static async start(
+        impersonatorId: string,
+        targetUserId: string,
+        reason: string,
+        durationMinutes: number = DEFAULT_IMPERSONATION_MINUTES,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<{ accessToken: string; expiresIn: number; session: ImpersonationSession }> {
+        if (impersonatorId === targetUserId) {
+            throw new Error('Cannot impersonate yourself');
+        }
+
+        const [target] = await db
+            .select({
+                id: users.id,
+                email: users.email,
+                role: users.role,
+                status: users.status,
+            })
+            .from(users)
+            .where(eq(users.id, targetUserId))
+            .limit(1);
+
+        if (!target) {
+            throw new Error('User not found');
+        }
+
+        // Admin sessions could be used to reach further admin tooling
+        if (target.role === 'ADMIN') {
+            throw new Error('Administrators cannot be impersonated');
+        }
+
+        if (target.status !== 'ACTIVE') {
+            throw new Error('User is not active');
+        }
+
+        const minutes = Math.min(Math.max(Math.floor(durationMinutes), 1), MAX_IMPERSONATION_MINUTES);
+        const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+
+        // One impersonation at a time per admin
+        await db
+            .update(impersonationSessions)
+            .set({ endedAt: new Date() })
+            .where(
+                and(
+                    eq(impersonationSessions.impersonatorId, impersonatorId),
+                    isNull(impersonationSessions.endedAt)
+                )
+            );
+
+        const [session] = await db
+            .insert(impersonationSessions)
+            .values({
+                impersonatorId,
+                targetUserId,
+                reason,
+                expiresAt,
+                ipAddress,
+                userAgent,
+            })
+            .returning({
+                id: impersonationSessions.id,
+                impersonatorId: impersonationSessions.impersonatorId,
+                targetUserId: impersonationSessions.targetUserId,
+                reason: impersonationSessions.reason,
+                expiresAt: impersonationSessions.expiresAt,
+            });
+
+        const accessToken = await JWTService.generateAccessToken(
+            {
+                userId: target.id,
+                email: target.email,
+                role: target.role,
+                impersonatorId,
+                impersonationId: session.id,
+            },
+            minutes * 60
+        );
+
+        await JWTService.createAuditLog({
+            actorId: impersonatorId,
+            action: 'IMPERSONATION_STARTED',
+            targetResource: 'user',
+            targetId: targetUserId,
+            metadata: {
+                impersonationId: session.id,
+                reason,
+                expiresAt: expiresAt.toISOString(),
+            },
+            ipAddress,
+            userAgent,
+        });
+
+        return {
+            accessToken,
+            expiresIn: minutes * 60,
+            session,
+        };
+    }
+
+    /**
+     * Look up a session that has not ended or expired and whose admin is still an active admin
+     */
+    static async getActiveSession(impersonationId: string): Promise<ImpersonationSession | null> {
+        const [session] = await db
+            .select({
+                id: impersonationSessions.id,
+                impersonatorId: impersonationSessions.impersonatorId,
+                targetUserId: impersonationSessions.targetUserId,
+                reason: impersonationSessions.reason,
+                expiresAt: impersonationSessions.expiresAt,
+            })
+            .from(impersonationSessions)
+            .innerJoin(users, eq(users.id, impersonationSessions.impersonatorId))
+            .where(
+                and(
+                    eq(impersonationSessions.id, impersonationId),
+                    isNull(impersonationSessions.endedAt),
+                    gt(impersonationSessions.expiresAt, new Date()),
+                    eq(users.role, 'ADMIN'),
+                    eq(users.status, 'ACTIVE')
+                )
+            )
+            .limit(1);
+
+        return session ?? null;
+    }
+
+    /**
+     * End a session before its token expires
+     */
+    static async end(
+        session: ImpersonationSession,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        await db
+            .update(impersonationSessions)
+            .set({ endedAt: new Date() })
+            .where(
+                and(
+                    eq(impersonationSessions.id, session.id),
+                    isNull(impersonationSessions.endedAt)
+                )
+            );
+
+        await JWTService.createAuditLog({
+            actorId: session.impersonatorId,
+            action: 'IMPERSONATION_ENDED',
+            targetResource: 'user',
+            targetId: session.targetUserId,
+            metadata: {
+                impersonationId: session.id,
+            },
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Attribute a request made under impersonation to both the user and the admin
+     */
+    static async recordRequest(
+        session: ImpersonationSession,
+        request: { method: string; path: string; blocked: boolean },
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        await JWTService.createAuditLog({
+            actorId: session.targetUserId,
+            impersonatorId: session.impersonatorId,
+            action: request.blocked ? 'IMPERSONATED_REQUEST_BLOCKED' : 'IMPERSONATED_REQUEST',
+            targetResource: 'request',
+            metadata: {
+                impersonationId: session.id,
+                method: request.method,
+                path: request.path,
+            },
+            ipAddress,
+            userAgent,
+            success: !request.blocked,
+        });
+    }
+}
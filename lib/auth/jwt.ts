@@ -1,17 +1,58 @@
+import * as crypto from 'crypto';
 import jwt from 'jsonwebtoken';
-import { eq, and, lt } from 'drizzle-orm';
+import { eq, and, lt, ne } from 'drizzle-orm';
 import { db } from '@/db';
-import { users, refreshTokens, auditLogs } from '@/db/schema';
+import { users, refreshTokens, notifications } from '@/db/schema';
+import { AuditChainService, AuditLogInput } from '@/lib/audit/chain';
+import { SigningKeyService } from './signing-keys';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-change-in-production';
+// Shared secrets that signed tokens before signing keys existed. Tokens without a kid are only
+// accepted while these are set; remove them once those tokens have expired (7 days).
+const LEGACY_JWT_SECRET = process.env.JWT_SECRET;
+const LEGACY_JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET;
 const JWT_EXPIRES_IN = '15m'; // Access token expires in 15 minutes
 const JWT_REFRESH_EXPIRES_IN = '7d'; // Refresh token expires in 7 days
+const MFA_CHALLENGE_EXPIRES_IN = '5m'; // Second factor must be provided within 5 minutes
+const PASSWORD_CHANGE_EXPIRES_IN = '10m'; // Expired password must be replaced within 10 minutes
+const LOGIN_CHALLENGE_EXPIRES_IN = '10m'; // Emailed sign-in code must be entered within 10 minutes
+const REAUTHENTICATED_EXPIRES_IN = 5 * 60; // Step-up access tokens last 5 minutes, then refresh as usual
+const ROTATION_GRACE_PERIOD_MS = 30 * 1000; // Tabs refreshing the same token at once all get its successor
+
+type TokenTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export interface JWTPayload {
     userId: string;
     email: string;
     role: string;
+    // Set on tokens an admin obtained through impersonation (see lib/auth/impersonation.ts)
+    impersonatorId?: string;
+    impersonationId?: string;
+    // When the user last proved their credentials, in seconds since epoch (see withRecentAuth)
+    authTime?: number;
+    iat?: number;
+    exp?: number;
+}
+
+export interface MfaChallengePayload {
+    userId: string;
+    type: 'mfa_pending';
+    rememberMe: boolean;
+    iat?: number;
+    exp?: number;
+}
+
+export interface PasswordChangeChallengePayload {
+    userId: string;
+    type: 'password_change';
+    iat?: number;
+    exp?: number;
+}
+
+export interface LoginChallengePayload {
+    userId: string;
+    challengeId: string;
+    type: 'login_challenge';
+    rememberMe: boolean;
     iat?: number;
     exp?: number;
 }
@@ -26,34 +67,51 @@ export class JWTService {
     /**
      * Generate an access token
      */
-    static generateAccessToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string {
-        return jwt.sign(payload, JWT_SECRET, {
-            expiresIn: JWT_EXPIRES_IN,
+    static async generateAccessToken(
+        payload: Omit<JWTPayload, 'iat' | 'exp'>,
+        expiresIn: jwt.SignOptions['expiresIn'] = JWT_EXPIRES_IN
+    ): Promise<string> {
+        return this.signToken(payload, {
+            expiresIn,
             issuer: 'epop-platform',
             audience: 'epop-client',
         });
     }
 
+    /**
+     * Generate a short-lived access token for a user who just re-entered their credentials
+     */
+    static async generateReauthenticatedToken(
+        payload: Omit<JWTPayload, 'iat' | 'exp' | 'authTime'>
+    ): Promise<{ accessToken: string; expiresIn: number; authTime: number }> {
+        const authTime = Math.floor(Date.now() / 1000);
+        const accessToken = await this.generateAccessToken({ ...payload, authTime }, REAUTHENTICATED_EXPIRES_IN);
+
+        return { accessToken, expiresIn: REAUTHENTICATED_EXPIRES_IN, authTime };
+    }
+
     /**
      * Generate a refresh token
      */
-    static generateRefreshToken(): string {
-        return jwt.sign(
+    static async generateRefreshToken(): Promise<string> {
+        return this.signToken(
             { type: 'refresh' },
-            JWT_REFRESH_SECRET,
-            { expiresIn: JWT_REFRESH_EXPIRES_IN }
+            {
+                expiresIn: JWT_REFRESH_EXPIRES_IN,
+                jwtid: crypto.randomUUID(), // Keeps tokens issued in the same second unique
+            }
         );
     }
 
     /**
      * Verify an access token
      */
-    static verifyAccessToken(token: string): JWTPayload {
+    static async verifyAccessToken(token: string): Promise<JWTPayload> {
         try {
-            return jwt.verify(token, JWT_SECRET, {
+            return await this.verifyToken<JWTPayload>(token, {
                 issuer: 'epop-platform',
                 audience: 'epop-client',
-            }) as JWTPayload;
+            }, LEGACY_JWT_SECRET);
         } catch (error) {
             if (error instanceof jwt.TokenExpiredError) {
                 throw new Error('Access token expired');
@@ -68,9 +126,9 @@ export class JWTService {
     /**
      * Verify a refresh token
      */
-    static verifyRefreshToken(token: string): { type: string } {
+    static async verifyRefreshToken(token: string): Promise<{ type: string }> {
         try {
-            return jwt.verify(token, JWT_REFRESH_SECRET) as { type: string };
+            return await this.verifyToken<{ type: string }>(token, {}, LEGACY_JWT_REFRESH_SECRET);
         } catch (error) {
             if (error instanceof jwt.TokenExpiredError) {
                 throw new Error('Refresh token expired');
@@ -83,16 +141,174 @@ export class JWTService {
     }
 
     /**
-     * Create token pair for a user
+     * Generate a short-lived challenge token for a user who still has to pass MFA
+     */
+    static async generateMfaChallengeToken(userId: string, rememberMe: boolean = false): Promise<string> {
+        return this.signToken(
+            { userId, type: 'mfa_pending', rememberMe },
+            {
+                expiresIn: MFA_CHALLENGE_EXPIRES_IN,
+                issuer: 'epop-platform',
+                audience: 'epop-mfa',
+            }
+        );
+    }
+
+    /**
+     * Verify an MFA challenge token
+     */
+    static async verifyMfaChallengeToken(token: string): Promise<MfaChallengePayload> {
+        let payload: MfaChallengePayload;
+
+        try {
+            payload = await this.verifyToken<MfaChallengePayload>(token, {
+                issuer: 'epop-platform',
+                audience: 'epop-mfa',
+            }, LEGACY_JWT_SECRET);
+        } catch (error) {
+            if (error instanceof jwt.TokenExpiredError) {
+                throw new Error('MFA challenge expired');
+            }
+            throw new Error('Invalid MFA challenge');
+        }
+
+        if (payload.type !== 'mfa_pending') {
+            throw new Error('Invalid MFA challenge');
+        }
+
+        return payload;
+    }
+
+    /**
+     * Generate a short-lived challenge token for a user whose password has expired
+     */
+    static async generatePasswordChangeToken(userId: string): Promise<string> {
+        return this.signToken(
+            { userId, type: 'password_change' },
+            {
+                expiresIn: PASSWORD_CHANGE_EXPIRES_IN,
+                issuer: 'epop-platform',
+                audience: 'epop-password-change',
+            }
+        );
+    }
+
+    /**
+     * Verify a password change challenge token
+     */
+    static async verifyPasswordChangeToken(token: string): Promise<PasswordChangeChallengePayload> {
+        let payload: PasswordChangeChallengePayload;
+
+        try {
+            payload = await this.verifyToken<PasswordChangeChallengePayload>(token, {
+                issuer: 'epop-platform',
+                audience: 'epop-password-change',
+            });
+        } catch (error) {
+            if (error instanceof jwt.TokenExpiredError) {
+                throw new Error('Password change challenge expired');
+            }
+            throw new Error('Invalid password change challenge');
+        }
+
+        if (payload.type !== 'password_change') {
+            throw new Error('Invalid password change challenge');
+        }
+
+        return payload;
+    }
+
+    /**
+     * Generate a short-lived token for a suspicious sign-in awaiting its emailed code
+     */
+    static async generateLoginChallengeToken(
+        userId: string,
+        challengeId: string,
+        rememberMe: boolean = false
+    ): Promise<string> {
+        return this.signToken(
+            { userId, challengeId, type: 'login_challenge', rememberMe },
+            {
+                expiresIn: LOGIN_CHALLENGE_EXPIRES_IN,
+                issuer: 'epop-platform',
+                audience: 'epop-login-challenge',
+            }
+        );
+    }
+
+    /**
+     * Verify a login challenge token
+     */
+    static async verifyLoginChallengeToken(token: string): Promise<LoginChallengePayload> {
+        let payload: LoginChallengePayload;
+
+        try {
+            payload = await this.verifyToken<LoginChallengePayload>(token, {
+                issuer: 'epop-platform',
+                audience: 'epop-login-challenge',
+            });
+        } catch (error) {
+            if (error instanceof jwt.TokenExpiredError) {
+                throw new Error('Login challenge expired');
+            }
+            throw new Error('Invalid login challenge');
+        }
+
+        if (payload.type !== 'login_challenge') {
+            throw new Error('Invalid login challenge');
+        }
+
+        return payload;
+    }
+
+    /**
+     * Sign a token with the active signing key, naming it in the kid header
+     */
+    private static async signToken(payload: object, options: jwt.SignOptions): Promise<string> {
+        const { kid, algorithm, privateKey } = await SigningKeyService.getSigningKey();
+
+        return jwt.sign(payload, privateKey, { ...options, algorithm, keyid: kid });
+    }
+
+    /**
+     * Verify a token against the key named in its kid header. Tokens without a kid predate
+     * signing keys and are only checked against the legacy secret, when one is configured.
+     */
+    private static async verifyToken<T>(token: string, options: jwt.VerifyOptions, legacySecret?: string): Promise<T> {
+        const kid = jwt.decode(token, { complete: true })?.header.kid;
+
+        if (!kid) {
+            if (!legacySecret) {
+                throw new jwt.JsonWebTokenError('missing key id');
+            }
+
+            return jwt.verify(token, legacySecret, { ...options, algorithms: ['HS256'] }) as T;
+        }
+
+        const key = await SigningKeyService.getVerificationKey(kid);
+        if (!key) {
+            throw new jwt.JsonWebTokenError('unknown key id');
+        }
+
+        return jwt.verify(token, key.publicKey, { ...options, algorithms: [key.algorithm] }) as T;
+    }
+
+    /**
+     * Create token pair for a user. Pass the family ID when rotating so the chain can be tracked,
+     * and the transaction the rotation runs in.
      */
     static async createTokenPair(
         userId: string,
         deviceFingerprint?: string,
         ipAddress?: string,
-        userAgent?: string
+        userAgent?: string,
+        familyId?: string,
+        tx?: TokenTransaction
     ): Promise<TokenPair> {
+        const executor = tx ?? db;
+
         // Get user data for token payload
-        const [user] = await db
+        const [user] = await executor
             .select({
                 id: users.id,
                 email: users.email,
@@ -106,22 +322,24 @@ export class JWTService {
             throw new Error('User not found');
         }
 
-        // Generate tokens
-        const accessToken = this.generateAccessToken({
+        // Generate tokens. A new family is a fresh sign-in; rotations do not re-prove credentials.
+        const accessToken = await this.generateAccessToken({
             userId: user.id,
             email: user.email,
             role: user.role,
+            ...(familyId ? {} : { authTime: Math.floor(Date.now() / 1000) }),
         });
 
-        const refreshToken = this.generateRefreshToken();
+        const refreshToken = await this.generateRefreshToken();
 
         // Store refresh token in database
         const expiresAt = new Date();
         expiresAt.setDate(expiresAt.getDate() + 7); // 7 days from now
 
-        await db.insert(refreshTokens).values({
+        await executor.insert(refreshTokens).values({
             userId: user.id,
             token: refreshToken,
+            familyId,
             deviceFingerprint,
             expiresAt,
             ipAddress,
@@ -159,21 +377,16 @@ export class JWTService {
     ): Promise<TokenPair> {
         // Verify the refresh token
         try {
-            this.verifyRefreshToken(refreshToken);
-        } catch (error) {
+            await this.verifyRefreshToken(refreshToken);
+        } catch {
             throw new Error('Invalid or expired refresh token');
         }
 
-        // Find the refresh token in database
+        // Find the refresh token in database, including rotated ones
         const [tokenRecord] = await db
             .select()
             .from(refreshTokens)
-            .where(
-                and(
-                    eq(refreshTokens.token, refreshToken),
-                    eq(refreshTokens.isActive, true)
-                )
-            )
+            .where(eq(refreshTokens.token, refreshToken))
             .limit(1);
 
         if (!tokenRecord) {
@@ -191,22 +404,63 @@ export class JWTService {
             throw new Error('Refresh token expired');
         }
 
-        // Deactivate the old refresh token
-        await db
-            .update(refreshTokens)
-            .set({
-                isActive: false,
-                lastUsedAt: new Date(),
-            })
-            .where(eq(refreshTokens.id, tokenRecord.id));
+        if (!tokenRecord.isActive) {
+            return this.refreshInactiveToken(tokenRecord, ipAddress, userAgent);
+        }
 
-        // Create new token pair
-        const tokenPair = await this.createTokenPair(
-            tokenRecord.userId,
-            deviceFingerprint,
-            ipAddress,
-            userAgent
-        );
+        // Deactivate the old token and link its successor in one transaction. A concurrent rotation
+        // of the same token waits on the row lock, then finds it inactive with the successor linked.
+        const tokenPair = await db.transaction(async (tx) => {
+            const deactivated = await tx
+                .update(refreshTokens)
+                .set({
+                    isActive: false,
+                    lastUsedAt: new Date(),
+                })
+                .where(
+                    and(
+                        eq(refreshTokens.id, tokenRecord.id),
+                        eq(refreshTokens.isActive, true)
+                    )
+                );
+
+            if (deactivated.rowCount === 0) {
+                return null;
+            }
+
+            // Create new token pair in the same family
+            const created = await this.createTokenPair(
+                tokenRecord.userId,
+                deviceFingerprint,
+                ipAddress,
+                userAgent,
+                tokenRecord.familyId,
+                tx
+            );
+
+            const [newTokenRecord] = await tx
+                .select({ id: refreshTokens.id })
+                .from(refreshTokens)
+                .where(eq(refreshTokens.token, created.refreshToken))
+                .limit(1);
+
+            await tx
+                .update(refreshTokens)
+                .set({ replacedById: newTokenRecord?.id })
+                .where(eq(refreshTokens.id, tokenRecord.id));
+
+            return created;
+        });
+
+        if (!tokenPair) {
+            const [rotatedRecord] = await db
+                .select()
+                .from(refreshTokens)
+                .where(eq(refreshTokens.id, tokenRecord.id))
+                .limit(1);
+
+            return this.refreshInactiveToken(rotatedRecord ?? tokenRecord, ipAddress, userAgent);
+        }
 
         // Log refresh event
         await this.createAuditLog({
@@ -215,6 +469,7 @@ export class JWTService {
             targetResource: 'refresh_token',
             metadata: {
                 oldTokenId: tokenRecord.id,
+                familyId: tokenRecord.familyId,
                 deviceFingerprint,
             },
             ipAddress,
@@ -225,22 +480,147 @@ export class JWTService {
     }
 
     /**
-     * Revoke a refresh token
+     * Revoke every token in a refresh token family
      */
-    static async revokeRefreshToken(token: string, userId?: string): Promise<void> {
-        const query = db
+    static async revokeTokenFamily(familyId: string): Promise<void> {
+        await db
             .update(refreshTokens)
             .set({ isActive: false })
-            .where(eq(refreshTokens.token, token));
+            .where(eq(refreshTokens.familyId, familyId));
+    }
+
+    /**
+     * Answer a refresh with a token that is no longer active. Tokens ended by logout, session
+     * revocation, password change or account deletion are simply rejected. A rotated token is a
+     * replay, unless it was rotated moments ago: then another tab won the race and this request
+     * gets the same successor.
+     */
+    private static async refreshInactiveToken(
+        tokenRecord: typeof refreshTokens.$inferSelect,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<TokenPair> {
+        if (!tokenRecord.replacedById) {
+            throw new Error('Refresh token not found or inactive');
+        }
+
+        const rotatedAt = tokenRecord.lastUsedAt?.getTime() ?? 0;
+
+        if (Date.now() - rotatedAt > ROTATION_GRACE_PERIOD_MS) {
+            await this.handleTokenReuse(tokenRecord, ipAddress, userAgent);
+            throw new Error('Refresh token reuse detected');
+        }
+
+        const [successor] = await db
+            .select({ token: refreshTokens.token })
+            .from(refreshTokens)
+            .where(
+                and(
+                    eq(refreshTokens.id, tokenRecord.replacedById),
+                    eq(refreshTokens.isActive, true)
+                )
+            )
+            .limit(1);
+
+        // The successor was signed out or rotated again already
+        if (!successor) {
+            throw new Error('Refresh token not found or inactive');
+        }
+
+        const [user] = await db
+            .select({
+                id: users.id,
+                email: users.email,
+                role: users.role,
+            })
+            .from(users)
+            .where(eq(users.id, tokenRecord.userId))
+            .limit(1);
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        const accessToken = await this.generateAccessToken({
+            userId: user.id,
+            email: user.email,
+            role: user.role,
+        });
+
+        await this.createAuditLog({
+            actorId: user.id,
+            action: 'TOKEN_REFRESHED',
+            targetResource: 'refresh_token',
+            metadata: {
+                oldTokenId: tokenRecord.id,
+                familyId: tokenRecord.familyId,
+                concurrentRotation: true,
+            },
+            ipAddress,
+            userAgent,
+        });
+
+        return {
+            accessToken,
+            refreshToken: successor.token,
+            expiresIn: 15 * 60, // 15 minutes in seconds
+        };
+    }
+
+    /**
+     * React to a replayed refresh token: kill the family, audit it and warn the user
+     */
+    private static async handleTokenReuse(
+        tokenRecord: typeof refreshTokens.$inferSelect,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        await this.revokeTokenFamily(tokenRecord.familyId);
+
+        await this.createAuditLog({
+            actorId: tokenRecord.userId,
+            action: 'TOKEN_REUSE_DETECTED',
+            targetResource: 'refresh_token',
+            targetId: tokenRecord.id,
+            metadata: {
+                familyId: tokenRecord.familyId,
+                originalIpAddress: tokenRecord.ipAddress,
+                originalUserAgent: tokenRecord.userAgent,
+            },
+            ipAddress,
+            userAgent,
+            success: false,
+            errorMessage: 'Revoked refresh token presented again',
+        });
+
+        await db.insert(notifications).values({
+            userId: tokenRecord.userId,
+            type: 'SYSTEM',
+            title: 'Suspicious sign-in activity',
+            body: 'An old session token was used again, so we signed that session out. If this was not you, change your password.',
+            data: {
+                familyId: tokenRecord.familyId,
+                ipAddress,
+                userAgent,
+            },
+            priority: 'HIGH',
+        });
+    }
+
+    /**
+     * Revoke a refresh token
+     */
+    static async revokeRefreshToken(token: string, userId?: string): Promise<void> {
+        const conditions = [eq(refreshTokens.token, token)];
 
         if (userId) {
-            query.where(and(
-                eq(refreshTokens.token, token),
-                eq(refreshTokens.userId, userId)
-            ));
+            conditions.push(eq(refreshTokens.userId, userId));
         }
 
-        const result = await query;
+        const result = await db
+            .update(refreshTokens)
+            .set({ isActive: false })
+            .where(and(...conditions));
 
         if (result.rowCount === 0) {
             throw new Error('Refresh token not found');
@@ -248,13 +628,19 @@ export class JWTService {
     }
 
     /**
-     * Revoke all refresh tokens for a user
+     * Revoke all refresh tokens for a user, optionally keeping the given one
      */
-    static async revokeAllRefreshTokens(userId: string): Promise<void> {
+    static async revokeAllRefreshTokens(userId: string, exceptToken?: string): Promise<void> {
+        const conditions = [eq(refreshTokens.userId, userId)];
+
+        if (exceptToken) {
+            conditions.push(ne(refreshTokens.token, exceptToken));
+        }
+
         await db
             .update(refreshTokens)
             .set({ isActive: false })
-            .where(eq(refreshTokens.userId, userId));
+            .where(and(...conditions));
     }
 
     /**
@@ -272,39 +658,9 @@ export class JWTService {
     }
 
     /**
-     * Create an audit log entry
+     * Create an audit log entry, appended to the hash chain
      */
-    private static async createAuditLog({
-        actorId,
-        action,
-        targetResource,
-        targetId,
-        metadata,
-        ipAddress,
-        userAgent,
-        success = true,
-        errorMessage,
-    }: {
-        actorId?: string;
-        action: string;
-        targetResource?: string;
-        targetId?: string;
-        metadata?: Record<string, any>;
-        ipAddress?: string;
-        userAgent?: string;
-        success?: boolean;
-        errorMessage?: string;
-    }): Promise<void> {
-        await db.insert(auditLogs).values({
-            actorId,
-            action,
-            targetId,
-            targetResource,
-            metadata: metadata || {},
-            ipAddress,
-            userAgent,
-            success,
-            errorMessage,
-        });
+    static async createAuditLog(entry: AuditLogInput): Promise<void> {
+        await AuditChainService.append(entry);
     }
 }
\ No newline at end of file
@@ -0,0 +1,443 @@
+import * as crypto from 'crypto';
+import { eq, and, gte, desc, isNull, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { refreshTokens, auditLogs, notifications, loginChallenges } from '@/db/schema';
+import { SettingsService } from '@/lib/settings';
+import { MailService } from '@/lib/mail';
+import { JWTService } from './jwt';
+import { parseUserAgent } from './sessions';
+
+export type LoginRiskSignal = 'new_device' | 'ip_range_change' | 'impossible_travel' | 'failure_burst';
+
+// Ordered from most lenient to strictest
+export const LOGIN_RISK_ACTIONS = ['allow', 'notify', 'challenge', 'block'] as const;
+export type LoginRiskAction = typeof LOGIN_RISK_ACTIONS[number];
+
+export interface LoginRiskPolicy {
+    enabled: boolean;
+    actions: Record<LoginRiskSignal, LoginRiskAction>; // What each signal triggers; the strictest one wins
+    knownDeviceDays: number; // Sessions started within this many days count as known devices and networks
+    maxTravelSpeedKmh: number; // Moving faster than this between two sign-ins is impossible travel
+    failureBurstWindowMinutes: number;
+    failureBurstAccounts: number; // Failed sign-ins to this many accounts from one IP within the window
+}
+
+export const LOGIN_RISK_POLICY_KEY = 'login_risk_policy';
+
+const DEFAULT_POLICY: LoginRiskPolicy = {
+    enabled: true,
+    actions: {
+        new_device: 'notify',
+        ip_range_change: 'notify',
+        impossible_travel: 'challenge',
+        failure_burst: 'challenge',
+    },
+    knownDeviceDays: 90,
+    maxTravelSpeedKmh: 1000,
+    failureBurstWindowMinutes: 15,
+    failureBurstAccounts: 5,
+};
+
+const SIGNAL_DESCRIPTIONS: Record<LoginRiskSignal, string> = {
+    new_device: 'Signed in from a device or browser not used on this account before',
+    ip_range_change: 'Signed in from a network not used on this account before',
+    impossible_travel: 'Signed in from a location too far from the previous sign-in to have travelled there',
+    failure_burst: 'Signed in from an address that recently failed to sign in to many accounts',
+};
+
+const CHALLENGE_EXPIRES_MINUTES = 10;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// Geo-IP is imprecise, so short distances never count as travel
+const MIN_TRAVEL_DISTANCE_KM = 300;
+
+export interface LoginLocation {
+    country?: string;
+    city?: string;
+    latitude?: number;
+    longitude?: number;
+}
+
+export interface LoginContext {
+    ipAddress: string;
+    userAgent: string;
+    location?: LoginLocation;
+}
+
+export interface LoginRiskAssessment {
+    signals: LoginRiskSignal[];
+    action: LoginRiskAction;
+}
+
+/**
+ * Read the visitor location headers added by the CDN in front of the app (Vercel or Cloudflare)
+ */
+export function getRequestLocation(headers: Headers): LoginLocation | undefined {
+    const header = (...names: string[]) => {
+        for (const name of names) {
+            const value = headers.get(name);
+            if (value) {
+                try {
+                    return decodeURIComponent(value);
+                } catch {
+                    return value;
+                }
+            }
+        }
+        return undefined;
+    };
+
+    const country = header('x-vercel-ip-country', 'cf-ipcountry');
+    const city = header('x-vercel-ip-city', 'cf-ipcity');
+    const latitude = parseFloat(header('x-vercel-ip-latitude', 'cf-iplatitude') || '');
+    const longitude = parseFloat(header('x-vercel-ip-longitude', 'cf-iplongitude') || '');
+
+    const location: LoginLocation = {
+        // Cloudflare reports XX when unknown and T1 for Tor exit nodes
+        country: country && country !== 'XX' ? country : undefined,
+        city,
+        latitude: Number.isFinite(latitude) ? latitude : undefined,
+        longitude: Number.isFinite(longitude) ? longitude : undefined,
+    };
+
+    return Object.values(location).some((value) => value !== undefined) ? location : undefined;
+}
+
+/**
+ * Browser family, OS and form factor, ignoring versions so browser updates are not new devices
+ */
+function getDeviceKey(userAgent?: string | null): string | null {
+    const device = parseUserAgent(userAgent);
+    if (device.deviceType === 'unknown') {
+        return null;
+    }
+
+    return `${device.browser.replace(/ \d+$/, '')}|${device.os}|${device.deviceType}`;
+}
+
+/**
+ * The network an address belongs to: /24 for IPv4, /48 for IPv6
+ */
+function getNetworkPrefix(ipAddress?: string | null): string | null {
+    if (!ipAddress || ipAddress === 'unknown') {
+        return null;
+    }
+
+    const address = ipAddress.replace(/^::ffff:/, '');
+
+    if (address.includes(':')) {
+        return address.split(':').slice(0, 3).join(':').toLowerCase();
+    }
+
+    return address.split('.').slice(0, 3).join('.');
+}
+
+/**
+ * Great-circle distance in kilometres
+ */
+function distanceKm(from: LoginLocation, to: LoginLocation): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(to.latitude! - from.latitude!);
+    const dLon = toRadians(to.longitude! - from.longitude!);
+    const a = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRadians(from.latitude!)) * Math.cos(toRadians(to.latitude!)) * Math.sin(dLon / 2) ** 2;
+
+    return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function hasCoordinates(location?: LoginLocation): location is LoginLocation {
+    return location?.latitude !== undefined && location.longitude !== undefined;
+}
+
+function formatLocation(location?: LoginLocation): string | undefined {
+    const parts = [location?.city, location?.country].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function formatDevice(userAgent: string): string {
+    const device = parseUserAgent(userAgent);
+    return `${device.browser} on ${device.os}`;
+}
+
+export class LoginRiskService {
+    /**
+     * Get the login risk policy from settings
+     */
+    static async getPolicy(): Promise<LoginRiskPolicy> {
+        const policy = await SettingsService.get(LOGIN_RISK_POLICY_KEY, DEFAULT_POLICY);
+
+        // Settings only merge top-level fields, so fill in signals left out of an override
+        return { ...policy, actions: { ...DEFAULT_POLICY.actions, ...policy.actions } };
+    }
+
+    /**
+     * Compare a sign-in with the user's known devices and networks and with recent sign-in activity.
+     * Call only once the password is known to be correct.
+     */
+    static async assess(userId: string, context: LoginContext): Promise<LoginRiskAssessment> {
+        const policy = await this.getPolicy();
+
+        if (!policy.enabled) {
+            return { signals: [], action: 'allow' };
+        }
+
+        const signals: LoginRiskSignal[] = [];
+
+        // Devices and networks that have held a session recently
+        const knownSince = new Date(Date.now() - policy.knownDeviceDays * 24 * 60 * 60 * 1000);
+        const sessions = await db
+            .select({ ipAddress: refreshTokens.ipAddress, userAgent: refreshTokens.userAgent })
+            .from(refreshTokens)
+            .where(
+                and(
+                    eq(refreshTokens.userId, userId),
+                    gte(refreshTokens.createdAt, knownSince)
+                )
+            );
+
+        // Nothing to compare against on a first sign-in
+        if (sessions.length > 0) {
+            const deviceKey = getDeviceKey(context.userAgent);
+            if (deviceKey && !sessions.some((session) => getDeviceKey(session.userAgent) === deviceKey)) {
+                signals.push('new_device');
+            }
+
+            const network = getNetworkPrefix(context.ipAddress);
+            if (network && !sessions.some((session) => getNetworkPrefix(session.ipAddress) === network)) {
+                signals.push('ip_range_change');
+            }
+        }
+
+        if (hasCoordinates(context.location)) {
+            const [previous] = await db
+                .select({ metadata: auditLogs.metadata, createdAt: auditLogs.createdAt })
+                .from(auditLogs)
+                .where(
+                    and(
+                        eq(auditLogs.actorId, userId),
+                        eq(auditLogs.action, 'LOGIN_SUCCESS'),
+                        sql`${auditLogs.metadata}->'location'->'latitude' is not null`
+                    )
+                )
+                .orderBy(desc(auditLogs.createdAt))
+                .limit(1);
+
+            const previousLocation = (previous?.metadata as { location?: LoginLocation } | null)?.location;
+
+            if (previous && hasCoordinates(previousLocation)) {
+                const km = distanceKm(previousLocation, context.location);
+                const hours = Math.max((Date.now() - previous.createdAt.getTime()) / (60 * 60 * 1000), 1 / 60);
+
+                if (km >= MIN_TRAVEL_DISTANCE_KM && km / hours > policy.maxTravelSpeedKmh) {
+                    signals.push('impossible_travel');
+                }
+            }
+        }
+
+        if (context.ipAddress !== 'unknown') {
+            const burstSince = new Date(Date.now() - policy.failureBurstWindowMinutes * 60 * 1000);
+
+            // Unknown emails are logged without an actor, so count them by the email tried
+            const [failures] = await db
+                .select({
+                    accounts: sql<number>`count(distinct coalesce(${auditLogs.actorId}::text, ${auditLogs.metadata}->>'email'))`.mapWith(Number),
+                })
+                .from(auditLogs)
+                .where(
+                    and(
+                        eq(auditLogs.action, 'LOGIN_FAILED'),
+                        eq(auditLogs.ipAddress, context.ipAddress),
+                        gte(auditLogs.createdAt, burstSince)
+                    )
+                );
+
+            if (failures && failures.accounts >= policy.failureBurstAccounts) {
+                signals.push('failure_burst');
+            }
+        }
+
+        const action = signals.reduce<LoginRiskAction>((strictest, signal) => {
+            const signalAction = policy.actions[signal];
+            return LOGIN_RISK_ACTIONS.indexOf(signalAction) > LOGIN_RISK_ACTIONS.indexOf(strictest)
+                ? signalAction
+                : strictest;
+        }, 'allow');
+
+        return { signals, action };
+    }
+
+    /**
+     * Audit a flagged sign-in and warn the user in the app and, unless a challenge code is
+     * being emailed anyway, by email. Delivery failures never block the sign-in.
+     */
+    static async alert(
+        user: { id: string; email: string; name: string },
+        assessment: LoginRiskAssessment,
+        context: LoginContext
+    ): Promise<void> {
+        const blocked = assessment.action === 'block';
+        const location = formatLocation(context.location);
+
+        await JWTService.createAuditLog({
+            actorId: user.id,
+            action: blocked ? 'LOGIN_BLOCKED' : 'SUSPICIOUS_LOGIN',
+            targetResource: 'user',
+            targetId: user.id,
+            metadata: {
+                signals: assessment.signals,
+                action: assessment.action,
+                location: context.location,
+            },
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+            success: !blocked,
+            errorMessage: blocked ? 'Sign-in blocked by login risk policy' : undefined,
+        });
+
+        try {
+            await db.insert(notifications).values({
+                userId: user.id,
+                type: 'SYSTEM',
+                title: blocked ? 'Sign-in blocked' : 'New sign-in to your account',
+                body: `${formatDevice(context.userAgent)} from ${location || context.ipAddress}. If this was not you, change your password.`,
+                data: {
+                    signals: assessment.signals,
+                    action: assessment.action,
+                    ipAddress: context.ipAddress,
+                    userAgent: context.userAgent,
+                },
+                priority: 'HIGH',
+                actionUrl: '/dashboard/settings',
+            });
+
+            if (assessment.action !== 'challenge') {
+                await MailService.send(user.email, 'loginAlert', {
+                    name: user.name,
+                    reasons: assessment.signals.map((signal) => SIGNAL_DESCRIPTIONS[signal]),
+                    device: formatDevice(context.userAgent),
+                    ipAddress: context.ipAddress,
+                    location,
+                    occurredAt: new Date(),
+                    blocked,
+                    securityUrl: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/settings`,
+                });
+            }
+        } catch (error) {
+            console.error('Login alert delivery error:', error);
+        }
+    }
+
+    /**
+     * Email a one-time code the user must enter to finish a flagged sign-in. Returns the challenge ID.
+     */
+    static async createChallenge(
+        user: { id: string; email: string; name: string },
+        assessment: LoginRiskAssessment,
+        context: LoginContext
+    ): Promise<string> {
+        const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+
+        // Only the latest challenge stays usable
+        await db
+            .update(loginChallenges)
+            .set({ usedAt: new Date() })
+            .where(
+                and(
+                    eq(loginChallenges.userId, user.id),
+                    isNull(loginChallenges.usedAt)
+                )
+            );
+
+        const [challenge] = await db
+            .insert(loginChallenges)
+            .values({
+                userId: user.id,
+                codeHash: this.hashCode(code),
+                signals: assessment.signals,
+                expiresAt: new Date(Date.now() + CHALLENGE_EXPIRES_MINUTES * 60 * 1000),
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent,
+            })
+            .returning({ id: loginChallenges.id });
+
+        await MailService.send(user.email, 'loginChallenge', {
+            name: user.name,
+            code,
+            expiresInMinutes: CHALLENGE_EXPIRES_MINUTES,
+            device: formatDevice(context.userAgent),
+            ipAddress: context.ipAddress,
+        });
+
+        await JWTService.createAuditLog({
+            actorId: user.id,
+            action: 'LOGIN_CHALLENGE_ISSUED',
+            targetResource: 'login_challenge',
+            targetId: challenge.id,
+            metadata: {
+                signals: assessment.signals,
+            },
+            ipAddress: context.ipAddress,
+            userAgent: context.userAgent,
+        });
+
+        return challenge.id;
+    }
+
+    /**
+     * Check an emailed code. Each challenge accepts one correct code and a few wrong ones.
+     */
+    static async verifyChallenge(
+        userId: string,
+        challengeId: string,
+        code: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<boolean> {
+        const [challenge] = await db
+            .select()
+            .from(loginChallenges)
+            .where(
+                and(
+                    eq(loginChallenges.id, challengeId),
+                    eq(loginChallenges.userId, userId)
+                )
+            )
+            .limit(1);
+
+        if (!challenge || challenge.usedAt || challenge.expiresAt <= new Date()) {
+            throw new Error('Login challenge expired');
+        }
+
+        const expected = Buffer.from(challenge.codeHash, 'hex');
+        const actual = Buffer.from(this.hashCode(code), 'hex');
+        const isValid = crypto.timingSafeEqual(expected, actual);
+        const attempts = challenge.attempts + 1;
+
+        await db
+            .update(loginChallenges)
+            .set({
+                attempts,
+                usedAt: isValid || attempts >= MAX_CHALLENGE_ATTEMPTS ? new Date() : null,
+            })
+            .where(eq(loginChallenges.id, challengeId));
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: isValid ? 'LOGIN_CHALLENGE_PASSED' : 'LOGIN_CHALLENGE_FAILED',
+            targetResource: 'login_challenge',
+            targetId: challengeId,
+            metadata: {
+                attempts,
+            },
+            ipAddress,
+            userAgent,
+            success: isValid,
+        });
+
+        return isValid;
+    }
+
+    private static hashCode(code: string): string {
+        return crypto.createHash('sha256').update(code.trim()).digest('hex');
+    }
+}
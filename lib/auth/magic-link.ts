@@ -0,0 +1,211 @@
+import * as crypto from 'crypto';
+import { eq, and, isNull } from 'drizzle-orm';
+import { db } from '@/db';
+import { users, magicLinkTokens } from '@/db/schema';
+import { SettingsService } from '@/lib/settings';
+import { MailService } from '@/lib/mail';
+import { PasswordService } from './password';
+import { JWTService } from './jwt';
+
+export interface MagicLinkPolicy {
+    enabled: boolean; // Offer passwordless sign-in links on this deployment
+    tokenTtlMinutes: number;
+}
+
+export const MAGIC_LINK_POLICY_KEY = 'magic_link_policy';
+
+// httpOnly cookie tying a link to the browser that asked for it
+export const MAGIC_LINK_BINDING_COOKIE = 'magic_link_binding';
+
+const DEFAULT_POLICY: MagicLinkPolicy = {
+    enabled: false,
+    tokenTtlMinutes: 15,
+};
+
+export class MagicLinkService {
+    /**
+     * Get the magic link policy from settings
+     */
+    static async getPolicy(): Promise<MagicLinkPolicy> {
+        return SettingsService.get(MAGIC_LINK_POLICY_KEY, DEFAULT_POLICY);
+    }
+
+    /**
+     * Email a single-use sign-in link to an active account. Always returns a browser binding to set
+     * as a cookie, so responses look the same whether or not the account exists.
+     */
+    static async requestLink(
+        email: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<{ browserBinding: string; expiresInMinutes: number }> {
+        const policy = await this.getPolicy();
+
+        if (!policy.enabled) {
+            throw new Error('Magic link sign-in is disabled');
+        }
+
+        const browserBinding = PasswordService.generateToken();
+
+        const [user] = await db
+            .select({
+                id: users.id,
+                name: users.name,
+                email: users.email,
+                status: users.status,
+            })
+            .from(users)
+            .where(eq(users.email, email.toLowerCase()))
+            .limit(1);
+
+        if (!user || user.status !== 'ACTIVE') {
+            await JWTService.createAuditLog({
+                action: 'MAGIC_LINK_REQUESTED',
+                targetResource: 'user',
+                targetId: user?.id,
+                metadata: {
+                    email: email.toLowerCase(),
+                    reason: user ? 'account_inactive' : 'unknown_user',
+                },
+                ipAddress,
+                userAgent,
+                success: false,
+            });
+
+            return { browserBinding, expiresInMinutes: policy.tokenTtlMinutes };
+        }
+
+        const token = PasswordService.generateToken();
+        const expiresAt = new Date(Date.now() + policy.tokenTtlMinutes * 60 * 1000);
+
+        // Only the latest link stays usable
+        await db
+            .update(magicLinkTokens)
+            .set({ usedAt: new Date() })
+            .where(
+                and(
+                    eq(magicLinkTokens.userId, user.id),
+                    isNull(magicLinkTokens.usedAt)
+                )
+            );
+
+        const [link] = await db
+            .insert(magicLinkTokens)
+            .values({
+                userId: user.id,
+                tokenHash: PasswordService.hashToken(token),
+                browserBindingHash: PasswordService.hashToken(browserBinding),
+                expiresAt,
+                ipAddress,
+                userAgent,
+            })
+            .returning({ id: magicLinkTokens.id });
+
+        await JWTService.createAuditLog({
+            actorId: user.id,
+            action: 'MAGIC_LINK_REQUESTED',
+            targetResource: 'magic_link',
+            targetId: link.id,
+            metadata: {
+                email: user.email,
+                expiresAt: expiresAt.toISOString(),
+            },
+            ipAddress,
+            userAgent,
+        });
+
+        await MailService.send(user.email, 'magicLink', {
+            name: user.name,
+            signInUrl: `${process.env.NEXT_PUBLIC_APP_URL}/magic-link?token=${encodeURIComponent(token)}`,
+            expiresInMinutes: policy.tokenTtlMinutes,
+        });
+
+        return { browserBinding, expiresInMinutes: policy.tokenTtlMinutes };
+    }
+
+    /**
+     * Use up a sign-in link opened in the browser that requested it. Returns the user it signs in.
+     */
+    static async consumeLink(
+        token: string,
+        browserBinding: string | undefined,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<typeof users.$inferSelect> {
+        const policy = await this.getPolicy();
+
+        if (!policy.enabled) {
+            throw new Error('Magic link sign-in is disabled');
+        }
+
+        const [link] = await db
+            .select()
+            .from(magicLinkTokens)
+            .where(eq(magicLinkTokens.tokenHash, PasswordService.hashToken(token)))
+            .limit(1);
+
+        const failure = async (reason: string, message: string): Promise<never> => {
+            await JWTService.createAuditLog({
+                actorId: link?.userId,
+                action: 'MAGIC_LINK_FAILED',
+                targetResource: 'magic_link',
+                targetId: link?.id,
+                metadata: { reason },
+                ipAddress,
+                userAgent,
+                success: false,
+                errorMessage: message,
+            });
+
+            throw new Error(message);
+        };
+
+        if (!link || link.usedAt || link.expiresAt <= new Date()) {
+            return failure(link ? 'expired_or_used' : 'unknown_token', 'Invalid or expired sign-in link');
+        }
+
+        const expected = Buffer.from(link.browserBindingHash, 'hex');
+        const actual = Buffer.from(PasswordService.hashToken(browserBinding || ''), 'hex');
+
+        if (!browserBinding || !crypto.timingSafeEqual(expected, actual)) {
+            return failure('browser_mismatch', 'Sign-in link must be opened in the browser that requested it');
+        }
+
+        // The usedAt guard makes concurrent attempts lose
+        const [claimed] = await db
+            .update(magicLinkTokens)
+            .set({ usedAt: new Date() })
+            .where(
+                and(
+                    eq(magicLinkTokens.id, link.id),
+                    isNull(magicLinkTokens.usedAt)
+                )
+            )
+            .returning({ id: magicLinkTokens.id });
+
+        if (!claimed) {
+            return failure('expired_or_used', 'Invalid or expired sign-in link');
+        }
+
+        const [user] = await db
+            .select()
+            .from(users)
+            .where(eq(users.id, link.userId))
+            .limit(1);
+
+        if (!user || user.status !== 'ACTIVE') {
+            return failure('account_inactive', 'Account is not active');
+        }
+
+        await JWTService.createAuditLog({
+            actorId: user.id,
+            action: 'MAGIC_LINK_USED',
+            targetResource: 'magic_link',
+            targetId: link.id,
+            ipAddress,
+            userAgent,
+        });
+
+        return user;
+    }
+}
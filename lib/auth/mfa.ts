@@ -0,0 +1,354 @@
+import * as crypto from 'crypto';
+import { eq, and, or, lt, isNull } from 'drizzle-orm';
+import { db } from '@/db';
+import { users, mfaTotpFactors, mfaRecoveryCodes } from '@/db/schema';
+import { TOTPService } from './totp';
+import { PasswordService } from './password';
+import { JWTService } from './jwt';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface MfaVerificationInput {
+    code?: string;
+    recoveryCode?: string;
+}
+
+export class MFAService {
+    /**
+     * Check whether a user has an active TOTP factor
+     */
+    static async isMfaEnabled(userId: string): Promise<boolean> {
+        const [factor] = await db
+            .select({ isEnabled: mfaTotpFactors.isEnabled })
+            .from(mfaTotpFactors)
+            .where(eq(mfaTotpFactors.userId, userId))
+            .limit(1);
+
+        return !!factor?.isEnabled;
+    }
+
+    /**
+     * Start TOTP enrollment by generating a new (not yet enabled) secret
+     */
+    static async startEnrollment(
+        userId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<{ secret: string; otpauthUrl: string }> {
+        const [user] = await db
+            .select({ email: users.email })
+            .from(users)
+            .where(eq(users.id, userId))
+            .limit(1);
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        if (await this.isMfaEnabled(userId)) {
+            throw new Error('MFA is already enabled');
+        }
+
+        const secret = TOTPService.generateSecret();
+        const encryptedSecret = this.encryptSecret(secret);
+
+        // Replace any abandoned enrollment attempt
+        await db
+            .insert(mfaTotpFactors)
+            .values({
+                userId,
+                secret: encryptedSecret,
+                isEnabled: false,
+            })
+            .onConflictDoUpdate({
+                target: mfaTotpFactors.userId,
+                set: {
+                    secret: encryptedSecret,
+                    isEnabled: false,
+                    lastUsedStep: null,
+                    enabledAt: null,
+                    updatedAt: new Date(),
+                },
+            });
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'MFA_ENROLLMENT_STARTED',
+            targetResource: 'user',
+            targetId: userId,
+            ipAddress,
+            userAgent,
+        });
+
+        return {
+            secret,
+            otpauthUrl: TOTPService.buildOtpauthUrl(secret, user.email),
+        };
+    }
+
+    /**
+     * Confirm enrollment with a code from the authenticator app.
+     * Returns the plain-text recovery codes, which are only shown once.
+     */
+    static async activate(
+        userId: string,
+        code: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<string[]> {
+        const [factor] = await db
+            .select()
+            .from(mfaTotpFactors)
+            .where(eq(mfaTotpFactors.userId, userId))
+            .limit(1);
+
+        if (!factor) {
+            throw new Error('MFA enrollment not started');
+        }
+
+        if (factor.isEnabled) {
+            throw new Error('MFA is already enabled');
+        }
+
+        const step = TOTPService.verifyCode(this.decryptSecret(factor.secret), code);
+
+        if (step === null) {
+            await JWTService.createAuditLog({
+                actorId: userId,
+                action: 'MFA_ENROLLMENT_FAILED',
+                targetResource: 'user',
+                targetId: userId,
+                ipAddress,
+                userAgent,
+                success: false,
+                errorMessage: 'Invalid verification code',
+            });
+
+            throw new Error('Invalid verification code');
+        }
+
+        await db
+            .update(mfaTotpFactors)
+            .set({
+                isEnabled: true,
+                lastUsedStep: step,
+                enabledAt: new Date(),
+                updatedAt: new Date(),
+            })
+            .where(eq(mfaTotpFactors.id, factor.id));
+
+        const recoveryCodes = await this.generateRecoveryCodes(userId);
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'MFA_ENABLED',
+            targetResource: 'user',
+            targetId: userId,
+            metadata: {
+                method: 'TOTP',
+                recoveryCodes: recoveryCodes.length,
+            },
+            ipAddress,
+            userAgent,
+        });
+
+        return recoveryCodes;
+    }
+
+    /**
+     * Verify the second factor during login, using either a TOTP code or a recovery code
+     */
+    static async verifyLogin(
+        userId: string,
+        { code, recoveryCode }: MfaVerificationInput,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<boolean> {
+        const [factor] = await db
+            .select()
+            .from(mfaTotpFactors)
+            .where(
+                and(
+                    eq(mfaTotpFactors.userId, userId),
+                    eq(mfaTotpFactors.isEnabled, true)
+                )
+            )
+            .limit(1);
+
+        if (!factor) {
+            throw new Error('MFA is not enabled');
+        }
+
+        let method: 'TOTP' | 'RECOVERY_CODE' = 'TOTP';
+        let isValid = false;
+
+        if (code) {
+            const step = TOTPService.verifyCode(this.decryptSecret(factor.secret), code);
+
+            // Reject codes from a time step that has already been accepted. Checked in the update
+            // itself, so two requests racing with the same code cannot both get through.
+            if (step !== null) {
+                const accepted = await db
+                    .update(mfaTotpFactors)
+                    .set({ lastUsedStep: step, updatedAt: new Date() })
+                    .where(
+                        and(
+                            eq(mfaTotpFactors.id, factor.id),
+                            or(
+                                isNull(mfaTotpFactors.lastUsedStep),
+                                lt(mfaTotpFactors.lastUsedStep, step)
+                            )
+                        )
+                    );
+
+                isValid = accepted.rowCount !== 0;
+            }
+        } else if (recoveryCode) {
+            method = 'RECOVERY_CODE';
+            isValid = await this.consumeRecoveryCode(userId, recoveryCode);
+        }
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: isValid ? 'MFA_VERIFIED' : 'MFA_VERIFY_FAILED',
+            targetResource: 'user',
+            targetId: userId,
+            metadata: { method },
+            ipAddress,
+            userAgent,
+            success: isValid,
+            errorMessage: isValid ? undefined : 'Invalid second factor',
+        });
+
+        return isValid;
+    }
+
+    /**
+     * Disable MFA after re-checking both the password and a current code
+     */
+    static async disable(
+        userId: string,
+        password: string,
+        verification: MfaVerificationInput,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const [user] = await db
+            .select({ passwordHash: users.passwordHash })
+            .from(users)
+            .where(eq(users.id, userId))
+            .limit(1);
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        const isPasswordValid = await PasswordService.verifyPassword(password, user.passwordHash);
+        if (!isPasswordValid) {
+            throw new Error('Current password is incorrect');
+        }
+
+        const isFactorValid = await this.verifyLogin(userId, verification, ipAddress, userAgent);
+        if (!isFactorValid) {
+            throw new Error('Invalid verification code');
+        }
+
+        await db.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+        await db.delete(mfaTotpFactors).where(eq(mfaTotpFactors.userId, userId));
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'MFA_DISABLED',
+            targetResource: 'user',
+            targetId: userId,
+            metadata: { method: 'TOTP' },
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Replace all recovery codes for a user and return the new plain-text codes
+     */
+    private static async generateRecoveryCodes(userId: string): Promise<string[]> {
+        const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+            const raw = crypto.randomBytes(5).toString('hex');
+            return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+        });
+
+        await db.delete(mfaRecoveryCodes).where(eq(mfaRecoveryCodes.userId, userId));
+        await db.insert(mfaRecoveryCodes).values(
+            codes.map((code) => ({
+                userId,
+                codeHash: this.hashRecoveryCode(code),
+            }))
+        );
+
+        return codes;
+    }
+
+    /**
+     * Mark a recovery code as used if it is valid and unused
+     */
+    private static async consumeRecoveryCode(userId: string, recoveryCode: string): Promise<boolean> {
+        const result = await db
+            .update(mfaRecoveryCodes)
+            .set({ usedAt: new Date() })
+            .where(
+                and(
+                    eq(mfaRecoveryCodes.userId, userId),
+                    eq(mfaRecoveryCodes.codeHash, this.hashRecoveryCode(recoveryCode)),
+                    isNull(mfaRecoveryCodes.usedAt)
+                )
+            );
+
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    /**
+     * Hash a recovery code (codes are random, so a fast hash is sufficient)
+     */
+    private static hashRecoveryCode(code: string): string {
+        const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+        return crypto.createHash('sha256').update(normalized).digest('hex');
+    }
+
+    /**
+     * Encrypt a TOTP secret for storage (iv:authTag:ciphertext)
+     */
+    private static encryptSecret(secret: string): string {
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+        const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+        return `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted.toString('hex')}`;
+    }
+
+    /**
+     * Decrypt a stored TOTP secret
+     */
+    private static decryptSecret(stored: string): string {
+        const [iv, authTag, encrypted] = stored.split(':');
+        const decipher = crypto.createDecipheriv(
+            'aes-256-gcm',
+            this.getEncryptionKey(),
+            Buffer.from(iv, 'hex')
+        );
+        decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+
+        return Buffer.concat([
+            decipher.update(Buffer.from(encrypted, 'hex')),
+            decipher.final(),
+        ]).toString('utf8');
+    }
+
+    private static getEncryptionKey(): Buffer {
+        const secret = process.env.MFA_ENCRYPTION_KEY;
+
+        if (!secret) {
+            throw new Error('MFA_ENCRYPTION_KEY is not set');
+        }
+
+        return crypto.createHash('sha256').update(secret).digest();
+    }
+}
@@ -1,8 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { eq } from 'drizzle-orm';
 import { db } from '@/db';
 import { users } from '@/db/schema';
-import { JWTService, JWTPayload } from './jwt';
+import { JWTService } from './jwt';
+import { EmailVerificationService } from './email-verification';
+import { PersonalAccessTokenService, ApiScope } from './access-tokens';
+import { ImpersonationService, ImpersonationSession } from './impersonation';
+import { MFAService } from './mfa';
+import { RateLimiter, RateLimitKey, RateLimitPolicyDefaults, RateLimitResult } from '@/lib/rate-limit';
+import { PermissionService, ResourceType, ResourceAction } from '@/lib/permissions';
+import { getAllowedOrigins } from '@/lib/security';
+
+export interface RouteContext {
+    params: Promise<Record<string, string>>;
+}
+
+export type RouteHandler<T extends NextRequest = NextRequest> = (
+    req: T,
+    context?: RouteContext
+) => Promise<NextResponse>;
 
 export interface AuthenticatedRequest extends NextRequest {
     user?: {
@@ -10,15 +27,37 @@ export interface AuthenticatedRequest extends NextRequest {
         email: string;
         role: string;
     };
+    // Set when the request authenticated with a personal access token instead of a session JWT
+    accessToken?: {
+        id: string;
+        scopes: ApiScope[];
+    };
+    // Set when an admin is acting as user through an impersonation token
+    impersonation?: ImpersonationSession;
+    // When the session last proved its credentials (seconds since epoch), for step-up checks
+    authTime?: number;
+}
+
+// How recent a credential check must be for withRecentAuth by default
+export const RECENT_AUTH_MAX_AGE_SECONDS = 5 * 60;
+
+export interface AuthOptions {
+    // Reject users whose email is unverified while the email verification policy is enforced
+    requireVerifiedEmail?: boolean;
+    // Scopes a personal access token needs. Routes that declare none only accept session JWTs.
+    scopes?: ApiScope[];
+    // Refuse impersonation tokens (password, MFA, passkey, session and token management)
+    blockImpersonation?: boolean;
 }
 
 /**
  * Authentication middleware for API routes
  */
-export async function withAuth(
-    handler: (req: AuthenticatedRequest, context?: any) => Promise<NextResponse>
-) {
-    return async (req: NextRequest, context?: any): Promise<NextResponse> => {
+export function withAuth(
+    handler: RouteHandler<AuthenticatedRequest>,
+    options: AuthOptions = {}
+): RouteHandler {
+    return async (req: NextRequest, context?: RouteContext): Promise<NextResponse> => {
         try {
             const token = extractTokenFromRequest(req);
 
@@ -29,7 +68,63 @@ export async function withAuth(
                 );
             }
 
-            const payload = JWTService.verifyAccessToken(token);
+            let userId: string;
+            let accessToken: AuthenticatedRequest['accessToken'];
+            let impersonation: ImpersonationSession | undefined;
+            let authTime: number | undefined;
+
+            if (PersonalAccessTokenService.isPersonalAccessToken(token)) {
+                if (!options.scopes) {
+                    return NextResponse.json(
+                        { error: 'Personal access tokens are not accepted for this endpoint', code: 'ACCESS_TOKEN_NOT_ALLOWED' },
+                        { status: 403 }
+                    );
+                }
+
+                const verified = await PersonalAccessTokenService.verifyToken(token, getRequestMetadata(req).ipAddress);
+
+                if (!options.scopes.every((scope) => verified.scopes.includes(scope))) {
+                    return NextResponse.json(
+                        { error: 'Insufficient token scope', code: 'INSUFFICIENT_SCOPE', requiredScopes: options.scopes },
+                        { status: 403 }
+                    );
+                }
+
+                userId = verified.userId;
+                accessToken = { id: verified.tokenId, scopes: verified.scopes };
+            } else {
+                const payload = await JWTService.verifyAccessToken(token);
+                userId = payload.userId;
+                authTime = payload.authTime;
+
+                if (payload.impersonationId) {
+                    const session = await ImpersonationService.getActiveSession(payload.impersonationId);
+
+                    if (!session || session.targetUserId !== userId) {
+                        return NextResponse.json(
+                            { error: 'Impersonation session has ended', code: 'IMPERSONATION_ENDED' },
+                            { status: 401 }
+                        );
+                    }
+
+                    const { ipAddress, userAgent } = getRequestMetadata(req);
+                    await ImpersonationService.recordRequest(
+                        session,
+                        { method: req.method, path: req.nextUrl.pathname, blocked: !!options.blockImpersonation },
+                        ipAddress,
+                        userAgent
+                    );
+
+                    if (options.blockImpersonation) {
+                        return NextResponse.json(
+                            { error: 'Not allowed while impersonating a user', code: 'IMPERSONATION_NOT_ALLOWED' },
+                            { status: 403 }
+                        );
+                    }
+
+                    impersonation = session;
+                }
+            }
 
             // Verify user exists and is active
             const [user] = await db
@@ -38,9 +133,10 @@ export async function withAuth(
                     email: users.email,
                     role: users.role,
                     status: users.status,
+                    emailVerified: users.emailVerified,
                 })
                 .from(users)
-                .where(eq(users.id, payload.userId))
+                .where(eq(users.id, userId))
                 .limit(1);
 
             if (!user) {
@@ -57,12 +153,26 @@ export async function withAuth(
                 );
             }
 
+            if (options.requireVerifiedEmail && !user.emailVerified) {
+                const policy = await EmailVerificationService.getPolicy();
+
+                if (policy.enforce) {
+                    return NextResponse.json(
+                        { error: 'Email verification required', code: 'EMAIL_NOT_VERIFIED' },
+                        { status: 403 }
+                    );
+                }
+            }
+
             // Add user info to request
             (req as AuthenticatedRequest).user = {
                 id: user.id,
                 email: user.email,
                 role: user.role,
             };
+            (req as AuthenticatedRequest).accessToken = accessToken;
+            (req as AuthenticatedRequest).impersonation = impersonation;
+            (req as AuthenticatedRequest).authTime = authTime;
 
             return await handler(req as AuthenticatedRequest, context);
         } catch (error) {
@@ -95,8 +205,8 @@ export async function withAuth(
 /**
  * Admin role middleware
  */
-export function withAdmin(handler: (req: AuthenticatedRequest, context?: any) => Promise<NextResponse>) {
-    return withAuth(async (req: AuthenticatedRequest, context?: any): Promise<NextResponse> => {
+export function withAdmin(handler: RouteHandler<AuthenticatedRequest>, options: AuthOptions = {}): RouteHandler {
+    return withAuth(async (req: AuthenticatedRequest, context?: RouteContext): Promise<NextResponse> => {
         if (!req.user || req.user.role !== 'ADMIN') {
             return NextResponse.json(
                 { error: 'Admin access required' },
@@ -105,11 +215,43 @@ export function withAdmin(handler: (req: AuthenticatedRequest, context?: any) =>
         }
 
         return await handler(req, context);
-    });
+    }, options);
 }
 
 /**
- * Extract JWT token from request
+ * Step-up middleware for sensitive operations, used inside withAuth. Requires the session to have
+ * signed in or re-authenticated (POST /api/auth/reauthenticate) within maxAgeSeconds. Personal
+ * access tokens and impersonation tokens never qualify.
+ */
+export function withRecentAuth(maxAgeSeconds: number = RECENT_AUTH_MAX_AGE_SECONDS) {
+    return (handler: RouteHandler<AuthenticatedRequest>): RouteHandler<AuthenticatedRequest> => {
+        return async (req: AuthenticatedRequest, context?: RouteContext): Promise<NextResponse> => {
+            const now = Math.floor(Date.now() / 1000);
+
+            if (!req.authTime || req.accessToken || req.impersonation || now - req.authTime > maxAgeSeconds) {
+                const methods = ['password'];
+                if (req.user && await MFAService.isMfaEnabled(req.user.id)) {
+                    methods.push('totp');
+                }
+
+                return NextResponse.json(
+                    {
+                        error: 'Please confirm your identity to continue',
+                        code: 'REAUTHENTICATION_REQUIRED',
+                        maxAge: maxAgeSeconds,
+                        methods,
+                    },
+                    { status: 403 }
+                );
+            }
+
+            return await handler(req, context);
+        };
+    };
+}
+
+/**
+ * Extract bearer token (JWT or personal access token) from request
  */
 function extractTokenFromRequest(req: NextRequest): string | null {
     // Try Authorization header first
@@ -127,19 +269,34 @@ function extractTokenFromRequest(req: NextRequest): string | null {
     return null;
 }
 
+/**
+ * Get client IP address and user agent from request
+ */
+export function getRequestMetadata(req: NextRequest): {
+    ipAddress: string;
+    userAgent: string;
+} {
+    const forwarded = req.headers.get('x-forwarded-for');
+
+    return {
+        ipAddress: forwarded ? forwarded.split(',')[0].trim() : req.headers.get('x-real-ip') || 'unknown',
+        userAgent: req.headers.get('user-agent') || 'unknown',
+    };
+}
+
 /**
  * Get user from request (for use in API routes)
  */
-export function getUserFromRequest(req: NextRequest): {
+export async function getUserFromRequest(req: NextRequest): Promise<{
     id: string;
     email: string;
     role: string;
-} | null {
+} | null> {
     try {
         const token = extractTokenFromRequest(req);
         if (!token) return null;
 
-        const payload = JWTService.verifyAccessToken(token);
+        const payload = await JWTService.verifyAccessToken(token);
         return {
             id: payload.userId,
             email: payload.email,
@@ -151,135 +308,117 @@ export function getUserFromRequest(req: NextRequest): {
 }
 
 /**
- * Check if user has permission for a resource
+ * Resolves the ID of the resource a request acts on. Read the body through req.clone()
+ * so the handler can still consume it.
  */
-export async function checkResourcePermission(
-    userId: string,
-    resourceType: string,
-    resourceId: string,
-    action: string = 'read'
-): Promise<boolean> {
-    // This is a simplified permission check
-    // In a real implementation, you might want to check:
-    // - Project membership
-    // - Conversation membership
-    // - File ownership
-    // - Division membership
-    // etc.
+export type ResourceIdResolver = (
+    req: AuthenticatedRequest,
+    context?: RouteContext
+) => Promise<string | null | undefined> | string | null | undefined;
 
-    try {
-        switch (resourceType) {
-            case 'project':
-                // Check if user is a member of the project
-                const { projectMembers } = await import('@/db/schema');
-                const [membership] = await db
-                    .select()
-                    .from(projectMembers)
-                    .where(
-                        eq(projectMembers.projectId, resourceId)
-                    )
-                    .limit(1);
-
-                return !!membership;
-
-            case 'conversation':
-                // Check if user is a member of the conversation
-                const { conversationMembers } = await import('@/db/schema');
-                const [conversation] = await db
-                    .select()
-                    .from(conversationMembers)
-                    .where(
-                        eq(conversationMembers.conversationId, resourceId)
-                    )
-                    .limit(1);
-
-                return !!conversation;
-
-            case 'user':
-                // Users can only access their own resources unless they're admin
-                const [user] = await db
-                    .select({ role: users.role })
-                    .from(users)
-                    .where(eq(users.id, userId))
-                    .limit(1);
-
-                return user?.role === 'ADMIN' || userId === resourceId;
-
-            default:
-                return false;
-        }
-    } catch (error) {
-        console.error('Permission check error:', error);
-        return false;
-    }
+/**
+ * Resolve the resource ID from a dynamic route segment, e.g. [id]
+ */
+export function resourceIdFromParam(name: string = 'id'): ResourceIdResolver {
+    return async (_req, context) => (context ? (await context.params)[name] : undefined);
 }
 
 /**
- * Rate limiting middleware
+ * Permission middleware. Authenticates the request, then checks the action against the policy
+ * tables in lib/permissions for the resource the resolver names.
  */
-export function withRateLimit(
-    maxRequests: number = 100,
-    windowMs: number = 15 * 60 * 1000 // 15 minutes
+export function withPermission<R extends ResourceType>(
+    resourceType: R,
+    action: ResourceAction<R>,
+    idResolver: ResourceIdResolver,
+    options: AuthOptions = {}
 ) {
-    const requests = new Map<string, { count: number; resetTime: number }>();
+    return (handler: RouteHandler<AuthenticatedRequest>): RouteHandler => {
+        return withAuth(async (req: AuthenticatedRequest, context?: RouteContext): Promise<NextResponse> => {
+            const resourceId = await idResolver(req, context);
 
-    return (handler: (req: NextRequest, context?: any) => Promise<NextResponse>) => {
-        return async (req: NextRequest, context?: any): Promise<NextResponse> => {
-            const clientId = getClientIdentifier(req);
-            const now = Date.now();
+            if (!resourceId) {
+                return NextResponse.json(
+                    { error: 'Resource ID is required' },
+                    { status: 400 }
+                );
+            }
 
-            // Clean up expired entries
-            for (const [key, value] of requests.entries()) {
-                if (value.resetTime < now) {
-                    requests.delete(key);
-                }
+            // Every resource is keyed by UUID; anything else would make the lookup itself fail
+            if (!z.string().uuid().safeParse(resourceId).success) {
+                return NextResponse.json(
+                    { error: 'Invalid resource ID' },
+                    { status: 400 }
+                );
             }
 
-            // Get or create client record
-            const client = requests.get(clientId);
+            const decision = await PermissionService.check(req.user!, resourceType, action, resourceId);
 
-            if (!client) {
-                requests.set(clientId, {
-                    count: 1,
-                    resetTime: now + windowMs,
-                });
-                return await handler(req, context);
+            if (decision === 'not_found') {
+                return NextResponse.json(
+                    { error: 'Resource not found' },
+                    { status: 404 }
+                );
             }
 
-            // Reset if window expired
-            if (client.resetTime < now) {
-                client.count = 1;
-                client.resetTime = now + windowMs;
+            if (decision === 'forbidden') {
+                return NextResponse.json(
+                    { error: 'Permission denied', code: 'PERMISSION_DENIED' },
+                    { status: 403 }
+                );
+            }
+
+            return await handler(req, context);
+        }, options);
+    };
+}
+
+/**
+ * Rate limiting middleware. `name` identifies the policy in the rate_limit_policies setting,
+ * which can override the defaults given here without a deploy.
+ */
+export function withRateLimit(name: string, defaults: RateLimitPolicyDefaults) {
+    return (handler: RouteHandler): RouteHandler => {
+        return async (req: NextRequest, context?: RouteContext): Promise<NextResponse> => {
+            let result: RateLimitResult;
+
+            try {
+                const policy = await RateLimiter.getPolicy(name, defaults);
+                const identifier = await getClientIdentifier(req, policy.key);
+
+                result = await RateLimiter.consume(name, policy, identifier);
+            } catch (error) {
+                // Fail open so that a store outage doesn't take the API down with it
+                console.error('Rate limiter error:', error);
                 return await handler(req, context);
             }
 
-            // Check rate limit
-            if (client.count >= maxRequests) {
+            if (!result.allowed) {
+                const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+
                 return NextResponse.json(
                     {
                         error: 'Too many requests',
-                        retryAfter: Math.ceil((client.resetTime - now) / 1000)
+                        retryAfter
                     },
                     {
                         status: 429,
                         headers: {
-                            'Retry-After': Math.ceil((client.resetTime - now) / 1000).toString(),
-                            'X-RateLimit-Limit': maxRequests.toString(),
+                            'Retry-After': retryAfter.toString(),
+                            'X-RateLimit-Limit': result.limit.toString(),
                             'X-RateLimit-Remaining': '0',
-                            'X-RateLimit-Reset': client.resetTime.toString(),
+                            'X-RateLimit-Reset': result.resetAt.toString(),
                         }
                     }
                 );
             }
 
-            client.count++;
-
             const response = await handler(req, context);
 
             // Add rate limit headers
-            response.headers.set('X-RateLimit-Limit', maxRequests.toString());
-            response.headers.set('X-RateLimit-Remaining', (maxRequests - client.count).toString());
-            response.headers.set('X-RateLimit-Reset', client.resetTime.toString());
+            response.headers.set('X-RateLimit-Limit', result.limit.toString());
+            response.headers.set('X-RateLimit-Remaining', result.remaining.toString());
+            response.headers.set('X-RateLimit-Reset', result.resetAt.toString());
 
             return response;
         };
@@ -289,29 +428,34 @@ export function withRateLimit(
 /**
  * Get client identifier for rate limiting
  */
-function getClientIdentifier(req: NextRequest): string {
-    // Try to get user ID if authenticated
-    const user = getUserFromRequest(req);
-    if (user) {
-        return `user:${user.id}`;
+async function getClientIdentifier(req: NextRequest, key: RateLimitKey): Promise<string> {
+    const { ipAddress } = getRequestMetadata(req);
+
+    if (key === 'email') {
+        // Read a clone so the handler can still consume the body
+        const body = await req.clone().json().catch(() => null);
+        if (body && typeof body.email === 'string') {
+            return `email:${body.email.trim().toLowerCase()}`;
+        }
     }
 
-    // Fall back to IP address
-    const forwarded = req.headers.get('x-forwarded-for');
-    const ip = forwarded ? forwarded.split(',')[0].trim() : req.ip;
-    return `ip:${ip || 'unknown'}`;
+    if (key === 'user') {
+        const user = await getUserFromRequest(req);
+        if (user) {
+            return `user:${user.id}`;
+        }
+    }
+
+    return `ip:${ipAddress}`;
 }
 
 /**
- * CORS middleware
+ * CORS middleware. Allowed origins come from CORS_ALLOWED_ORIGINS (see lib/security/origins.ts).
  */
-export function withCors(handler: (req: NextRequest, context?: any) => Promise<NextResponse>) {
-    return async (req: NextRequest, context?: any): Promise<NextResponse> => {
+export function withCors(handler: RouteHandler): RouteHandler {
+    return async (req: NextRequest, context?: RouteContext): Promise<NextResponse> => {
         const origin = req.headers.get('origin');
-        const allowedOrigins = [
-            process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
-            'http://localhost:3000',
-        ];
+        const allowedOrigins = getAllowedOrigins();
 
         // Handle preflight requests
         if (req.method === 'OPTIONS') {
@@ -320,7 +464,7 @@ export function withCors(handler: (req: NextRequest, context?: any) => Promise<N
             if (origin && allowedOrigins.includes(origin)) {
                 response.headers.set('Access-Control-Allow-Origin', origin);
                 response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-                response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
+                response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With, X-CSRF-Token');
                 response.headers.set('Access-Control-Allow-Credentials', 'true');
             }
 
@@ -0,0 +1,342 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { exportJWK, generateKeyPair, SignJWT } from 'jose';
+import { and, eq } from 'drizzle-orm';
+import { createTestDatabase } from '@/db/testing';
+import { db } from '@/db';
+import { auditLogs, divisionMembers, divisions, userIdentities, users } from '@/db/schema';
+import { SettingsService } from '@/lib/settings';
+import { OIDC_PROVIDER_KEY, OIDCClaims, OIDCProviderConfig, OIDCService } from './oidc';
+
+vi.mock('@/db', async () => ({ ...await import('@/db/schema'), db: await createTestDatabase() }));
+
+const CLIENT_ID = 'epop';
+const CLIENT_SECRET = 'client-secret';
+const REDIRECT_URI = 'http://localhost:3000/api/auth/oidc/callback';
+
+/**
+ * Identity provider on a local port: discovery, JWKS and a token endpoint that enforces the
+ * client secret, redirect URI and PKCE verifier. Logins skip the browser: authorize() stands in
+ * for the user signing in and returns the code the IdP would redirect back with.
+ */
+class MockIdentityProvider {
+    issuer = '';
+    private server = http.createServer((req, res) => this.handle(req, res));
+    private keys?: Awaited<ReturnType<typeof generateKeyPair>>;
+    private codes = new Map<string, { codeChallenge: string; nonce: string; claims: Partial<OIDCClaims> }>();
+
+    async start(): Promise<void> {
+        this.keys = await generateKeyPair('ES256');
+        await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+        this.issuer = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    async stop(): Promise<void> {
+        await new Promise((resolve) => this.server.close(resolve));
+    }
+
+    authorize(authorizationUrl: string, claims: Partial<OIDCClaims>): { code: string; state: string } {
+        const params = new URL(authorizationUrl).searchParams;
+        expect(params.get('client_id')).toBe(CLIENT_ID);
+        expect(params.get('code_challenge_method')).toBe('S256');
+
+        const code = crypto.randomBytes(16).toString('base64url');
+        this.codes.set(code, {
+            codeChallenge: params.get('code_challenge')!,
+            nonce: params.get('nonce')!,
+            claims,
+        });
+
+        return { code, state: params.get('state')! };
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const send = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+
+        switch (req.url) {
+            case '/.well-known/openid-configuration':
+                return send(200, {
+                    issuer: this.issuer,
+                    authorization_endpoint: `${this.issuer}/authorize`,
+                    token_endpoint: `${this.issuer}/token`,
+                    jwks_uri: `${this.issuer}/jwks`,
+                });
+            case '/jwks':
+                return send(200, { keys: [{ ...await exportJWK(this.keys!.publicKey), kid: 'idp-key', alg: 'ES256' }] });
+            case '/token': {
+                let body = '';
+                for await (const chunk of req) {
+                    body += chunk;
+                }
+
+                const params = new URLSearchParams(body);
+                const expectedAuthorization = `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')}`;
+                const grant = this.codes.get(params.get('code') ?? '');
+                this.codes.delete(params.get('code') ?? '');
+
+                if (req.headers.authorization !== expectedAuthorization) {
+                    return send(401, { error: 'invalid_client' });
+                }
+
+                const verifier = params.get('code_verifier') ?? '';
+                const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+                if (!grant || params.get('redirect_uri') !== REDIRECT_URI || challenge !== grant.codeChallenge) {
+                    return send(400, { error: 'invalid_grant' });
+                }
+
+                const idToken = await new SignJWT({ ...grant.claims, nonce: grant.nonce })
+                    .setProtectedHeader({ alg: 'ES256', kid: 'idp-key' })
+                    .setIssuer(this.issuer)
+                    .setAudience(CLIENT_ID)
+                    .setSubject(grant.claims.sub!)
+                    .setIssuedAt()
+                    .setExpirationTime('5m')
+                    .sign(this.keys!.privateKey);
+
+                return send(200, { id_token: idToken, token_type: 'Bearer' });
+            }
+            default:
+                return send(404, { error: 'not_found' });
+        }
+    }
+}
+
+const idp = new MockIdentityProvider();
+
+async function configure(config: Partial<OIDCProviderConfig> = {}): Promise<void> {
+    await SettingsService.set(OIDC_PROVIDER_KEY, {
+        enabled: true,
+        issuer: idp.issuer,
+        clientId: CLIENT_ID,
+        clientSecret: CLIENT_SECRET,
+        redirectUri: REDIRECT_URI,
+        ...config,
+    });
+}
+
+/**
+ * Run a whole login: start it, sign in at the IdP and come back to the callback
+ */
+async function login(claims: Partial<OIDCClaims>) {
+    const { authorizationUrl, browserBinding } = await OIDCService.createAuthorizationUrl();
+    const { code, state } = idp.authorize(authorizationUrl, claims);
+
+    return OIDCService.handleCallback(code, state, browserBinding);
+}
+
+async function createUser(email: string, values: Partial<typeof users.$inferInsert> = {}): Promise<string> {
+    const [user] = await db
+        .insert(users)
+        .values({ email, name: 'Local User', passwordHash: 'unused', ...values })
+        .returning({ id: users.id });
+
+    return user.id;
+}
+
+function uniqueEmail(): string {
+    return `sso-${crypto.randomUUID()}@example.com`;
+}
+
+describe('OIDCService', () => {
+    beforeAll(() => idp.start());
+    afterAll(() => idp.stop());
+
+    beforeEach(() => configure());
+
+    it('provisions a user on first login and signs them in again by subject', async () => {
+        const sub = crypto.randomUUID();
+        const email = uniqueEmail();
+
+        const first = await login({ sub, email, email_verified: true, name: 'Ada' });
+        expect(first.redirectTo).toBe('/dashboard');
+
+        // The email at the IdP changed; the subject still identifies the user
+        const second = await login({ sub, email: uniqueEmail(), email_verified: true });
+        expect(second.userId).toBe(first.userId);
+
+        const [user] = await db.select().from(users).where(eq(users.id, first.userId));
+        expect(user).toMatchObject({ email, name: 'Ada', emailVerified: true, role: 'USER' });
+    });
+
+    describe('state and PKCE', () => {
+        it('rejects a callback from a browser that did not start the login', async () => {
+            const { authorizationUrl } = await OIDCService.createAuthorizationUrl();
+            const attacker = await OIDCService.createAuthorizationUrl();
+            const { code, state } = idp.authorize(authorizationUrl, { sub: crypto.randomUUID(), email: uniqueEmail() });
+
+            await expect(OIDCService.handleCallback(code, state, attacker.browserBinding))
+                .rejects.toThrow('SSO login was started in a different browser');
+            await expect(OIDCService.handleCallback(code, state, undefined))
+                .rejects.toThrow('SSO login was started in a different browser');
+        });
+
+        it('rejects an unknown or already used state', async () => {
+            const { authorizationUrl, browserBinding } = await OIDCService.createAuthorizationUrl();
+            const { code, state } = idp.authorize(authorizationUrl, { sub: crypto.randomUUID(), email: uniqueEmail() });
+            await OIDCService.handleCallback(code, state, browserBinding);
+
+            await expect(OIDCService.handleCallback(code, state, browserBinding))
+                .rejects.toThrow('Invalid or expired SSO request');
+        });
+
+        it('rejects a code issued for another login, whose PKCE verifier does not match', async () => {
+            const victim = await OIDCService.createAuthorizationUrl();
+            const attacker = await OIDCService.createAuthorizationUrl();
+            const { code } = idp.authorize(attacker.authorizationUrl, { sub: crypto.randomUUID(), email: uniqueEmail() });
+            const victimState = new URL(victim.authorizationUrl).searchParams.get('state')!;
+
+            await expect(OIDCService.handleCallback(code, victimState, victim.browserBinding))
+                .rejects.toThrow('Token exchange failed with status 400');
+        });
+
+        it('records failed logins', async () => {
+            const { authorizationUrl } = await OIDCService.createAuthorizationUrl();
+            const { code, state } = idp.authorize(authorizationUrl, { sub: crypto.randomUUID(), email: uniqueEmail() });
+            await OIDCService.handleCallback(code, state, 'ab'.repeat(32)).catch(() => {});
+
+            const failures = await db
+                .select({ errorMessage: auditLogs.errorMessage })
+                .from(auditLogs)
+                .where(eq(auditLogs.action, 'SSO_LOGIN_FAILED'));
+            expect(failures).toContainEqual({ errorMessage: 'SSO login was started in a different browser' });
+        });
+    });
+
+    describe('linking by email', () => {
+        it.each([
+            ['false', { email_verified: false }],
+            ['missing', {}],
+        ])('does not link an existing account when email_verified is %s', async (_, verification) => {
+            const email = uniqueEmail();
+            await createUser(email);
+            const sub = crypto.randomUUID();
+
+            await expect(login({ sub, email, ...verification })).rejects.toThrow('An account with this email already exists');
+
+            const identities = await db.select().from(userIdentities).where(eq(userIdentities.subject, sub));
+            expect(identities).toHaveLength(0);
+        });
+
+        it('links an existing account when the IdP verified the email', async () => {
+            const email = uniqueEmail();
+            const userId = await createUser(email);
+
+            await expect(login({ sub: crypto.randomUUID(), email: email.toUpperCase(), email_verified: true }))
+                .resolves.toMatchObject({ userId });
+        });
+
+        it('does not link when linkByEmail is off', async () => {
+            await configure({ linkByEmail: false });
+            const email = uniqueEmail();
+            await createUser(email);
+
+            await expect(login({ sub: crypto.randomUUID(), email, email_verified: true }))
+                .rejects.toThrow('An account with this email already exists');
+        });
+    });
+
+    describe('group mapping', () => {
+        let engineering: string;
+        let support: string;
+
+        beforeEach(async () => {
+            [{ id: engineering }, { id: support }] = await db
+                .insert(divisions)
+                .values([{ name: 'Engineering' }, { name: 'Support' }])
+                .returning({ id: divisions.id });
+
+            await configure({
+                adminGroups: ['platform-admins'],
+                divisionMappings: [
+                    { group: 'engineers', divisionId: engineering, role: 'MEMBER' },
+                    { group: 'eng-leads', divisionId: engineering, role: 'MANAGER' },
+                    { group: 'support', divisionId: support, role: 'VIEWER' },
+                ],
+            });
+        });
+
+        async function membershipsOf(userId: string) {
+            const rows = await db
+                .select({ divisionId: divisionMembers.divisionId, role: divisionMembers.role })
+                .from(divisionMembers)
+                .where(eq(divisionMembers.userId, userId));
+
+            return Object.fromEntries(rows.map((row) => [row.divisionId, row.role]));
+        }
+
+        async function roleOf(userId: string) {
+            const [user] = await db.select({ role: users.role }).from(users).where(eq(users.id, userId));
+            return user.role;
+        }
+
+        it('grants the admin role and the highest mapped role per division', async () => {
+            const { userId } = await login({
+                sub: crypto.randomUUID(),
+                email: uniqueEmail(),
+                groups: ['platform-admins', 'engineers', 'eng-leads', 'unmapped'],
+            });
+
+            expect(await roleOf(userId)).toBe('ADMIN');
+            expect(await membershipsOf(userId)).toEqual({ [engineering]: 'MANAGER' });
+        });
+
+        it('follows group changes on later logins and audits each grant and revoke', async () => {
+            const sub = crypto.randomUUID();
+            const email = uniqueEmail();
+
+            const { userId } = await login({ sub, email, groups: ['platform-admins', 'engineers'] });
+            await login({ sub, email, groups: ['support'] });
+
+            expect(await roleOf(userId)).toBe('USER');
+            expect(await membershipsOf(userId)).toEqual({ [support]: 'VIEWER' });
+
+            const entries = await db
+                .select({ action: auditLogs.action, metadata: auditLogs.metadata })
+                .from(auditLogs)
+                .where(and(eq(auditLogs.targetId, userId), eq(auditLogs.actorId, userId)))
+                .orderBy(auditLogs.sequence);
+            const changes = entries
+                .filter((entry) => ['USER_ROLE_CHANGED', 'DIVISION_ROLE_GRANTED', 'DIVISION_ROLE_REVOKED'].includes(entry.action))
+                .map(({ action, metadata }) => {
+                    const { previousRole, role, divisionId } = metadata as Record<string, unknown>;
+                    return { action, previousRole, role, divisionId };
+                });
+
+            expect(changes).toEqual([
+                { action: 'USER_ROLE_CHANGED', previousRole: 'USER', role: 'ADMIN', divisionId: undefined },
+                { action: 'DIVISION_ROLE_GRANTED', previousRole: null, role: 'MEMBER', divisionId: engineering },
+                { action: 'USER_ROLE_CHANGED', previousRole: 'ADMIN', role: 'USER', divisionId: undefined },
+                { action: 'DIVISION_ROLE_REVOKED', previousRole: 'MEMBER', role: undefined, divisionId: engineering },
+                { action: 'DIVISION_ROLE_GRANTED', previousRole: null, role: 'VIEWER', divisionId: support },
+            ]);
+        });
+
+        it('leaves divisions without a mapping alone', async () => {
+            const [{ id: unmanaged }] = await db.insert(divisions).values({ name: 'Sales' }).returning({ id: divisions.id });
+            const email = uniqueEmail();
+            const userId = await createUser(email);
+            await db.insert(divisionMembers).values({ userId, divisionId: unmanaged, role: 'MANAGER' });
+
+            await login({ sub: crypto.randomUUID(), email, email_verified: true, groups: [] });
+
+            expect(await membershipsOf(userId)).toEqual({ [unmanaged]: 'MANAGER' });
+        });
+
+        it('does not apply groups to an account that is not active', async () => {
+            const email = uniqueEmail();
+            const userId = await createUser(email, { status: 'SUSPENDED' });
+
+            await expect(login({ sub: crypto.randomUUID(), email, email_verified: true, groups: ['platform-admins', 'engineers'] }))
+                .rejects.toThrow('Account is not active');
+
+            expect(await roleOf(userId)).toBe('USER');
+            expect(await membershipsOf(userId)).toEqual({});
+        });
+    });
+});
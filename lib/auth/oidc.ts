@@ -0,0 +1,589 @@
+import * as crypto from 'crypto';
+import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose';
+import { eq, and, lt, inArray } from 'drizzle-orm';
+import { db } from '@/db';
+import { users, userIdentities, oidcAuthRequests, divisionMembers } from '@/db/schema';
+import { SettingsService } from '@/lib/settings';
+import { AuditChainService, AuditTransaction } from '@/lib/audit/chain';
+import { PasswordService } from './password';
+import { JWTService } from './jwt';
+
+type DivisionRole = 'MANAGER' | 'MEMBER' | 'VIEWER';
+
+export interface OIDCProviderConfig {
+    enabled: boolean;
+    displayName: string;
+    issuer: string;
+    clientId: string;
+    clientSecret: string;
+    redirectUri?: string; // Defaults to NEXT_PUBLIC_APP_URL + /api/auth/oidc/callback
+    scopes: string[];
+    groupsClaim: string;
+    autoProvision: boolean; // Create users on first login
+    linkByEmail: boolean; // Link first logins to existing users with the same email
+    adminGroups: string[]; // Members become ADMIN, everyone else USER. Empty leaves roles untouched.
+    divisionMappings: {
+        group: string;
+        divisionId: string;
+        role: DivisionRole;
+    }[];
+}
+
+export interface OIDCClaims extends JWTPayload {
+    sub: string;
+    email?: string;
+    email_verified?: boolean;
+    name?: string;
+    picture?: string;
+    [claim: string]: unknown;
+}
+
+interface OIDCDiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+    userinfo_endpoint?: string;
+}
+
+export const OIDC_PROVIDER_KEY = 'oidc_provider';
+
+const DEFAULT_CONFIG: OIDCProviderConfig = {
+    enabled: false,
+    displayName: 'SSO',
+    issuer: '',
+    clientId: '',
+    clientSecret: '',
+    scopes: ['openid', 'email', 'profile'],
+    groupsClaim: 'groups',
+    autoProvision: true,
+    linkByEmail: true,
+    adminGroups: [],
+    divisionMappings: [],
+};
+
+const AUTH_REQUEST_TTL_MS = 10 * 60 * 1000; // Users have 10 minutes to complete the IdP login
+
+// httpOnly cookie tying a login to the browser that started it, so a callback URL cannot be replayed elsewhere
+export const OIDC_BINDING_COOKIE = 'oidc_binding';
+export const OIDC_BINDING_MAX_AGE_SECONDS = AUTH_REQUEST_TTL_MS / 1000;
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Highest wins when several groups map to the same division
+const DIVISION_ROLE_RANK: Record<DivisionRole, number> = { VIEWER: 0, MEMBER: 1, MANAGER: 2 };
+
+const discoveryCache = new Map<string, { document: OIDCDiscoveryDocument; expiresAt: number }>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+export class OIDCService {
+    /**
+     * Get the identity provider configuration from settings
+     */
+    static async getConfig(): Promise<OIDCProviderConfig> {
+        return SettingsService.get(OIDC_PROVIDER_KEY, DEFAULT_CONFIG);
+    }
+
+    /**
+     * Whether SSO is configured and switched on
+     */
+    static async isEnabled(): Promise<boolean> {
+        const config = await this.getConfig();
+        return config.enabled && !!config.issuer && !!config.clientId;
+    }
+
+    /**
+     * Start an authorization code + PKCE login. Returns the IdP URL to redirect to and a browser
+     * binding to set as a cookie; the callback only completes in a browser holding it.
+     */
+    static async createAuthorizationUrl(
+        redirectTo = '/dashboard'
+    ): Promise<{ authorizationUrl: string; browserBinding: string }> {
+        const config = await this.getConfig();
+        if (!config.enabled) {
+            throw new Error('SSO is not enabled');
+        }
+
+        const discovery = await this.discover(config.issuer);
+
+        const state = crypto.randomBytes(32).toString('base64url');
+        const nonce = crypto.randomBytes(32).toString('base64url');
+        const codeVerifier = crypto.randomBytes(32).toString('base64url');
+        const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+        // Clean up abandoned logins
+        await db
+            .delete(oidcAuthRequests)
+            .where(lt(oidcAuthRequests.expiresAt, new Date()));
+
+        await db.insert(oidcAuthRequests).values({
+            state,
+            nonce,
+            codeVerifier,
+            redirectTo,
+            expiresAt: new Date(Date.now() + AUTH_REQUEST_TTL_MS),
+        });
+
+        const url = new URL(discovery.authorization_endpoint);
+        url.search = new URLSearchParams({
+            response_type: 'code',
+            client_id: config.clientId,
+            redirect_uri: this.getRedirectUri(config),
+            scope: config.scopes.join(' '),
+            state,
+            nonce,
+            code_challenge: codeChallenge,
+            code_challenge_method: 'S256',
+        }).toString();
+
+        return { authorizationUrl: url.toString(), browserBinding: PasswordService.hashToken(state) };
+    }
+
+    /**
+     * Complete a login from the IdP callback. Returns the local user and where to send them.
+     */
+    static async handleCallback(
+        code: string,
+        state: string,
+        browserBinding: string | undefined,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<{ userId: string; redirectTo: string }> {
+        const config = await this.getConfig();
+
+        try {
+            if (!config.enabled) {
+                throw new Error('SSO is not enabled');
+            }
+
+            // Without this, a victim's browser could be signed in to the attacker's account (login CSRF)
+            const expected = Buffer.from(PasswordService.hashToken(state), 'hex');
+            const actual = Buffer.from(browserBinding || '', 'hex');
+
+            if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+                throw new Error('SSO login was started in a different browser');
+            }
+
+            const [request] = await db
+                .delete(oidcAuthRequests)
+                .where(eq(oidcAuthRequests.state, state))
+                .returning();
+
+            if (!request || request.expiresAt < new Date()) {
+                throw new Error('Invalid or expired SSO request');
+            }
+
+            const discovery = await this.discover(config.issuer);
+            const tokens = await this.exchangeCode(config, discovery, code, request.codeVerifier);
+
+            const { payload } = await jwtVerify(tokens.id_token, this.getJwks(discovery.jwks_uri), {
+                issuer: discovery.issuer,
+                audience: config.clientId,
+            });
+
+            if (payload.nonce !== request.nonce) {
+                throw new Error('Invalid ID token nonce');
+            }
+
+            const claims = await this.loadClaims(discovery, payload as OIDCClaims, tokens.access_token);
+            const groups = this.getGroups(claims, config.groupsClaim);
+
+            const userId = await this.findOrProvisionUser(config, discovery.issuer, claims, ipAddress, userAgent);
+
+            // Refuse before touching roles, so the IdP cannot re-grant access to a blocked account
+            const [user] = await db
+                .select({ status: users.status })
+                .from(users)
+                .where(eq(users.id, userId))
+                .limit(1);
+
+            if (!user || user.status !== 'ACTIVE') {
+                throw new Error('Account is not active');
+            }
+
+            if (await PasswordService.isUserLocked(userId)) {
+                throw new Error('Account is locked');
+            }
+
+            await this.applyGroupMappings(config, userId, groups, ipAddress, userAgent);
+
+            await JWTService.createAuditLog({
+                actorId: userId,
+                action: 'SSO_LOGIN',
+                targetResource: 'user',
+                targetId: userId,
+                metadata: {
+                    issuer: discovery.issuer,
+                    subject: claims.sub,
+                    groups,
+                },
+                ipAddress,
+                userAgent,
+            });
+
+            return { userId, redirectTo: request.redirectTo };
+        } catch (error) {
+            await JWTService.createAuditLog({
+                action: 'SSO_LOGIN_FAILED',
+                targetResource: 'user',
+                metadata: {
+                    issuer: config.issuer,
+                },
+                ipAddress,
+                userAgent,
+                success: false,
+                errorMessage: error instanceof Error ? error.message : 'Unknown error',
+            });
+
+            throw error;
+        }
+    }
+
+    /**
+     * Fetch (and cache) the provider's discovery document
+     */
+    private static async discover(issuer: string): Promise<OIDCDiscoveryDocument> {
+        const cached = discoveryCache.get(issuer);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.document;
+        }
+
+        const response = await fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+        if (!response.ok) {
+            throw new Error(`OIDC discovery failed with status ${response.status}`);
+        }
+
+        const document = await response.json() as OIDCDiscoveryDocument;
+        if (document.issuer.replace(/\/$/, '') !== issuer.replace(/\/$/, '')) {
+            throw new Error('OIDC discovery issuer mismatch');
+        }
+
+        discoveryCache.set(issuer, { document, expiresAt: Date.now() + DISCOVERY_CACHE_TTL_MS });
+
+        return document;
+    }
+
+    private static getJwks(jwksUri: string) {
+        let jwks = jwksCache.get(jwksUri);
+        if (!jwks) {
+            jwks = createRemoteJWKSet(new URL(jwksUri));
+            jwksCache.set(jwksUri, jwks);
+        }
+
+        return jwks;
+    }
+
+    private static getRedirectUri(config: OIDCProviderConfig): string {
+        return config.redirectUri || `${process.env.NEXT_PUBLIC_APP_URL}/api/auth/oidc/callback`;
+    }
+
+    /**
+     * Exchange the authorization code using client_secret_basic and the PKCE verifier
+     */
+    private static async exchangeCode(
+        config: OIDCProviderConfig,
+        discovery: OIDCDiscoveryDocument,
+        code: string,
+        codeVerifier: string
+    ): Promise<{ id_token: string; access_token?: string }> {
+        const credentials = Buffer.from(
+            `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`
+        ).toString('base64');
+
+        const response = await fetch(discovery.token_endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                Authorization: `Basic ${credentials}`,
+            },
+            body: new URLSearchParams({
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: this.getRedirectUri(config),
+                code_verifier: codeVerifier,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Token exchange failed with status ${response.status}`);
+        }
+
+        const tokens = await response.json();
+        if (typeof tokens.id_token !== 'string') {
+            throw new Error('Token response did not include an ID token');
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Merge UserInfo claims over the ID token claims when the provider offers them
+     */
+    private static async loadClaims(
+        discovery: OIDCDiscoveryDocument,
+        idTokenClaims: OIDCClaims,
+        accessToken?: string
+    ): Promise<OIDCClaims> {
+        if (!discovery.userinfo_endpoint || !accessToken) {
+            return idTokenClaims;
+        }
+
+        const response = await fetch(discovery.userinfo_endpoint, {
+            headers: { Authorization: `Bearer ${accessToken}` },
+        });
+
+        if (!response.ok) {
+            return idTokenClaims;
+        }
+
+        const userInfo = await response.json();
+        if (userInfo.sub !== idTokenClaims.sub) {
+            throw new Error('UserInfo subject does not match ID token');
+        }
+
+        return { ...idTokenClaims, ...userInfo };
+    }
+
+    private static getGroups(claims: OIDCClaims, groupsClaim: string): string[] {
+        const value = claims[groupsClaim];
+
+        if (Array.isArray(value)) {
+            return value.filter((group): group is string => typeof group === 'string');
+        }
+
+        return typeof value === 'string' ? [value] : [];
+    }
+
+    /**
+     * Resolve the local user for an IdP identity, linking or creating one on first login
+     */
+    private static async findOrProvisionUser(
+        config: OIDCProviderConfig,
+        issuer: string,
+        claims: OIDCClaims,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<string> {
+        const [identity] = await db
+            .select({ id: userIdentities.id, userId: userIdentities.userId })
+            .from(userIdentities)
+            .where(
+                and(
+                    eq(userIdentities.issuer, issuer),
+                    eq(userIdentities.subject, claims.sub)
+                )
+            )
+            .limit(1);
+
+        if (identity) {
+            await db
+                .update(userIdentities)
+                .set({
+                    email: claims.email,
+                    lastLoginAt: new Date(),
+                })
+                .where(eq(userIdentities.id, identity.id));
+
+            return identity.userId;
+        }
+
+        if (!claims.email) {
+            throw new Error('Identity provider did not return an email address');
+        }
+
+        const email = claims.email.toLowerCase();
+
+        const [existingUser] = await db
+            .select({ id: users.id })
+            .from(users)
+            .where(eq(users.email, email))
+            .limit(1);
+
+        let userId: string;
+
+        if (existingUser) {
+            // Only link when the IdP vouches for the email; a missing claim is not a yes
+            if (!config.linkByEmail || claims.email_verified !== true) {
+                throw new Error('An account with this email already exists');
+            }
+
+            userId = existingUser.id;
+
+            await JWTService.createAuditLog({
+                actorId: userId,
+                action: 'SSO_IDENTITY_LINKED',
+                targetResource: 'user',
+                targetId: userId,
+                metadata: {
+                    issuer,
+                    subject: claims.sub,
+                },
+                ipAddress,
+                userAgent,
+            });
+        } else {
+            if (!config.autoProvision) {
+                throw new Error('No account exists for this identity');
+            }
+
+            // SSO users never sign in with a local password, so store an unguessable one
+            const passwordHash = await PasswordService.hashPassword(crypto.randomBytes(32).toString('hex'));
+
+            const [newUser] = await db
+                .insert(users)
+                .values({
+                    email,
+                    name: claims.name || email,
+                    passwordHash,
+                    avatarUrl: claims.picture,
+                    emailVerified: claims.email_verified === true,
+                })
+                .returning({ id: users.id });
+
+            userId = newUser.id;
+
+            await JWTService.createAuditLog({
+                actorId: userId,
+                action: 'USER_CREATED',
+                targetResource: 'user',
+                targetId: userId,
+                metadata: {
+                    email,
+                    provisionedBy: 'oidc',
+                    issuer,
+                },
+                ipAddress,
+                userAgent,
+            });
+        }
+
+        await db.insert(userIdentities).values({
+            userId,
+            issuer,
+            subject: claims.sub,
+            email,
+            lastLoginAt: new Date(),
+        });
+
+        return userId;
+    }
+
+    /**
+     * Sync users.role and memberships of mapped divisions with the user's IdP groups.
+     * Divisions that no mapping mentions are left alone. Every grant and revoke is chained into
+     * the audit log in the same transaction as the change.
+     */
+    private static async applyGroupMappings(
+        config: OIDCProviderConfig,
+        userId: string,
+        groups: string[],
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        await db.transaction(async (tx) => {
+            const audit = (action: string, metadata: Record<string, unknown>) => AuditChainService.append({
+                actorId: userId,
+                action,
+                targetResource: 'user',
+                targetId: userId,
+                metadata: { ...metadata, source: 'oidc', groups },
+                ipAddress,
+                userAgent,
+            }, tx);
+
+            if (config.adminGroups.length > 0) {
+                const role = groups.some((group) => config.adminGroups.includes(group)) ? 'ADMIN' : 'USER';
+
+                const [user] = await tx
+                    .select({ role: users.role })
+                    .from(users)
+                    .where(eq(users.id, userId))
+                    .limit(1);
+
+                if (user && user.role !== role) {
+                    await tx
+                        .update(users)
+                        .set({
+                            role,
+                            updatedAt: new Date(),
+                        })
+                        .where(eq(users.id, userId));
+
+                    await audit('USER_ROLE_CHANGED', { previousRole: user.role, role });
+                }
+            }
+
+            if (config.divisionMappings.length > 0) {
+                await this.syncDivisionMemberships(tx, config, userId, groups, audit);
+            }
+        });
+    }
+
+    private static async syncDivisionMemberships(
+        tx: AuditTransaction,
+        config: OIDCProviderConfig,
+        userId: string,
+        groups: string[],
+        audit: (action: string, metadata: Record<string, unknown>) => Promise<void>
+    ): Promise<void> {
+        const desired = new Map<string, DivisionRole>();
+        for (const mapping of config.divisionMappings) {
+            if (!groups.includes(mapping.group)) {
+                continue;
+            }
+
+            const current = desired.get(mapping.divisionId);
+            if (!current || DIVISION_ROLE_RANK[mapping.role] > DIVISION_ROLE_RANK[current]) {
+                desired.set(mapping.divisionId, mapping.role);
+            }
+        }
+
+        const managedDivisionIds = [...new Set(config.divisionMappings.map((mapping) => mapping.divisionId))];
+
+        const memberships = await tx
+            .select({
+                id: divisionMembers.id,
+                divisionId: divisionMembers.divisionId,
+                role: divisionMembers.role,
+            })
+            .from(divisionMembers)
+            .where(
+                and(
+                    eq(divisionMembers.userId, userId),
+                    inArray(divisionMembers.divisionId, managedDivisionIds)
+                )
+            );
+
+        for (const membership of memberships) {
+            const role = desired.get(membership.divisionId);
+
+            if (!role) {
+                await tx
+                    .delete(divisionMembers)
+                    .where(eq(divisionMembers.id, membership.id));
+
+                await audit('DIVISION_ROLE_REVOKED', {
+                    divisionId: membership.divisionId,
+                    previousRole: membership.role,
+                });
+            } else if (role !== membership.role) {
+                await tx
+                    .update(divisionMembers)
+                    .set({ role })
+                    .where(eq(divisionMembers.id, membership.id));
+
+                await audit('DIVISION_ROLE_GRANTED', {
+                    divisionId: membership.divisionId,
+                    previousRole: membership.role,
+                    role,
+                });
+            }
+
+            desired.delete(membership.divisionId);
+        }
+
+        for (const [divisionId, role] of desired) {
+            await tx.insert(divisionMembers).values({ userId, divisionId, role });
+            await audit('DIVISION_ROLE_GRANTED', { divisionId, previousRole: null, role });
+        }
+    }
+}
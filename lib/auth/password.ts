@@ -1,14 +1,119 @@
 import * as crypto from 'crypto';
-import { eq } from 'drizzle-orm';
+import * as argon2 from 'argon2';
+import { eq, desc, inArray } from 'drizzle-orm';
 import { db } from '@/db';
-import { users, auditLogs } from '@/db/schema';
+import { users, passwordHistory } from '@/db/schema';
+import { SettingsService } from '@/lib/settings';
+import { isBreachedPassword } from './breached-passwords';
+import { JWTService } from './jwt';
+
+export type PasswordHashAlgorithm = 'argon2id' | 'pbkdf2-sha512' | 'scrypt';
+
+// Hashes merged from the retired better-auth tables (see db/merge-better-auth.ts)
+export const LEGACY_SCRYPT_PREFIX = 'scrypt:';
+
+// OWASP baseline for Argon2id. Raising these upgrades existing hashes on the next login.
+const ARGON2_OPTIONS = {
+    type: argon2.argon2id,
+    memoryCost: 19456, // KiB
+    timeCost: 2,
+    parallelism: 1,
+};
+
+export interface PasswordPolicy {
+    minLength: number;
+    historyCount: number; // Reject reuse of the last N passwords, 0 to allow reuse
+    maxAgeDays: number; // Force a change at sign-in once a password is this old, 0 to never expire
+    checkBreached: boolean; // Screen against the bundled list of breached passwords
+}
+
+export const PASSWORD_POLICY_KEY = 'password_policy';
+
+const DEFAULT_POLICY: PasswordPolicy = {
+    minLength: 8,
+    historyCount: 5,
+    maxAgeDays: 0,
+    checkBreached: true,
+};
+
+/**
+ * Thrown when a new password is rejected by the password policy
+ */
+export class PasswordPolicyError extends Error {
+    constructor(public readonly errors: string[]) {
+        super('Password does not meet security requirements');
+        this.name = 'PasswordPolicyError';
+    }
+}
+
+interface PasswordHasher {
+    algorithm: PasswordHashAlgorithm;
+    matches(storedHash: string): boolean;
+    verify(password: string, storedHash: string): Promise<boolean>;
+    needsRehash(storedHash: string): boolean;
+}
+
+/**
+ * Every format we can still verify. The encoded hash identifies its algorithm and parameters,
+ * so supporting a new algorithm only means adding an entry here.
+ */
+const PASSWORD_HASHERS: PasswordHasher[] = [
+    {
+        // PHC string: $argon2id$v=19$m=...,t=...,p=...$salt$hash
+        algorithm: 'argon2id',
+        matches: (storedHash) => storedHash.startsWith('$argon2id$'),
+        verify: (password, storedHash) => argon2.verify(storedHash, password),
+        needsRehash: (storedHash) => argon2.needsRehash(storedHash, ARGON2_OPTIONS),
+    },
+    {
+        // Original format: salt:hash:iterations
+        algorithm: 'pbkdf2-sha512',
+        matches: (storedHash) => /^[0-9a-f]+:[0-9a-f]+:\d+$/.test(storedHash),
+        verify: (password, storedHash) => {
+            const [salt, hash, iterations] = storedHash.split(':');
 
-// Configuration for password hashing
-const SALT_ROUNDS = 12;
+            return new Promise((resolve, reject) => {
+                crypto.pbkdf2(password, salt, parseInt(iterations, 10), 64, 'sha512', (err, derivedKey) => {
+                    if (err) return reject(err);
+                    const expected = Buffer.from(hash, 'hex');
+                    resolve(expected.length === derivedKey.length && crypto.timingSafeEqual(expected, derivedKey));
+                });
+            });
+        },
+        needsRehash: () => true,
+    },
+    {
+        // better-auth: scrypt:salt:key with N=16384, r=16, p=1
+        algorithm: 'scrypt',
+        matches: (storedHash) => storedHash.startsWith(LEGACY_SCRYPT_PREFIX),
+        verify: (password, storedHash) => {
+            const [salt, key] = storedHash.substring(LEGACY_SCRYPT_PREFIX.length).split(':');
+            if (!salt || !key) {
+                return Promise.resolve(false);
+            }
+
+            return new Promise((resolve, reject) => {
+                crypto.scrypt(password.normalize('NFKC'), salt, 64, { N: 16384, r: 16, p: 1, maxmem: 64 * 1024 * 1024 }, (err, derivedKey) => {
+                    if (err) return reject(err);
+                    const expected = Buffer.from(key, 'hex');
+                    resolve(expected.length === derivedKey.length && crypto.timingSafeEqual(expected, derivedKey));
+                });
+            });
+        },
+        needsRehash: () => true,
+    },
+];
 
 export class PasswordService {
     /**
-     * Hash a password using bcrypt
+     * Get the password policy from settings
+     */
+    static async getPolicy(): Promise<PasswordPolicy> {
+        return SettingsService.get(PASSWORD_POLICY_KEY, DEFAULT_POLICY);
+    }
+
+    /**
+     * Hash a password using Argon2id
      */
     static async hashPassword(password: string): Promise<string> {
         if (!password || password.length < 8) {
@@ -19,40 +124,76 @@ export class PasswordService {
             throw new Error('Password must be less than 128 characters long');
         }
 
-        return new Promise((resolve, reject) => {
-            // Generate salt and hash
-            const salt = crypto.randomBytes(16).toString('hex');
-            crypto.pbkdf2(password, salt, 100000, 64, 'sha512', (err, derivedKey) => {
-                if (err) reject(err);
-                // Store as salt:hash:iterations format
-                resolve(`${salt}:${derivedKey.toString('hex')}:100000`);
-            });
-        });
+        return argon2.hash(password, ARGON2_OPTIONS);
     }
 
     /**
-     * Verify a password against its hash
+     * Verify a password against a hash in any supported format
      */
     static async verifyPassword(password: string, storedHash: string): Promise<boolean> {
         if (!password || !storedHash) {
             return false;
         }
 
-        try {
-            const [salt, hash, iterations] = storedHash.split(':');
-            const iterCount = parseInt(iterations, 10);
+        const hasher = PASSWORD_HASHERS.find((candidate) => candidate.matches(storedHash));
+        if (!hasher) {
+            return false;
+        }
 
-            return new Promise((resolve, reject) => {
-                crypto.pbkdf2(password, salt, iterCount, 64, 'sha512', (err, derivedKey) => {
-                    if (err) reject(err);
-                    resolve(derivedKey.toString('hex') === hash);
-                });
-            });
-        } catch (error) {
+        try {
+            return await hasher.verify(password, storedHash);
+        } catch {
             return false;
         }
     }
 
+    /**
+     * Identify the algorithm a stored hash was produced with
+     */
+    static getHashAlgorithm(storedHash: string): PasswordHashAlgorithm | null {
+        return PASSWORD_HASHERS.find((hasher) => hasher.matches(storedHash))?.algorithm ?? null;
+    }
+
+    /**
+     * Whether a hash uses an outdated algorithm or parameters
+     */
+    static needsRehash(storedHash: string): boolean {
+        const hasher = PASSWORD_HASHERS.find((candidate) => candidate.matches(storedHash));
+        return !hasher || hasher.needsRehash(storedHash);
+    }
+
+    /**
+     * Replace an outdated hash after the password has been verified
+     */
+    static async rehashPassword(
+        userId: string,
+        password: string,
+        previousHash: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const passwordHash = await this.hashPassword(password);
+
+        await db
+            .update(users)
+            .set({ passwordHash })
+            .where(eq(users.id, userId));
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'PASSWORD_REHASHED',
+            targetResource: 'user',
+            targetId: userId,
+            metadata: {
+                from: this.getHashAlgorithm(previousHash),
+                to: 'argon2id',
+            },
+            ipAddress,
+            userAgent,
+            success: true,
+        });
+    }
+
     /**
      * Check if a user is locked out due to too many failed login attempts
      */
@@ -118,7 +259,7 @@ export class PasswordService {
             .where(eq(users.id, userId));
 
         // Log the failed attempt
-        await db.insert(auditLogs).values({
+        await JWTService.createAuditLog({
             actorId: userId,
             action: 'LOGIN_FAILED',
             targetResource: 'user',
@@ -135,12 +276,14 @@ export class PasswordService {
     }
 
     /**
-     * Reset failed login attempts after successful login
+     * Reset failed login attempts after successful login. Metadata (such as the sign-in location)
+     * is kept on the LOGIN_SUCCESS entry.
      */
     static async resetFailedLoginAttempts(
         userId: string,
         ipAddress?: string,
-        userAgent?: string
+        userAgent?: string,
+        metadata: Record<string, unknown> = {}
     ): Promise<void> {
         await db
             .update(users)
@@ -152,11 +295,11 @@ export class PasswordService {
             .where(eq(users.id, userId));
 
         // Log successful login
-        await db.insert(auditLogs).values({
+        await JWTService.createAuditLog({
             actorId: userId,
             action: 'LOGIN_SUCCESS',
             targetResource: 'user',
-            metadata: {},
+            metadata,
             ipAddress,
             userAgent,
             success: true,
@@ -196,20 +339,10 @@ export class PasswordService {
             throw new Error('Current password is incorrect');
         }
 
-        // Hash new password
-        const newPasswordHash = await this.hashPassword(newPassword);
-
-        // Update password
-        await db
-            .update(users)
-            .set({
-                passwordHash: newPasswordHash,
-                updatedAt: new Date(),
-            })
-            .where(eq(users.id, userId));
+        await this.setPassword(userId, user.passwordHash, newPassword);
 
         // Log password change
-        await db.insert(auditLogs).values({
+        await JWTService.createAuditLog({
             actorId: userId,
             action: 'PASSWORD_CHANGED',
             targetResource: 'user',
@@ -220,8 +353,67 @@ export class PasswordService {
         });
 
         // Revoke all refresh tokens to force re-login
-        const { refreshTokens } = await import('./jwt');
-        await refreshTokens.revokeAllRefreshTokens(userId);
+        await JWTService.revokeAllRefreshTokens(userId);
+    }
+
+    /**
+     * Replace an expired password. The caller has already verified the old password at sign-in
+     * (see JWTService.verifyPasswordChangeToken), so it is not asked for again.
+     */
+    static async changeExpiredPassword(
+        userId: string,
+        newPassword: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const [user] = await db
+            .select({
+                passwordHash: users.passwordHash,
+                passwordChangedAt: users.passwordChangedAt,
+            })
+            .from(users)
+            .where(eq(users.id, userId))
+            .limit(1);
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        // Also stops a challenge from being replayed once the password has been changed
+        if (!(await this.isPasswordExpired(user.passwordChangedAt))) {
+            throw new Error('Password change is not required');
+        }
+
+        await this.setPassword(userId, user.passwordHash, newPassword);
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'PASSWORD_CHANGED',
+            targetResource: 'user',
+            metadata: {
+                reason: 'expired',
+            },
+            ipAddress,
+            userAgent,
+            success: true,
+        });
+
+        await JWTService.revokeAllRefreshTokens(userId);
+    }
+
+    /**
+     * Whether a password last changed at the given time has outlived the policy's maximum age
+     */
+    static async isPasswordExpired(passwordChangedAt: Date): Promise<boolean> {
+        const { maxAgeDays } = await this.getPolicy();
+        if (maxAgeDays <= 0) {
+            return false;
+        }
+
+        const expiresAt = new Date(passwordChangedAt);
+        expiresAt.setDate(expiresAt.getDate() + maxAgeDays);
+
+        return expiresAt <= new Date();
     }
 
     /**
@@ -237,12 +429,13 @@ export class PasswordService {
         const [user] = await db
             .select({
                 id: users.id,
+                passwordHash: users.passwordHash,
                 passwordResetToken: users.passwordResetToken,
                 passwordResetExpires: users.passwordResetExpires,
             })
             .from(users)
             .where(
-                eq(users.passwordResetToken, resetToken)
+                eq(users.passwordResetToken, this.hashToken(resetToken))
             )
             .limit(1);
 
@@ -255,14 +448,12 @@ export class PasswordService {
             throw new Error('Reset token has expired');
         }
 
-        // Hash new password
-        const newPasswordHash = await this.hashPassword(newPassword);
+        await this.setPassword(user.id, user.passwordHash, newPassword);
 
-        // Update password and clear reset token
+        // Clear reset token and any lockout
         await db
             .update(users)
             .set({
-                passwordHash: newPasswordHash,
                 passwordResetToken: null,
                 passwordResetExpires: null,
                 failedLoginAttempts: 0,
@@ -272,7 +463,7 @@ export class PasswordService {
             .where(eq(users.id, user.id));
 
         // Log password reset
-        await db.insert(auditLogs).values({
+        await JWTService.createAuditLog({
             actorId: user.id,
             action: 'PASSWORD_RESET',
             targetResource: 'user',
@@ -283,10 +474,23 @@ export class PasswordService {
         });
 
         // Revoke all refresh tokens to force re-login
-        const { JWTService } = await import('./jwt');
         await JWTService.revokeAllRefreshTokens(user.id);
     }
 
+    /**
+     * Generate a random token for an emailed single-use link
+     */
+    static generateToken(): string {
+        return crypto.randomBytes(32).toString('base64url');
+    }
+
+    /**
+     * Hash an emailed token for storage, so a database leak does not expose usable links
+     */
+    static hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+
     /**
      * Generate password reset token
      */
@@ -304,8 +508,8 @@ export class PasswordService {
             throw new Error('User with this email does not exist');
         }
 
-        // Generate random token
-        const token = Buffer.from(crypto.randomUUID()).toString('base64');
+        // Generate random token; only its hash is stored
+        const token = this.generateToken();
         const expiresAt = new Date();
         expiresAt.setHours(expiresAt.getHours() + 1); // Token expires in 1 hour
 
@@ -313,14 +517,14 @@ export class PasswordService {
         await db
             .update(users)
             .set({
-                passwordResetToken: token,
+                passwordResetToken: this.hashToken(token),
                 passwordResetExpires: expiresAt,
                 updatedAt: new Date(),
             })
             .where(eq(users.id, user.id));
 
         // Log token generation
-        await db.insert(auditLogs).values({
+        await JWTService.createAuditLog({
             actorId: user.id,
             action: 'PASSWORD_RESET_REQUESTED',
             targetResource: 'user',
@@ -336,14 +540,14 @@ export class PasswordService {
     /**
      * Validate password strength
      */
-    static validatePasswordStrength(password: string): {
+    static validatePasswordStrength(password: string, minLength: number = DEFAULT_POLICY.minLength): {
         isValid: boolean;
         errors: string[];
     } {
         const errors: string[] = [];
 
-        if (password.length < 8) {
-            errors.push('Password must be at least 8 characters long');
+        if (password.length < minLength) {
+            errors.push(`Password must be at least ${minLength} characters long`);
         }
 
         if (password.length > 128) {
@@ -366,22 +570,48 @@ export class PasswordService {
             errors.push('Password must contain at least one special character');
         }
 
-        // Check for common passwords
-        const commonPasswords = [
-            'password',
-            '123456',
-            'qwerty',
-            'admin',
-            'letmein',
-            'welcome',
-            'monkey',
-            '123456789',
-            'password123',
-            'admin123',
-        ];
-
-        if (commonPasswords.includes(password.toLowerCase())) {
-            errors.push('Password is too common. Please choose a stronger password');
+        return {
+            isValid: errors.length === 0,
+            errors,
+        };
+    }
+
+    /**
+     * Validate a new password against the full policy. Pass the user for existing accounts
+     * so their current and recent passwords are rejected.
+     */
+    static async validatePasswordPolicy(
+        password: string,
+        user?: { id: string; passwordHash: string }
+    ): Promise<{
+        isValid: boolean;
+        errors: string[];
+    }> {
+        const policy = await this.getPolicy();
+        // The policy can only raise the minimum that hashPassword enforces
+        const { errors } = this.validatePasswordStrength(password, Math.max(policy.minLength, DEFAULT_POLICY.minLength));
+
+        if (policy.checkBreached && isBreachedPassword(password)) {
+            errors.push('Password is too common or has appeared in a data breach. Please choose a stronger password');
+        }
+
+        if (user && policy.historyCount > 0) {
+            // The current password counts as the most recent one
+            const previous = await db
+                .select({ passwordHash: passwordHistory.passwordHash })
+                .from(passwordHistory)
+                .where(eq(passwordHistory.userId, user.id))
+                .orderBy(desc(passwordHistory.createdAt))
+                .limit(policy.historyCount - 1);
+
+            const recentHashes = [user.passwordHash, ...previous.map((entry) => entry.passwordHash)];
+
+            for (const hash of recentHashes) {
+                if (await this.verifyPassword(password, hash)) {
+                    errors.push(`Password must be different from your last ${policy.historyCount} passwords`);
+                    break;
+                }
+            }
         }
 
         return {
@@ -389,4 +619,48 @@ export class PasswordService {
             errors,
         };
     }
-}
\ No newline at end of file
+
+    /**
+     * Store a new password after checking it against the policy. The replaced hash moves into
+     * the history, which is trimmed to the configured length.
+     */
+    private static async setPassword(userId: string, currentHash: string, newPassword: string): Promise<void> {
+        const validation = await this.validatePasswordPolicy(newPassword, { id: userId, passwordHash: currentHash });
+        if (!validation.isValid) {
+            throw new PasswordPolicyError(validation.errors);
+        }
+
+        const { historyCount } = await this.getPolicy();
+        const newPasswordHash = await this.hashPassword(newPassword);
+
+        await db.transaction(async (tx) => {
+            await tx.insert(passwordHistory).values({
+                userId,
+                passwordHash: currentHash,
+            });
+
+            await tx
+                .update(users)
+                .set({
+                    passwordHash: newPasswordHash,
+                    passwordChangedAt: new Date(),
+                    updatedAt: new Date(),
+                })
+                .where(eq(users.id, userId));
+
+            // Keep only the entries the history check can still reach
+            const stale = await tx
+                .select({ id: passwordHistory.id })
+                .from(passwordHistory)
+                .where(eq(passwordHistory.userId, userId))
+                .orderBy(desc(passwordHistory.createdAt))
+                .offset(Math.max(historyCount - 1, 0));
+
+            if (stale.length > 0) {
+                await tx
+                    .delete(passwordHistory)
+                    .where(inArray(passwordHistory.id, stale.map((entry) => entry.id)));
+            }
+        });
+    }
+}
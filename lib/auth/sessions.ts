@@ -0,0 +1,177 @@
+import { eq, and, gt, desc, inArray, min } from 'drizzle-orm';
+import { db } from '@/db';
+import { refreshTokens } from '@/db/schema';
+import { JWTService } from './jwt';
+
+export interface DeviceInfo {
+    browser: string;
+    os: string;
+    deviceType: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+}
+
+export interface ActiveSession {
+    id: string;
+    device: DeviceInfo;
+    ipAddress: string | null;
+    userAgent: string | null;
+    signedInAt: Date;
+    lastActiveAt: Date;
+    expiresAt: Date;
+    isCurrent: boolean;
+}
+
+// Ordered so that more specific tokens win (Edge and Opera also contain "Chrome")
+const BROWSER_PATTERNS: [string, RegExp][] = [
+    ['Edge', /Edg(?:e|A|iOS)?\/([\d.]+)/],
+    ['Opera', /(?:OPR|Opera)\/([\d.]+)/],
+    ['Samsung Internet', /SamsungBrowser\/([\d.]+)/],
+    ['Firefox', /(?:Firefox|FxiOS)\/([\d.]+)/],
+    ['Chrome', /(?:Chrome|CriOS)\/([\d.]+)/],
+    ['Safari', /Version\/([\d.]+).*Safari/],
+];
+
+const OS_PATTERNS: [string, RegExp][] = [
+    ['iOS', /iPhone|iPad|iPod/],
+    ['Android', /Android/],
+    ['Windows', /Windows NT/],
+    ['macOS', /Mac OS X|Macintosh/],
+    ['ChromeOS', /CrOS/],
+    ['Linux', /Linux/],
+];
+
+/**
+ * Derive browser, OS and device type from a user agent string
+ */
+export function parseUserAgent(userAgent?: string | null): DeviceInfo {
+    if (!userAgent || userAgent === 'unknown') {
+        return { browser: 'Unknown browser', os: 'Unknown OS', deviceType: 'unknown' };
+    }
+
+    let browser = 'Unknown browser';
+    for (const [name, pattern] of BROWSER_PATTERNS) {
+        const match = userAgent.match(pattern);
+        if (match) {
+            browser = `${name} ${match[1].split('.')[0]}`;
+            break;
+        }
+    }
+
+    const os = OS_PATTERNS.find(([, pattern]) => pattern.test(userAgent))?.[0] || 'Unknown OS';
+
+    let deviceType: DeviceInfo['deviceType'] = 'desktop';
+    if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+        deviceType = 'tablet';
+    } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+        deviceType = 'mobile';
+    }
+
+    return { browser, os, deviceType };
+}
+
+export class SessionService {
+    /**
+     * List a user's active sessions (one active refresh token per rotation family)
+     */
+    static async listSessions(userId: string, currentRefreshToken?: string): Promise<ActiveSession[]> {
+        const tokens = await db
+            .select()
+            .from(refreshTokens)
+            .where(
+                and(
+                    eq(refreshTokens.userId, userId),
+                    eq(refreshTokens.isActive, true),
+                    gt(refreshTokens.expiresAt, new Date())
+                )
+            )
+            .orderBy(desc(refreshTokens.createdAt));
+
+        if (tokens.length === 0) {
+            return [];
+        }
+
+        // The first token in each family tells us when the user actually signed in
+        const familyStarts = await db
+            .select({
+                familyId: refreshTokens.familyId,
+                signedInAt: min(refreshTokens.createdAt),
+            })
+            .from(refreshTokens)
+            .where(inArray(refreshTokens.familyId, tokens.map((token) => token.familyId)))
+            .groupBy(refreshTokens.familyId);
+
+        const signedInByFamily = new Map(
+            familyStarts.map((family) => [family.familyId, family.signedInAt])
+        );
+
+        return tokens.map((token) => ({
+            id: token.id,
+            device: parseUserAgent(token.userAgent),
+            ipAddress: token.ipAddress,
+            userAgent: token.userAgent,
+            signedInAt: signedInByFamily.get(token.familyId) || token.createdAt,
+            lastActiveAt: token.lastUsedAt || token.createdAt,
+            expiresAt: token.expiresAt,
+            isCurrent: !!currentRefreshToken && token.token === currentRefreshToken,
+        }));
+    }
+
+    /**
+     * Sign out a single session
+     */
+    static async revokeSession(
+        userId: string,
+        sessionId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const [token] = await db
+            .select({ token: refreshTokens.token })
+            .from(refreshTokens)
+            .where(
+                and(
+                    eq(refreshTokens.id, sessionId),
+                    eq(refreshTokens.userId, userId),
+                    eq(refreshTokens.isActive, true)
+                )
+            )
+            .limit(1);
+
+        if (!token) {
+            throw new Error('Session not found');
+        }
+
+        await JWTService.revokeRefreshToken(token.token, userId);
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'SESSION_REVOKED',
+            targetResource: 'refresh_token',
+            targetId: sessionId,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Sign out every session except the one making the request
+     */
+    static async revokeOtherSessions(
+        userId: string,
+        currentRefreshToken?: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        await JWTService.revokeAllRefreshTokens(userId, currentRefreshToken);
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'SESSIONS_REVOKED_OTHERS',
+            targetResource: 'refresh_token',
+            metadata: {
+                keptCurrentSession: !!currentRefreshToken,
+            },
+            ipAddress,
+            userAgent,
+        });
+    }
+}
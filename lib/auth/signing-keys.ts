@@ -0,0 +1,349 @@
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import { eq, and, ne, or, isNull, gt, desc } from 'drizzle-orm';
+import { db } from '@/db';
+import { jwtSigningKeys } from '@/db/schema';
+
+const JWT_KEY_ENCRYPTION_KEY = process.env.JWT_KEY_ENCRYPTION_KEY || 'your-jwt-key-encryption-key-change-in-production';
+const CACHE_TTL_MS = 60 * 1000; // Rotations made by other instances are picked up within a minute
+const UNKNOWN_KID_RELOAD_MS = 10 * 1000; // At most one reload per 10 seconds for tokens with an unknown kid
+const RETIRED_KEY_VERIFY_MS = 7 * 24 * 60 * 60 * 1000; // Longest token lifetime (refresh tokens)
+
+const generateKeyPair = promisify(crypto.generateKeyPair);
+
+export const SIGNING_ALGORITHMS = ['ES256', 'RS256'] as const;
+export type SigningAlgorithm = typeof SIGNING_ALGORITHMS[number];
+
+export type SigningKeyStatus = 'staged' | 'active' | 'retired';
+
+export interface SigningKeyInfo {
+    kid: string;
+    algorithm: SigningAlgorithm;
+    status: SigningKeyStatus;
+    activatedAt: Date | null;
+    retiredAt: Date | null;
+    expiresAt: Date | null;
+    createdAt: Date;
+}
+
+interface LoadedKey {
+    kid: string;
+    algorithm: SigningAlgorithm;
+    status: SigningKeyStatus;
+    publicKey: crypto.KeyObject;
+    publicJwk: Record<string, unknown>;
+    encryptedPrivateKey: string;
+    privateKey?: crypto.KeyObject; // Decrypted on first use
+}
+
+let cache: { keys: Map<string, LoadedKey>; loadedAt: number } | null = null;
+
+/**
+ * Asymmetric keys for signing JWTs. Exactly one key signs at a time; staged keys are already
+ * published in the JWKS so verifiers cache them before they are activated, and retired keys
+ * keep verifying until every token they signed has expired.
+ */
+export class SigningKeyService {
+    /**
+     * The active key with its private half, generating one on first use
+     */
+    static async getSigningKey(): Promise<{ kid: string; algorithm: SigningAlgorithm; privateKey: crypto.KeyObject }> {
+        let active = this.findActive(await this.loadKeys());
+
+        if (!active) {
+            console.warn('No active JWT signing key, generating one');
+            await this.generateKey('ES256', { activate: true });
+            active = this.findActive(await this.loadKeys(true));
+        }
+
+        if (!active) {
+            throw new Error('No active signing key');
+        }
+
+        active.privateKey ??= crypto.createPrivateKey(this.decryptPrivateKey(active.encryptedPrivateKey));
+
+        return {
+            kid: active.kid,
+            algorithm: active.algorithm,
+            privateKey: active.privateKey,
+        };
+    }
+
+    /**
+     * Public key for a kid, or null when the key is unknown or no longer trusted
+     */
+    static async getVerificationKey(kid: string): Promise<{ algorithm: SigningAlgorithm; publicKey: crypto.KeyObject } | null> {
+        let key = (await this.loadKeys()).get(kid);
+
+        // The key may have been created by another instance since the last load
+        if (!key && cache && Date.now() - cache.loadedAt > UNKNOWN_KID_RELOAD_MS) {
+            key = (await this.loadKeys(true)).get(kid);
+        }
+
+        return key ? { algorithm: key.algorithm, publicKey: key.publicKey } : null;
+    }
+
+    /**
+     * Public keys of every trusted key, for /.well-known/jwks.json
+     */
+    static async getJwks(): Promise<{ keys: Record<string, unknown>[] }> {
+        const keys = await this.loadKeys();
+
+        return {
+            keys: Array.from(keys.values()).map((key) => key.publicJwk),
+        };
+    }
+
+    /**
+     * Generate a new key pair. Without activate it is only published until activateKey is called.
+     */
+    static async generateKey(
+        algorithm: SigningAlgorithm,
+        options: { activate?: boolean } = {}
+    ): Promise<SigningKeyInfo> {
+        const { publicKey, privateKey } = algorithm === 'ES256'
+            ? await generateKeyPair('ec', { namedCurve: 'P-256' })
+            : await generateKeyPair('rsa', { modulusLength: 2048 });
+
+        const kid = crypto.randomBytes(12).toString('base64url');
+
+        await db.insert(jwtSigningKeys).values({
+            kid,
+            algorithm,
+            status: 'staged',
+            publicKey: {
+                ...publicKey.export({ format: 'jwk' }),
+                kid,
+                alg: algorithm,
+                use: 'sig',
+            },
+            privateKey: this.encryptPrivateKey(privateKey.export({ format: 'pem', type: 'pkcs8' }).toString()),
+        });
+
+        await this.audit('SIGNING_KEY_CREATED', kid, { algorithm });
+
+        if (options.activate) {
+            return this.activateKey(kid);
+        }
+
+        this.clearCache();
+
+        return this.getKeyInfo(kid);
+    }
+
+    /**
+     * Start signing with a staged or retired key. The previously active key is retired.
+     */
+    static async activateKey(kid: string): Promise<SigningKeyInfo> {
+        const now = new Date();
+
+        await db.transaction(async (tx) => {
+            const [key] = await tx
+                .select({ status: jwtSigningKeys.status, expiresAt: jwtSigningKeys.expiresAt })
+                .from(jwtSigningKeys)
+                .where(eq(jwtSigningKeys.kid, kid))
+                .limit(1)
+                .for('update');
+
+            if (!key) {
+                throw new Error('Signing key not found');
+            }
+
+            if (key.status === 'active') {
+                throw new Error('Signing key is already active');
+            }
+
+            if (key.expiresAt && key.expiresAt <= now) {
+                throw new Error('Signing key has expired');
+            }
+
+            await tx
+                .update(jwtSigningKeys)
+                .set({
+                    status: 'retired',
+                    retiredAt: now,
+                    expiresAt: new Date(now.getTime() + RETIRED_KEY_VERIFY_MS),
+                })
+                .where(eq(jwtSigningKeys.status, 'active'));
+
+            await tx
+                .update(jwtSigningKeys)
+                .set({
+                    status: 'active',
+                    activatedAt: now,
+                    retiredAt: null,
+                    expiresAt: null,
+                })
+                .where(eq(jwtSigningKeys.kid, kid));
+        });
+
+        this.clearCache();
+        await this.audit('SIGNING_KEY_ACTIVATED', kid);
+
+        return this.getKeyInfo(kid);
+    }
+
+    /**
+     * Stop trusting a key. By default tokens it signed keep verifying until they expire;
+     * immediately revokes them at once (e.g. after a key compromise).
+     */
+    static async retireKey(kid: string, options: { immediately?: boolean } = {}): Promise<SigningKeyInfo> {
+        const key = await this.getKeyInfo(kid);
+
+        if (key.status === 'active') {
+            throw new Error('Activate another key before retiring the active key');
+        }
+
+        const now = new Date();
+        const expiresAt = options.immediately
+            ? now
+            : new Date(now.getTime() + RETIRED_KEY_VERIFY_MS);
+
+        await db
+            .update(jwtSigningKeys)
+            .set({
+                status: 'retired',
+                retiredAt: key.retiredAt ?? now,
+                // Never extend the trust window of a key that was already retired
+                expiresAt: key.expiresAt && key.expiresAt < expiresAt ? key.expiresAt : expiresAt,
+            })
+            .where(eq(jwtSigningKeys.kid, kid));
+
+        this.clearCache();
+        await this.audit('SIGNING_KEY_RETIRED', kid, { immediately: !!options.immediately });
+
+        return this.getKeyInfo(kid);
+    }
+
+    /**
+     * All keys, newest first
+     */
+    static async listKeys(): Promise<SigningKeyInfo[]> {
+        const keys = await db
+            .select()
+            .from(jwtSigningKeys)
+            .orderBy(desc(jwtSigningKeys.createdAt));
+
+        return keys.map((key) => this.toKeyInfo(key));
+    }
+
+    /**
+     * Drop cached keys (e.g. after rotating from another process)
+     */
+    static clearCache(): void {
+        cache = null;
+    }
+
+    private static async getKeyInfo(kid: string): Promise<SigningKeyInfo> {
+        const [key] = await db
+            .select()
+            .from(jwtSigningKeys)
+            .where(eq(jwtSigningKeys.kid, kid))
+            .limit(1);
+
+        if (!key) {
+            throw new Error('Signing key not found');
+        }
+
+        return this.toKeyInfo(key);
+    }
+
+    private static toKeyInfo(key: typeof jwtSigningKeys.$inferSelect): SigningKeyInfo {
+        return {
+            kid: key.kid,
+            algorithm: key.algorithm as SigningAlgorithm,
+            status: key.status as SigningKeyStatus,
+            activatedAt: key.activatedAt,
+            retiredAt: key.retiredAt,
+            expiresAt: key.expiresAt,
+            createdAt: key.createdAt,
+        };
+    }
+
+    /**
+     * Load every key that is still trusted, from cache when fresh
+     */
+    private static async loadKeys(force: boolean = false): Promise<Map<string, LoadedKey>> {
+        if (!force && cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+            return cache.keys;
+        }
+
+        const rows = await db
+            .select()
+            .from(jwtSigningKeys)
+            .where(
+                or(
+                    ne(jwtSigningKeys.status, 'retired'),
+                    and(
+                        eq(jwtSigningKeys.status, 'retired'),
+                        or(isNull(jwtSigningKeys.expiresAt), gt(jwtSigningKeys.expiresAt, new Date()))
+                    )
+                )
+            )
+            .orderBy(desc(jwtSigningKeys.activatedAt));
+
+        const keys = new Map<string, LoadedKey>();
+        for (const row of rows) {
+            keys.set(row.kid, {
+                kid: row.kid,
+                algorithm: row.algorithm as SigningAlgorithm,
+                status: row.status as SigningKeyStatus,
+                publicKey: crypto.createPublicKey({ key: row.publicKey as crypto.JsonWebKey, format: 'jwk' }),
+                publicJwk: row.publicKey,
+                encryptedPrivateKey: row.privateKey,
+            });
+        }
+
+        cache = { keys, loadedAt: Date.now() };
+
+        return keys;
+    }
+
+    private static findActive(keys: Map<string, LoadedKey>): LoadedKey | undefined {
+        return Array.from(keys.values()).find((key) => key.status === 'active');
+    }
+
+    private static async audit(action: string, kid: string, metadata: Record<string, unknown> = {}): Promise<void> {
+        const { JWTService } = await import('./jwt');
+
+        await JWTService.createAuditLog({
+            action,
+            targetResource: 'signing_key',
+            targetId: kid,
+            metadata,
+        });
+    }
+
+    /**
+     * Encrypt a private key for storage (iv:authTag:ciphertext)
+     */
+    private static encryptPrivateKey(pem: string): string {
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+        const encrypted = Buffer.concat([cipher.update(pem, 'utf8'), cipher.final()]);
+
+        return `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${encrypted.toString('hex')}`;
+    }
+
+    /**
+     * Decrypt a stored private key
+     */
+    private static decryptPrivateKey(stored: string): string {
+        const [iv, authTag, encrypted] = stored.split(':');
+        const decipher = crypto.createDecipheriv(
+            'aes-256-gcm',
+            this.getEncryptionKey(),
+            Buffer.from(iv, 'hex')
+        );
+        decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+
+        return Buffer.concat([
+            decipher.update(Buffer.from(encrypted, 'hex')),
+            decipher.final(),
+        ]).toString('utf8');
+    }
+
+    private static getEncryptionKey(): Buffer {
+        return crypto.createHash('sha256').update(JWT_KEY_ENCRYPTION_KEY).digest();
+    }
+}
@@ -0,0 +1,140 @@
+import * as crypto from 'crypto';
+
+// RFC 6238 parameters (compatible with Google Authenticator, 1Password, Authy, etc.)
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_ALGORITHM = 'sha1';
+const TOTP_SECRET_BYTES = 20;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export class TOTPService {
+    /**
+     * Generate a new random base32-encoded secret
+     */
+    static generateSecret(): string {
+        return this.base32Encode(crypto.randomBytes(TOTP_SECRET_BYTES));
+    }
+
+    /**
+     * Get the time step for a given timestamp
+     */
+    static getTimeStep(timestamp: number = Date.now()): number {
+        return Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+    }
+
+    /**
+     * Generate the code for a given time step (RFC 4226 HOTP over the time counter)
+     */
+    static generateCode(secret: string, step: number = this.getTimeStep()): string {
+        const counter = Buffer.alloc(8);
+        counter.writeBigUInt64BE(BigInt(step));
+
+        const hmac = crypto
+            .createHmac(TOTP_ALGORITHM, this.base32Decode(secret))
+            .update(counter)
+            .digest();
+
+        // Dynamic truncation
+        const offset = hmac[hmac.length - 1] & 0x0f;
+        const binary =
+            ((hmac[offset] & 0x7f) << 24) |
+            ((hmac[offset + 1] & 0xff) << 16) |
+            ((hmac[offset + 2] & 0xff) << 8) |
+            (hmac[offset + 3] & 0xff);
+
+        return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+    }
+
+    /**
+     * Verify a code, allowing for clock drift of `window` steps in either direction.
+     * Returns the matched time step, or null if the code is invalid.
+     */
+    static verifyCode(secret: string, code: string, window: number = 1): number | null {
+        const normalized = code.replace(/\s+/g, '');
+        if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+            return null;
+        }
+
+        const currentStep = this.getTimeStep();
+        const provided = Buffer.from(normalized);
+
+        for (let offset = -window; offset <= window; offset++) {
+            const step = currentStep + offset;
+            const expected = Buffer.from(this.generateCode(secret, step));
+
+            if (crypto.timingSafeEqual(expected, provided)) {
+                return step;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Build an otpauth:// URI for authenticator apps (usually rendered as a QR code)
+     */
+    static buildOtpauthUrl(secret: string, accountName: string, issuer: string = 'EPOP'): string {
+        const label = encodeURIComponent(`${issuer}:${accountName}`);
+        const params = new URLSearchParams({
+            secret,
+            issuer,
+            algorithm: TOTP_ALGORITHM.toUpperCase(),
+            digits: TOTP_DIGITS.toString(),
+            period: TOTP_PERIOD_SECONDS.toString(),
+        });
+
+        return `otpauth://totp/${label}?${params.toString()}`;
+    }
+
+    /**
+     * Encode bytes as RFC 4648 base32 without padding
+     */
+    private static base32Encode(buffer: Buffer): string {
+        let bits = 0;
+        let value = 0;
+        let output = '';
+
+        for (const byte of buffer) {
+            value = (value << 8) | byte;
+            bits += 8;
+
+            while (bits >= 5) {
+                output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+                bits -= 5;
+            }
+        }
+
+        if (bits > 0) {
+            output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+        }
+
+        return output;
+    }
+
+    /**
+     * Decode an RFC 4648 base32 string
+     */
+    private static base32Decode(input: string): Buffer {
+        const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+        const bytes: number[] = [];
+        let bits = 0;
+        let value = 0;
+
+        for (const char of cleaned) {
+            const index = BASE32_ALPHABET.indexOf(char);
+            if (index === -1) {
+                throw new Error('Invalid base32 secret');
+            }
+
+            value = (value << 5) | index;
+            bits += 5;
+
+            if (bits >= 8) {
+                bytes.push((value >>> (bits - 8)) & 0xff);
+                bits -= 8;
+            }
+        }
+
+        return Buffer.from(bytes);
+    }
+}
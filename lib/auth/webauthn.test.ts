@@ -0,0 +1,215 @@
+import * as crypto from 'crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { isoBase64URL, isoCBOR } from '@simplewebauthn/server/helpers';
+import type {
+    AuthenticationResponseJSON,
+    PublicKeyCredentialCreationOptionsJSON,
+    PublicKeyCredentialRequestOptionsJSON,
+    RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { and, eq } from 'drizzle-orm';
+import { createTestDatabase } from '@/db/testing';
+import { db } from '@/db';
+import { auditLogs, users, webauthnCredentials } from '@/db/schema';
+import { WebAuthnService } from './webauthn';
+
+// Read when lib/auth/webauthn.ts loads
+const ORIGIN = vi.hoisted(() => {
+    process.env.WEBAUTHN_RP_ID = 'localhost';
+    process.env.WEBAUTHN_ORIGIN = 'http://localhost:3000';
+    return process.env.WEBAUTHN_ORIGIN;
+});
+
+vi.mock('@/db', async () => ({ ...await import('@/db/schema'), db: await createTestDatabase() }));
+
+// Authenticator data flags (WebAuthn §6.1)
+const USER_PRESENT = 0x01;
+const USER_VERIFIED = 0x04;
+const ATTESTED_CREDENTIAL_DATA = 0x40;
+
+function uint32(value: number): Buffer {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32BE(value);
+    return buffer;
+}
+
+/**
+ * A passkey held in memory: ES256, "none" attestation, user verification always performed
+ */
+class SoftwareAuthenticator {
+    readonly credentialId = isoBase64URL.fromBuffer(new Uint8Array(crypto.randomBytes(16)));
+    counter = 0;
+    private readonly keys = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    private userHandle?: string;
+
+    register(options: PublicKeyCredentialCreationOptionsJSON): RegistrationResponseJSON {
+        const jwk = this.keys.publicKey.export({ format: 'jwk' });
+        // COSE_Key: kty EC2, alg ES256, crv P-256, x, y
+        const publicKey = isoCBOR.encode(new Map<number, number | Uint8Array>([
+            [1, 2],
+            [3, -7],
+            [-1, 1],
+            [-2, new Uint8Array(Buffer.from(jwk.x!, 'base64url'))],
+            [-3, new Uint8Array(Buffer.from(jwk.y!, 'base64url'))],
+        ]));
+        const credentialId = isoBase64URL.toBuffer(this.credentialId);
+        const credentialIdLength = Buffer.alloc(2);
+        credentialIdLength.writeUInt16BE(credentialId.length);
+
+        const authenticatorData = Buffer.concat([
+            this.rpIdHash(options.rp.id!),
+            Buffer.from([USER_PRESENT | USER_VERIFIED | ATTESTED_CREDENTIAL_DATA]),
+            uint32(this.counter),
+            Buffer.alloc(16), // AAGUID
+            credentialIdLength,
+            credentialId,
+            publicKey,
+        ]);
+        const attestationObject = isoCBOR.encode(new Map<string, string | Map<string, never> | Uint8Array>([
+            ['fmt', 'none'],
+            ['attStmt', new Map<string, never>()],
+            ['authData', new Uint8Array(authenticatorData)],
+        ]));
+
+        this.userHandle = options.user.id;
+
+        return {
+            id: this.credentialId,
+            rawId: this.credentialId,
+            type: 'public-key',
+            response: {
+                clientDataJSON: this.clientData('webauthn.create', options.challenge),
+                attestationObject: isoBase64URL.fromBuffer(attestationObject),
+                transports: ['internal'],
+            },
+            clientExtensionResults: {},
+        };
+    }
+
+    /**
+     * Sign an assertion; the counter is incremented first, as a real authenticator does
+     */
+    authenticate(options: PublicKeyCredentialRequestOptionsJSON, counter = ++this.counter): AuthenticationResponseJSON {
+        const clientDataJSON = this.clientData('webauthn.get', options.challenge);
+        const authenticatorData = Buffer.concat([
+            this.rpIdHash(options.rpId!),
+            Buffer.from([USER_PRESENT | USER_VERIFIED]),
+            uint32(counter),
+        ]);
+        const signature = crypto.sign(
+            'sha256',
+            Buffer.concat([authenticatorData, crypto.createHash('sha256').update(isoBase64URL.toBuffer(clientDataJSON)).digest()]),
+            this.keys.privateKey
+        );
+
+        return {
+            id: this.credentialId,
+            rawId: this.credentialId,
+            type: 'public-key',
+            response: {
+                clientDataJSON,
+                authenticatorData: isoBase64URL.fromBuffer(new Uint8Array(authenticatorData)),
+                signature: isoBase64URL.fromBuffer(new Uint8Array(signature)),
+                userHandle: this.userHandle,
+            },
+            clientExtensionResults: {},
+        };
+    }
+
+    private rpIdHash(rpId: string): Buffer {
+        return crypto.createHash('sha256').update(rpId).digest();
+    }
+
+    private clientData(type: string, challenge: string): string {
+        return isoBase64URL.fromUTF8String(JSON.stringify({ type, challenge, origin: ORIGIN, crossOrigin: false }));
+    }
+}
+
+async function createUser(email: string): Promise<string> {
+    const [user] = await db
+        .insert(users)
+        .values({ email, name: 'Passkey User', passwordHash: 'unused' })
+        .returning({ id: users.id });
+
+    return user.id;
+}
+
+async function register(userId: string, authenticator: SoftwareAuthenticator) {
+    const { challengeId, options } = await WebAuthnService.generateRegistrationOptions(userId);
+    return WebAuthnService.verifyRegistration(userId, challengeId, authenticator.register(options), 'Laptop');
+}
+
+async function storedCounter(authenticator: SoftwareAuthenticator): Promise<number> {
+    const [credential] = await db
+        .select({ counter: webauthnCredentials.counter })
+        .from(webauthnCredentials)
+        .where(eq(webauthnCredentials.credentialId, authenticator.credentialId));
+
+    return credential.counter;
+}
+
+describe('WebAuthnService', () => {
+    let userId: string;
+    let authenticator: SoftwareAuthenticator;
+
+    beforeEach(async () => {
+        userId = await createUser(`passkey-${crypto.randomUUID()}@example.com`);
+        authenticator = new SoftwareAuthenticator();
+    });
+
+    it('registers a passkey and signs in with it', async () => {
+        const summary = await register(userId, authenticator);
+        expect(summary).toMatchObject({ name: 'Laptop', deviceType: 'singleDevice', backedUp: false });
+
+        const [{ email }] = await db.select({ email: users.email }).from(users).where(eq(users.id, userId));
+        const { challengeId, options } = await WebAuthnService.generateAuthenticationOptions(email.toUpperCase());
+        expect(options.allowCredentials?.map((credential) => credential.id)).toEqual([authenticator.credentialId]);
+
+        await expect(WebAuthnService.verifyAuthentication(challengeId, authenticator.authenticate(options))).resolves.toBe(userId);
+        expect(await storedCounter(authenticator)).toBe(1);
+    });
+
+    it('accepts each challenge once', async () => {
+        await register(userId, authenticator);
+
+        const { challengeId, options } = await WebAuthnService.generateAuthenticationOptions();
+        await WebAuthnService.verifyAuthentication(challengeId, authenticator.authenticate(options));
+
+        await expect(WebAuthnService.verifyAuthentication(challengeId, authenticator.authenticate(options)))
+            .rejects.toThrow('Invalid or expired challenge');
+    });
+
+    it('rejects a registration for another user\'s challenge', async () => {
+        const otherUserId = await createUser(`other-${crypto.randomUUID()}@example.com`);
+        const { challengeId, options } = await WebAuthnService.generateRegistrationOptions(otherUserId);
+
+        await expect(WebAuthnService.verifyRegistration(userId, challengeId, authenticator.register(options)))
+            .rejects.toThrow('Invalid or expired challenge');
+    });
+
+    it('rejects an assertion whose counter went backwards, as from a cloned authenticator', async () => {
+        const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        await register(userId, authenticator);
+
+        for (let i = 0; i < 3; i++) {
+            const { challengeId, options } = await WebAuthnService.generateAuthenticationOptions();
+            await WebAuthnService.verifyAuthentication(challengeId, authenticator.authenticate(options));
+        }
+        expect(await storedCounter(authenticator)).toBe(3);
+
+        const { challengeId, options } = await WebAuthnService.generateAuthenticationOptions();
+        await expect(WebAuthnService.verifyAuthentication(challengeId, authenticator.authenticate(options, 2)))
+            .rejects.toThrow('Passkey verification failed');
+        expect(logError).toHaveBeenCalledWith(
+            'WebAuthn assertion error:',
+            expect.objectContaining({ message: expect.stringContaining('counter value 2 was lower than expected 3') })
+        );
+
+        expect(await storedCounter(authenticator)).toBe(3);
+        const failures = await db
+            .select({ id: auditLogs.id })
+            .from(auditLogs)
+            .where(and(eq(auditLogs.actorId, userId), eq(auditLogs.action, 'WEBAUTHN_LOGIN_FAILED')));
+        expect(failures).toHaveLength(1);
+    });
+});
@@ -0,0 +1,389 @@
+import {
+    generateRegistrationOptions,
+    verifyRegistrationResponse,
+    generateAuthenticationOptions,
+    verifyAuthenticationResponse,
+} from '@simplewebauthn/server';
+import { isoBase64URL } from '@simplewebauthn/server/helpers';
+import type {
+    AuthenticationResponseJSON,
+    AuthenticatorTransportFuture,
+    PublicKeyCredentialCreationOptionsJSON,
+    PublicKeyCredentialRequestOptionsJSON,
+    RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { eq, and, lt } from 'drizzle-orm';
+import { db } from '@/db';
+import { users, webauthnCredentials, webauthnChallenges } from '@/db/schema';
+import { JWTService } from './jwt';
+
+// Relying party configuration. A software authenticator only needs these to match its origin.
+const WEBAUTHN_RP_ID = process.env.WEBAUTHN_RP_ID || 'localhost';
+const WEBAUTHN_RP_NAME = process.env.WEBAUTHN_RP_NAME || 'EPOP Platform';
+const WEBAUTHN_ORIGIN = process.env.WEBAUTHN_ORIGIN || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // Ceremonies must complete within 5 minutes
+
+type ChallengeType = 'REGISTRATION' | 'AUTHENTICATION';
+
+export interface WebAuthnCredentialSummary {
+    id: string;
+    name: string;
+    deviceType: string;
+    backedUp: boolean;
+    lastUsedAt: Date | null;
+    createdAt: Date;
+}
+
+export class WebAuthnService {
+    /**
+     * Start passkey registration for a signed-in user
+     */
+    static async generateRegistrationOptions(userId: string): Promise<{
+        challengeId: string;
+        options: PublicKeyCredentialCreationOptionsJSON;
+    }> {
+        const [user] = await db
+            .select({ id: users.id, email: users.email, name: users.name })
+            .from(users)
+            .where(eq(users.id, userId))
+            .limit(1);
+
+        if (!user) {
+            throw new Error('User not found');
+        }
+
+        const existingCredentials = await db
+            .select({
+                credentialId: webauthnCredentials.credentialId,
+                transports: webauthnCredentials.transports,
+            })
+            .from(webauthnCredentials)
+            .where(eq(webauthnCredentials.userId, userId));
+
+        const options = await generateRegistrationOptions({
+            rpName: WEBAUTHN_RP_NAME,
+            rpID: WEBAUTHN_RP_ID,
+            userName: user.email,
+            userDisplayName: user.name,
+            userID: new TextEncoder().encode(user.id),
+            attestationType: 'none',
+            excludeCredentials: existingCredentials.map((credential) => ({
+                id: credential.credentialId,
+                transports: (credential.transports as AuthenticatorTransportFuture[] | null) ?? undefined,
+            })),
+            authenticatorSelection: {
+                residentKey: 'required',
+                userVerification: 'required',
+            },
+        });
+
+        const challengeId = await this.storeChallenge(options.challenge, 'REGISTRATION', userId);
+
+        return { challengeId, options };
+    }
+
+    /**
+     * Verify the authenticator's attestation and store the new credential
+     */
+    static async verifyRegistration(
+        userId: string,
+        challengeId: string,
+        response: RegistrationResponseJSON,
+        name?: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<WebAuthnCredentialSummary> {
+        const challenge = await this.consumeChallenge(challengeId, 'REGISTRATION');
+
+        if (challenge.userId !== userId) {
+            throw new Error('Invalid or expired challenge');
+        }
+
+        let verification;
+        try {
+            verification = await verifyRegistrationResponse({
+                response,
+                expectedChallenge: challenge.challenge,
+                expectedOrigin: WEBAUTHN_ORIGIN,
+                expectedRPID: WEBAUTHN_RP_ID,
+                requireUserVerification: true,
+            });
+        } catch (error) {
+            await JWTService.createAuditLog({
+                actorId: userId,
+                action: 'WEBAUTHN_REGISTRATION_FAILED',
+                targetResource: 'webauthn_credential',
+                ipAddress,
+                userAgent,
+                success: false,
+                errorMessage: error instanceof Error ? error.message : 'Registration verification failed',
+            });
+
+            throw new Error('Passkey registration verification failed');
+        }
+
+        if (!verification.verified) {
+            throw new Error('Passkey registration verification failed');
+        }
+
+        const { credential, credentialDeviceType, credentialBackedUp, aaguid } = verification.registrationInfo;
+
+        const [created] = await db
+            .insert(webauthnCredentials)
+            .values({
+                userId,
+                credentialId: credential.id,
+                publicKey: isoBase64URL.fromBuffer(credential.publicKey),
+                counter: credential.counter,
+                transports: credential.transports ?? [],
+                deviceType: credentialDeviceType,
+                backedUp: credentialBackedUp,
+                aaguid,
+                name: name || 'Passkey',
+            })
+            .returning();
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'WEBAUTHN_CREDENTIAL_REGISTERED',
+            targetResource: 'webauthn_credential',
+            targetId: created.id,
+            metadata: {
+                deviceType: credentialDeviceType,
+                backedUp: credentialBackedUp,
+                aaguid,
+            },
+            ipAddress,
+            userAgent,
+        });
+
+        return this.toSummary(created);
+    }
+
+    /**
+     * Start a passwordless sign-in. Without an email the browser offers any discoverable passkey.
+     */
+    static async generateAuthenticationOptions(email?: string): Promise<{
+        challengeId: string;
+        options: PublicKeyCredentialRequestOptionsJSON;
+    }> {
+        let allowCredentials: { id: string; transports?: AuthenticatorTransportFuture[] }[] | undefined;
+
+        if (email) {
+            const credentials = await db
+                .select({
+                    credentialId: webauthnCredentials.credentialId,
+                    transports: webauthnCredentials.transports,
+                })
+                .from(webauthnCredentials)
+                .innerJoin(users, eq(users.id, webauthnCredentials.userId))
+                .where(eq(users.email, email.toLowerCase()));
+
+            // An unknown email falls back to discoverable credentials to avoid user enumeration
+            if (credentials.length > 0) {
+                allowCredentials = credentials.map((credential) => ({
+                    id: credential.credentialId,
+                    transports: (credential.transports as AuthenticatorTransportFuture[] | null) ?? undefined,
+                }));
+            }
+        }
+
+        const options = await generateAuthenticationOptions({
+            rpID: WEBAUTHN_RP_ID,
+            allowCredentials,
+            userVerification: 'required',
+        });
+
+        const challengeId = await this.storeChallenge(options.challenge, 'AUTHENTICATION');
+
+        return { challengeId, options };
+    }
+
+    /**
+     * Verify an assertion and return the authenticated user ID
+     */
+    static async verifyAuthentication(
+        challengeId: string,
+        response: AuthenticationResponseJSON,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<string> {
+        const challenge = await this.consumeChallenge(challengeId, 'AUTHENTICATION');
+
+        const [credential] = await db
+            .select()
+            .from(webauthnCredentials)
+            .where(eq(webauthnCredentials.credentialId, response.id))
+            .limit(1);
+
+        if (!credential) {
+            await JWTService.createAuditLog({
+                action: 'WEBAUTHN_LOGIN_FAILED',
+                targetResource: 'webauthn_credential',
+                metadata: { credentialId: response.id },
+                ipAddress,
+                userAgent,
+                success: false,
+                errorMessage: 'Unknown credential',
+            });
+
+            throw new Error('Passkey not recognized');
+        }
+
+        let verification;
+        try {
+            verification = await verifyAuthenticationResponse({
+                response,
+                expectedChallenge: challenge.challenge,
+                expectedOrigin: WEBAUTHN_ORIGIN,
+                expectedRPID: WEBAUTHN_RP_ID,
+                credential: {
+                    id: credential.credentialId,
+                    publicKey: isoBase64URL.toBuffer(credential.publicKey),
+                    counter: credential.counter,
+                    transports: (credential.transports as AuthenticatorTransportFuture[] | null) ?? undefined,
+                },
+                requireUserVerification: true,
+            });
+        } catch (error) {
+            verification = null;
+            console.error('WebAuthn assertion error:', error);
+        }
+
+        if (!verification?.verified) {
+            await JWTService.createAuditLog({
+                actorId: credential.userId,
+                action: 'WEBAUTHN_LOGIN_FAILED',
+                targetResource: 'webauthn_credential',
+                targetId: credential.id,
+                ipAddress,
+                userAgent,
+                success: false,
+                errorMessage: 'Assertion verification failed',
+            });
+
+            throw new Error('Passkey verification failed');
+        }
+
+        await db
+            .update(webauthnCredentials)
+            .set({
+                counter: verification.authenticationInfo.newCounter,
+                backedUp: verification.authenticationInfo.credentialBackedUp,
+                lastUsedAt: new Date(),
+            })
+            .where(eq(webauthnCredentials.id, credential.id));
+
+        await JWTService.createAuditLog({
+            actorId: credential.userId,
+            action: 'WEBAUTHN_LOGIN',
+            targetResource: 'webauthn_credential',
+            targetId: credential.id,
+            ipAddress,
+            userAgent,
+        });
+
+        return credential.userId;
+    }
+
+    /**
+     * List a user's registered passkeys
+     */
+    static async listCredentials(userId: string): Promise<WebAuthnCredentialSummary[]> {
+        const credentials = await db
+            .select()
+            .from(webauthnCredentials)
+            .where(eq(webauthnCredentials.userId, userId));
+
+        return credentials.map((credential) => this.toSummary(credential));
+    }
+
+    /**
+     * Remove one of a user's passkeys
+     */
+    static async deleteCredential(
+        userId: string,
+        credentialId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const result = await db
+            .delete(webauthnCredentials)
+            .where(
+                and(
+                    eq(webauthnCredentials.id, credentialId),
+                    eq(webauthnCredentials.userId, userId)
+                )
+            );
+
+        if (result.rowCount === 0) {
+            throw new Error('Passkey not found');
+        }
+
+        await JWTService.createAuditLog({
+            actorId: userId,
+            action: 'WEBAUTHN_CREDENTIAL_REMOVED',
+            targetResource: 'webauthn_credential',
+            targetId: credentialId,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Persist a ceremony challenge and clean up expired ones
+     */
+    private static async storeChallenge(
+        challenge: string,
+        type: ChallengeType,
+        userId?: string
+    ): Promise<string> {
+        await db
+            .delete(webauthnChallenges)
+            .where(lt(webauthnChallenges.expiresAt, new Date()));
+
+        const [record] = await db
+            .insert(webauthnChallenges)
+            .values({
+                userId,
+                challenge,
+                type,
+                expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+            })
+            .returning({ id: webauthnChallenges.id });
+
+        return record.id;
+    }
+
+    /**
+     * Load and delete a challenge so that it can only be used once
+     */
+    private static async consumeChallenge(challengeId: string, type: ChallengeType) {
+        const [record] = await db
+            .delete(webauthnChallenges)
+            .where(
+                and(
+                    eq(webauthnChallenges.id, challengeId),
+                    eq(webauthnChallenges.type, type)
+                )
+            )
+            .returning();
+
+        if (!record || record.expiresAt < new Date()) {
+            throw new Error('Invalid or expired challenge');
+        }
+
+        return record;
+    }
+
+    private static toSummary(credential: typeof webauthnCredentials.$inferSelect): WebAuthnCredentialSummary {
+        return {
+            id: credential.id,
+            name: credential.name,
+            deviceType: credential.deviceType,
+            backedUp: credential.backedUp,
+            lastUsedAt: credential.lastUsedAt,
+            createdAt: credential.createdAt,
+        };
+    }
+}
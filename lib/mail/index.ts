@@ -0,0 +1,71 @@
+import { mailTemplates, MailTemplateData, MailTemplateName } from './templates';
+import { MailTransport, MemoryTransport, OutboxTransport, SmtpTransport } from './transports';
+
+export type { MailContent, MailTemplateData, MailTemplateName } from './templates';
+export { MemoryTransport, OutboxTransport, SmtpTransport } from './transports';
+export type { MailMessage, MailTransport } from './transports';
+
+let transport: MailTransport | null = null;
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT (smtp, outbox or memory).
+ * Defaults to SMTP in production and the outbox directory elsewhere.
+ */
+function createTransport(): MailTransport {
+    const kind = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'outbox');
+
+    switch (kind) {
+        case 'smtp':
+            if (!process.env.SMTP_HOST) {
+                throw new Error('SMTP_HOST must be set to use the smtp mail transport');
+            }
+
+            return new SmtpTransport({
+                host: process.env.SMTP_HOST,
+                port: parseInt(process.env.SMTP_PORT || '587'),
+                secure: process.env.SMTP_SECURE === 'true',
+                user: process.env.SMTP_USER,
+                password: process.env.SMTP_PASSWORD,
+            });
+        case 'outbox':
+            return new OutboxTransport(process.env.MAIL_OUTBOX_DIR || '.mail-outbox');
+        case 'memory':
+            return new MemoryTransport();
+        default:
+            throw new Error(`Unknown mail transport: ${kind}`);
+    }
+}
+
+export class MailService {
+    /**
+     * Render a template and deliver it to a single recipient
+     */
+    static async send<K extends MailTemplateName>(
+        to: string,
+        template: K,
+        data: MailTemplateData[K]
+    ): Promise<void> {
+        const content = mailTemplates[template](data);
+
+        await this.getTransport().send({
+            from: process.env.MAIL_FROM || 'EPOP <no-reply@localhost>',
+            to,
+            ...content,
+        });
+    }
+
+    static getTransport(): MailTransport {
+        if (!transport) {
+            transport = createTransport();
+        }
+
+        return transport;
+    }
+
+    /**
+     * Replace the active transport (e.g. with a MemoryTransport in tests)
+     */
+    static setTransport(value: MailTransport | null): void {
+        transport = value;
+    }
+}
@@ -0,0 +1,282 @@
+export interface MailContent {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+/**
+ * Data required by each template. Adding a template here forces a renderer to exist for it.
+ */
+export interface MailTemplateData {
+    passwordReset: {
+        name?: string;
+        resetUrl: string;
+        expiresInMinutes: number;
+    };
+    emailVerification: {
+        name?: string;
+        verifyUrl: string;
+        expiresInHours: number;
+    };
+    magicLink: {
+        name?: string;
+        signInUrl: string;
+        expiresInMinutes: number;
+    };
+    invitation: {
+        inviterName: string;
+        projectName: string;
+        inviteUrl: string;
+    };
+    loginAlert: {
+        name?: string;
+        reasons: string[];
+        device: string;
+        ipAddress: string;
+        location?: string;
+        occurredAt: Date;
+        blocked: boolean;
+        securityUrl: string;
+    };
+    loginChallenge: {
+        name?: string;
+        code: string;
+        expiresInMinutes: number;
+        device: string;
+        ipAddress: string;
+    };
+    accountDeletionScheduled: {
+        name?: string;
+        scheduledFor: Date;
+        cancelUrl: string;
+    };
+    notificationDigest: {
+        name?: string;
+        notifications: {
+            title: string;
+            message: string;
+            createdAt: Date;
+        }[];
+        dashboardUrl: string;
+    };
+}
+
+export type MailTemplateName = keyof MailTemplateData;
+
+const APP_NAME = 'EPOP';
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function greeting(name?: string): string {
+    return name ? `Hi ${name},` : 'Hi,';
+}
+
+/**
+ * Wrap template body HTML in the shared email layout
+ */
+function layout(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b;">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+${body}
+<p style="margin-top:32px;font-size:12px;color:#71717a;">This email was sent by ${APP_NAME}. If you did not expect it, you can ignore it.</p>
+</div>
+</body>
+</html>`;
+}
+
+function button(url: string, label: string): string {
+    return `<p><a href="${escapeHtml(url)}" style="display:inline-block;padding:10px 20px;background:#18181b;color:#ffffff;border-radius:6px;text-decoration:none;">${escapeHtml(label)}</a></p>
+<p style="font-size:12px;color:#71717a;">Or copy this link into your browser: ${escapeHtml(url)}</p>`;
+}
+
+export const mailTemplates: { [K in MailTemplateName]: (data: MailTemplateData[K]) => MailContent } = {
+    passwordReset: (data) => {
+        const subject = `Reset your ${APP_NAME} password`;
+
+        return {
+            subject,
+            html: layout(subject, `<p>${escapeHtml(greeting(data.name))}</p>
+<p>We received a request to reset your password. This link expires in ${data.expiresInMinutes} minutes.</p>
+${button(data.resetUrl, 'Reset password')}
+<p>If you did not request a password reset, no action is needed.</p>`),
+            text: `${greeting(data.name)}
+
+We received a request to reset your password. This link expires in ${data.expiresInMinutes} minutes.
+
+${data.resetUrl}
+
+If you did not request a password reset, no action is needed.`,
+        };
+    },
+
+    emailVerification: (data) => {
+        const subject = `Verify your ${APP_NAME} email address`;
+
+        return {
+            subject,
+            html: layout(subject, `<p>${escapeHtml(greeting(data.name))}</p>
+<p>Please confirm your email address. This link expires in ${data.expiresInHours} hours.</p>
+${button(data.verifyUrl, 'Verify email')}`),
+            text: `${greeting(data.name)}
+
+Please confirm your email address. This link expires in ${data.expiresInHours} hours.
+
+${data.verifyUrl}`,
+        };
+    },
+
+    magicLink: (data) => {
+        const subject = `Your ${APP_NAME} sign-in link`;
+
+        return {
+            subject,
+            html: layout(subject, `<p>${escapeHtml(greeting(data.name))}</p>
+<p>Use this link to sign in. It works once, only in the browser where you requested it, and expires in ${data.expiresInMinutes} minutes.</p>
+${button(data.signInUrl, 'Sign in')}
+<p>If you did not request a sign-in link, no action is needed.</p>`),
+            text: `${greeting(data.name)}
+
+Use this link to sign in. It works once, only in the browser where you requested it, and expires in ${data.expiresInMinutes} minutes.
+
+${data.signInUrl}
+
+If you did not request a sign-in link, no action is needed.`,
+        };
+    },
+
+    invitation: (data) => {
+        const subject = `${data.inviterName} invited you to ${data.projectName}`;
+
+        return {
+            subject,
+            html: layout(subject, `<p>${escapeHtml(data.inviterName)} invited you to join <strong>${escapeHtml(data.projectName)}</strong> on ${APP_NAME}.</p>
+${button(data.inviteUrl, 'Accept invitation')}`),
+            text: `${data.inviterName} invited you to join ${data.projectName} on ${APP_NAME}.
+
+${data.inviteUrl}`,
+        };
+    },
+
+    loginAlert: (data) => {
+        const subject = data.blocked
+            ? `We blocked a sign-in to your ${APP_NAME} account`
+            : `New sign-in to your ${APP_NAME} account`;
+        const intro = data.blocked
+            ? 'Someone entered your password, but we blocked the sign-in because it looked unusual:'
+            : 'Your account was signed in to in a way that looked unusual:';
+        const details = [
+            `Device: ${data.device}`,
+            `IP address: ${data.ipAddress}`,
+            ...(data.location ? [`Location: ${data.location}`] : []),
+            `Time: ${data.occurredAt.toUTCString()}`,
+        ];
+
+        return {
+            subject,
+            html: layout(subject, `<p>${escapeHtml(greeting(data.name))}</p>
+<p>${escapeHtml(intro)}</p>
+<ul style="padding-left:20px;">
+${data.reasons.map((reason) => `<li>${escapeHtml(reason)}</li>`).join('\n')}
+</ul>
+<p style="font-size:14px;color:#52525b;">${details.map(escapeHtml).join('<br>')}</p>
+<p>If this was you, no action is needed. Otherwise change your password and sign out of sessions you do not recognize.</p>
+${button(data.securityUrl, 'Review account security')}`),
+            text: `${greeting(data.name)}
+
+${intro}
+
+${data.reasons.map((reason) => `- ${reason}`).join('\n')}
+
+${details.join('\n')}
+
+If this was you, no action is needed. Otherwise change your password and sign out of sessions you do not recognize.
+
+${data.securityUrl}`,
+        };
+    },
+
+    loginChallenge: (data) => {
+        const subject = `Your ${APP_NAME} sign-in code`;
+
+        return {
+            subject,
+            html: layout(subject, `<p>${escapeHtml(greeting(data.name))}</p>
+<p>We need to confirm a sign-in from ${escapeHtml(data.device)} (${escapeHtml(data.ipAddress)}). Enter this code to continue. It expires in ${data.expiresInMinutes} minutes.</p>
+<p style="font-size:28px;font-weight:bold;letter-spacing:6px;">${escapeHtml(data.code)}</p>
+<p>If you are not signing in, someone else knows your password. Change it as soon as possible.</p>`),
+            text: `${greeting(data.name)}
+
+We need to confirm a sign-in from ${data.device} (${data.ipAddress}). Enter this code to continue. It expires in ${data.expiresInMinutes} minutes.
+
+${data.code}
+
+If you are not signing in, someone else knows your password. Change it as soon as possible.`,
+        };
+    },
+
+    accountDeletionScheduled: (data) => {
+        const subject = `Your ${APP_NAME} account will be deleted`;
+        const intro = `Your account and its data will be permanently deleted on ${data.scheduledFor.toUTCString()}. You have been signed out everywhere.`;
+
+        return {
+            subject,
+            html: layout(subject, `<p>${escapeHtml(greeting(data.name))}</p>
+<p>${escapeHtml(intro)}</p>
+<p>Changed your mind? Sign in before then and cancel the deletion from your settings.</p>
+${button(data.cancelUrl, 'Keep my account')}
+<p>If you did not ask for this, sign in, cancel the deletion and change your password.</p>`),
+            text: `${greeting(data.name)}
+
+${intro}
+
+Changed your mind? Sign in before then and cancel the deletion from your settings.
+
+${data.cancelUrl}
+
+If you did not ask for this, sign in, cancel the deletion and change your password.`,
+        };
+    },
+
+    notificationDigest: (data) => {
+        const count = data.notifications.length;
+        const subject = `You have ${count} new notification${count === 1 ? '' : 's'}`;
+
+        const items = data.notifications
+            .map((notification) => `<li style="margin-bottom:12px;"><strong>${escapeHtml(notification.title)}</strong><br>${escapeHtml(notification.message)}<br><span style="font-size:12px;color:#71717a;">${notification.createdAt.toUTCString()}</span></li>`)
+            .join('\n');
+
+        const textItems = data.notifications
+            .map((notification) => `- ${notification.title}: ${notification.message} (${notification.createdAt.toUTCString()})`)
+            .join('\n');
+
+        return {
+            subject,
+            html: layout(subject, `<p>${escapeHtml(greeting(data.name))}</p>
+<p>Here is what you missed:</p>
+<ul style="padding-left:20px;">
+${items}
+</ul>
+${button(data.dashboardUrl, 'Open dashboard')}`),
+            text: `${greeting(data.name)}
+
+Here is what you missed:
+
+${textItems}
+
+${data.dashboardUrl}`,
+        };
+    },
+};
@@ -0,0 +1,75 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+    from: string;
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+}
+
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Deliver mail through an SMTP server
+ */
+export class SmtpTransport implements MailTransport {
+    private transporter: Transporter;
+
+    constructor(options: {
+        host: string;
+        port: number;
+        secure: boolean;
+        user?: string;
+        password?: string;
+    }) {
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            auth: options.user ? { user: options.user, pass: options.password } : undefined,
+        });
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        await this.transporter.sendMail(message);
+    }
+}
+
+/**
+ * Write each message as an .eml file so it can be opened in a mail client during development
+ */
+export class OutboxTransport implements MailTransport {
+    private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+    constructor(private directory: string) {}
+
+    async send(message: MailMessage): Promise<void> {
+        const info = await this.transporter.sendMail(message);
+
+        await fs.mkdir(this.directory, { recursive: true });
+
+        const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+        await fs.writeFile(path.join(this.directory, fileName), info.message as Buffer);
+    }
+}
+
+/**
+ * Keep messages in memory for tests
+ */
+export class MemoryTransport implements MailTransport {
+    readonly messages: MailMessage[] = [];
+
+    async send(message: MailMessage): Promise<void> {
+        this.messages.push(message);
+    }
+
+    clear(): void {
+        this.messages.length = 0;
+    }
+}
@@ -0,0 +1,684 @@
+import { eq, and, inArray, isNull, ne, desc, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import {
+    users,
+    projects,
+    projectMembers,
+    conversations,
+    conversationMembers,
+    conversationTypeEnum,
+    messages,
+} from '@/db/schema';
+import { PermissionService } from '@/lib/permissions';
+import { textDocument } from './tiptap';
+
+export const CONVERSATION_TYPES = conversationTypeEnum.enumValues;
+export type ConversationType = typeof CONVERSATION_TYPES[number];
+
+export const CONVERSATION_ROLES = ['ADMIN', 'MEMBER'] as const;
+export type ConversationRole = typeof CONVERSATION_ROLES[number];
+
+export type MessagingTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface ConversationSummary {
+    id: string;
+    type: ConversationType;
+    title: string | null;
+    description: string | null;
+    avatarUrl: string | null;
+    isArchived: boolean;
+    projectId: string | null;
+    lastMessageAt: Date | null;
+    lastMessage: {
+        id: string;
+        senderId: string | null;
+        bodyPlain: string;
+        messageType: string;
+        isDeleted: boolean;
+        createdAt: Date;
+    } | null;
+    role: string;
+    isMuted: boolean;
+    unreadCount: number;
+    createdAt: Date;
+}
+
+export interface ConversationMember {
+    userId: string;
+    name: string;
+    email: string;
+    avatarUrl: string | null;
+    role: string;
+    joinedAt: Date;
+}
+
+export type CreateConversationInput =
+    | { type: 'DM'; userId: string }
+    | { type: 'GROUP'; title: string; description?: string; memberIds: string[] }
+    | { type: 'PROJECT'; projectId: string; title?: string; description?: string };
+
+/**
+ * One key per pair of users, whichever of them starts the DM
+ */
+function directKey(userId: string, otherUserId: string): string {
+    return [userId, otherUserId].sort().join(':');
+}
+
+export class ConversationService {
+    /**
+     * Conversations the user belongs to, most recently active first, with unread counts derived
+     * from the member's lastReadMessageId (or when they joined, before they have read anything)
+     */
+    static async listForUser(
+        userId: string,
+        { archived = false }: { archived?: boolean } = {}
+    ): Promise<ConversationSummary[]> {
+        const rows = await db
+            .select({
+                id: conversations.id,
+                type: conversations.type,
+                title: conversations.title,
+                description: conversations.description,
+                avatarUrl: conversations.avatarUrl,
+                isArchived: conversations.isArchived,
+                projectId: conversations.projectId,
+                lastMessageAt: conversations.lastMessageAt,
+                lastMessageId: messages.id,
+                lastMessageSenderId: messages.senderId,
+                lastMessageBody: messages.bodyPlain,
+                lastMessageType: messages.messageType,
+                lastMessageDeleted: messages.isDeleted,
+                lastMessageCreatedAt: messages.createdAt,
+                role: conversationMembers.role,
+                isMuted: conversationMembers.isMuted,
+                unreadCount: sql<number>`(
+                    select count(*)::int from messages m
+                    where m.conversation_id = ${conversations.id}
+                        and m.is_deleted = false
+                        and m.sender_id is distinct from ${userId}
+                        and m.created_at > coalesce(
+                            (select r.created_at from messages r where r.id = ${conversationMembers.lastReadMessageId}),
+                            ${conversationMembers.joinedAt}
+                        )
+                )`,
+                createdAt: conversations.createdAt,
+            })
+            .from(conversationMembers)
+            .innerJoin(conversations, eq(conversations.id, conversationMembers.conversationId))
+            .leftJoin(messages, eq(messages.id, conversations.lastMessageId))
+            .where(
+                and(
+                    eq(conversationMembers.userId, userId),
+                    isNull(conversationMembers.leftAt),
+                    eq(conversations.isArchived, archived)
+                )
+            )
+            .orderBy(sql`${conversations.lastMessageAt} desc nulls last`, desc(conversations.createdAt));
+
+        return rows.map(({
+            lastMessageId,
+            lastMessageSenderId,
+            lastMessageBody,
+            lastMessageType,
+            lastMessageDeleted,
+            lastMessageCreatedAt,
+            ...conversation
+        }) => ({
+            ...conversation,
+            lastMessage: lastMessageId
+                ? {
+                    id: lastMessageId,
+                    senderId: lastMessageSenderId,
+                    // Deleted messages keep their place but not their text
+                    bodyPlain: lastMessageDeleted ? '' : lastMessageBody!,
+                    messageType: lastMessageType!,
+                    isDeleted: lastMessageDeleted!,
+                    createdAt: lastMessageCreatedAt!,
+                }
+                : null,
+        }));
+    }
+
+    /**
+     * A conversation with its current members
+     */
+    static async get(conversationId: string): Promise<typeof conversations.$inferSelect & { members: ConversationMember[] }> {
+        const [conversation] = await db
+            .select()
+            .from(conversations)
+            .where(eq(conversations.id, conversationId))
+            .limit(1);
+
+        if (!conversation) {
+            throw new Error('Conversation not found');
+        }
+
+        const members = await db
+            .select({
+                userId: users.id,
+                name: users.name,
+                email: users.email,
+                avatarUrl: users.avatarUrl,
+                role: conversationMembers.role,
+                joinedAt: conversationMembers.joinedAt,
+            })
+            .from(conversationMembers)
+            .innerJoin(users, eq(users.id, conversationMembers.userId))
+            .where(
+                and(
+                    eq(conversationMembers.conversationId, conversationId),
+                    isNull(conversationMembers.leftAt)
+                )
+            )
+            .orderBy(conversationMembers.joinedAt);
+
+        return { ...conversation, members };
+    }
+
+    /**
+     * Start a conversation. A DM with someone who already has one with the caller returns
+     * the existing conversation with created set to false.
+     */
+    static async create(
+        user: { id: string; role: string },
+        input: CreateConversationInput
+    ): Promise<{ conversation: typeof conversations.$inferSelect; created: boolean }> {
+        switch (input.type) {
+            case 'DM':
+                return this.createDirect(user.id, input.userId);
+
+            case 'GROUP': {
+                const memberIds = [...new Set(input.memberIds)].filter((id) => id !== user.id);
+                await this.assertActiveUsers(memberIds);
+
+                const conversation = await db.transaction(async (tx) => {
+                    const [created] = await tx
+                        .insert(conversations)
+                        .values({
+                            type: 'GROUP',
+                            title: input.title,
+                            description: input.description,
+                            createdBy: user.id,
+                        })
+                        .returning();
+
+                    await tx.insert(conversationMembers).values([
+                        { conversationId: created.id, userId: user.id, role: 'ADMIN', addedBy: user.id },
+                        ...memberIds.map((userId) => ({
+                            conversationId: created.id,
+                            userId,
+                            role: 'MEMBER',
+                            addedBy: user.id,
+                        })),
+                    ]);
+
+                    return created;
+                });
+
+                return { conversation, created: true };
+            }
+
+            case 'PROJECT': {
+                const decision = await PermissionService.check(user, 'project', 'update', input.projectId);
+
+                if (decision === 'not_found') {
+                    throw new Error('Project not found');
+                }
+
+                if (decision === 'forbidden') {
+                    throw new Error('Not allowed to start conversations for this project');
+                }
+
+                const [project] = await db
+                    .select({ name: projects.name })
+                    .from(projects)
+                    .where(eq(projects.id, input.projectId))
+                    .limit(1);
+
+                // Everyone on the project joins; owners and maintainers administer the conversation
+                const team = await db
+                    .select({ userId: projectMembers.userId, role: projectMembers.role })
+                    .from(projectMembers)
+                    .innerJoin(users, eq(users.id, projectMembers.userId))
+                    .where(
+                        and(
+                            eq(projectMembers.projectId, input.projectId),
+                            eq(projectMembers.isActive, true),
+                            eq(users.status, 'ACTIVE'),
+                            ne(projectMembers.userId, user.id)
+                        )
+                    );
+
+                const conversation = await db.transaction(async (tx) => {
+                    const [created] = await tx
+                        .insert(conversations)
+                        .values({
+                            type: 'PROJECT',
+                            title: input.title || project.name,
+                            description: input.description,
+                            projectId: input.projectId,
+                            createdBy: user.id,
+                        })
+                        .returning();
+
+                    await tx.insert(conversationMembers).values([
+                        { conversationId: created.id, userId: user.id, role: 'ADMIN', addedBy: user.id },
+                        ...team.map((member) => ({
+                            conversationId: created.id,
+                            userId: member.userId,
+                            role: member.role === 'OWNER' || member.role === 'MAINTAINER' ? 'ADMIN' : 'MEMBER',
+                            addedBy: user.id,
+                        })),
+                    ]);
+
+                    return created;
+                });
+
+                return { conversation, created: true };
+            }
+        }
+    }
+
+    /**
+     * Rename, describe or archive a conversation
+     */
+    static async update(
+        actorId: string,
+        conversationId: string,
+        changes: { title?: string; description?: string | null; isArchived?: boolean }
+    ): Promise<typeof conversations.$inferSelect> {
+        const existing = await this.getConversation(conversationId);
+
+        if (existing.type === 'DM' && (changes.title !== undefined || changes.description !== undefined)) {
+            throw new Error('Direct messages cannot be renamed');
+        }
+
+        return db.transaction(async (tx) => {
+            const [updated] = await tx
+                .update(conversations)
+                .set({ ...changes, updatedAt: new Date() })
+                .where(eq(conversations.id, conversationId))
+                .returning();
+
+            if (changes.title !== undefined && changes.title !== existing.title) {
+                const actor = await this.getUserName(actorId);
+                await this.postSystemMessage(tx, conversationId, actorId, `${actor} renamed the conversation to "${changes.title}"`);
+            }
+
+            return updated;
+        });
+    }
+
+    /**
+     * Add someone to a group or project conversation, or bring back a member who left
+     */
+    static async addMember(
+        actorId: string,
+        conversationId: string,
+        userId: string,
+        role: ConversationRole = 'MEMBER'
+    ): Promise<void> {
+        const conversation = await this.getConversation(conversationId);
+
+        if (conversation.type === 'DM') {
+            throw new Error('Direct messages have fixed members');
+        }
+
+        await this.assertActiveUsers([userId]);
+
+        if (conversation.type === 'PROJECT' && conversation.projectId) {
+            const [projectMember] = await db
+                .select({ id: projectMembers.id })
+                .from(projectMembers)
+                .where(
+                    and(
+                        eq(projectMembers.projectId, conversation.projectId),
+                        eq(projectMembers.userId, userId),
+                        eq(projectMembers.isActive, true)
+                    )
+                )
+                .limit(1);
+
+            if (!projectMember) {
+                throw new Error('User is not a member of the project');
+            }
+        }
+
+        const [membership] = await db
+            .select({ id: conversationMembers.id, leftAt: conversationMembers.leftAt })
+            .from(conversationMembers)
+            .where(
+                and(
+                    eq(conversationMembers.conversationId, conversationId),
+                    eq(conversationMembers.userId, userId)
+                )
+            )
+            .limit(1);
+
+        if (membership && !membership.leftAt) {
+            throw new Error('User is already a member');
+        }
+
+        const [actor, target] = await Promise.all([this.getUserName(actorId), this.getUserName(userId)]);
+
+        await db.transaction(async (tx) => {
+            if (membership) {
+                await tx
+                    .update(conversationMembers)
+                    .set({
+                        role,
+                        leftAt: null,
+                        joinedAt: new Date(),
+                        lastReadMessageId: null,
+                        addedBy: actorId,
+                    })
+                    .where(eq(conversationMembers.id, membership.id));
+            } else {
+                await tx.insert(conversationMembers).values({
+                    conversationId,
+                    userId,
+                    role,
+                    addedBy: actorId,
+                });
+            }
+
+            await this.postSystemMessage(tx, conversationId, actorId, `${actor} added ${target}`);
+        });
+    }
+
+    /**
+     * Make a member an admin or a regular member
+     */
+    static async updateMemberRole(
+        actorId: string,
+        conversationId: string,
+        userId: string,
+        role: ConversationRole
+    ): Promise<void> {
+        const conversation = await this.getConversation(conversationId);
+
+        if (conversation.type === 'DM') {
+            throw new Error('Direct messages have fixed members');
+        }
+
+        const membership = await this.getActiveMembership(conversationId, userId);
+
+        if (membership.role === role) {
+            return;
+        }
+
+        if (membership.role === 'ADMIN') {
+            await this.assertAnotherAdmin(conversationId, userId);
+        }
+
+        const [actor, target] = await Promise.all([this.getUserName(actorId), this.getUserName(userId)]);
+
+        await db.transaction(async (tx) => {
+            await tx
+                .update(conversationMembers)
+                .set({ role })
+                .where(eq(conversationMembers.id, membership.id));
+
+            await this.postSystemMessage(
+                tx,
+                conversationId,
+                actorId,
+                role === 'ADMIN' ? `${actor} made ${target} an admin` : `${actor} made ${target} a member`
+            );
+        });
+    }
+
+    /**
+     * Remove a member, or leave when the actor removes themselves
+     */
+    static async removeMember(actorId: string, conversationId: string, userId: string): Promise<void> {
+        const conversation = await this.getConversation(conversationId);
+
+        if (conversation.type === 'DM') {
+            throw new Error('Direct messages have fixed members');
+        }
+
+        const membership = await this.getActiveMembership(conversationId, userId);
+
+        if (membership.role === 'ADMIN') {
+            const [otherMember] = await db
+                .select({ id: conversationMembers.id })
+                .from(conversationMembers)
+                .where(
+                    and(
+                        eq(conversationMembers.conversationId, conversationId),
+                        ne(conversationMembers.userId, userId),
+                        isNull(conversationMembers.leftAt)
+                    )
+                )
+                .limit(1);
+
+            // The last person out may turn off the lights
+            if (otherMember) {
+                await this.assertAnotherAdmin(conversationId, userId);
+            }
+        }
+
+        const [actor, target] = await Promise.all([this.getUserName(actorId), this.getUserName(userId)]);
+
+        await db.transaction(async (tx) => {
+            await tx
+                .update(conversationMembers)
+                .set({ leftAt: new Date() })
+                .where(eq(conversationMembers.id, membership.id));
+
+            await this.postSystemMessage(
+                tx,
+                conversationId,
+                actorId,
+                actorId === userId ? `${actor} left the conversation` : `${actor} removed ${target}`
+            );
+        });
+    }
+
+    /**
+     * Whether the user currently belongs to the conversation. Platform admins can moderate
+     * conversations without this, but only members read and post messages.
+     */
+    static async isMember(userId: string, conversationId: string): Promise<boolean> {
+        const [membership] = await db
+            .select({ id: conversationMembers.id })
+            .from(conversationMembers)
+            .where(
+                and(
+                    eq(conversationMembers.conversationId, conversationId),
+                    eq(conversationMembers.userId, userId),
+                    isNull(conversationMembers.leftAt)
+                )
+            )
+            .limit(1);
+
+        return !!membership;
+    }
+
+    /**
+     * Record how far the member has read; later messages from others count as unread
+     */
+    static async markRead(userId: string, conversationId: string, messageId: string): Promise<void> {
+        const [message] = await db
+            .select({ id: messages.id })
+            .from(messages)
+            .where(
+                and(
+                    eq(messages.id, messageId),
+                    eq(messages.conversationId, conversationId)
+                )
+            )
+            .limit(1);
+
+        if (!message) {
+            throw new Error('Message not found');
+        }
+
+        const membership = await this.getActiveMembership(conversationId, userId);
+
+        await db
+            .update(conversationMembers)
+            .set({ lastReadMessageId: message.id })
+            .where(eq(conversationMembers.id, membership.id));
+    }
+
+    /**
+     * Post a SYSTEM message (member changes, renames) and make it the conversation's latest
+     */
+    static async postSystemMessage(
+        tx: MessagingTransaction,
+        conversationId: string,
+        actorId: string,
+        text: string
+    ): Promise<void> {
+        const now = new Date();
+
+        const [message] = await tx
+            .insert(messages)
+            .values({
+                conversationId,
+                senderId: actorId,
+                bodyRich: textDocument(text),
+                bodyPlain: text,
+                messageType: 'SYSTEM',
+                createdAt: now,
+                updatedAt: now,
+            })
+            .returning({ id: messages.id });
+
+        await tx
+            .update(conversations)
+            .set({ lastMessageId: message.id, lastMessageAt: now, updatedAt: now })
+            .where(eq(conversations.id, conversationId));
+    }
+
+    private static async createDirect(
+        userId: string,
+        otherUserId: string
+    ): Promise<{ conversation: typeof conversations.$inferSelect; created: boolean }> {
+        if (userId === otherUserId) {
+            throw new Error('Cannot start a direct message with yourself');
+        }
+
+        await this.assertActiveUsers([otherUserId]);
+
+        const key = directKey(userId, otherUserId);
+
+        // The unique direct key settles two people starting the same DM at once
+        const created = await db.transaction(async (tx) => {
+            const [conversation] = await tx
+                .insert(conversations)
+                .values({ type: 'DM', directKey: key, createdBy: userId })
+                .onConflictDoNothing({ target: conversations.directKey })
+                .returning();
+
+            if (conversation) {
+                await tx.insert(conversationMembers).values([
+                    { conversationId: conversation.id, userId, role: 'MEMBER', addedBy: userId },
+                    { conversationId: conversation.id, userId: otherUserId, role: 'MEMBER', addedBy: userId },
+                ]);
+            }
+
+            return conversation;
+        });
+
+        if (created) {
+            return { conversation: created, created: true };
+        }
+
+        const [existing] = await db
+            .select()
+            .from(conversations)
+            .where(eq(conversations.directKey, key))
+            .limit(1);
+
+        return { conversation: existing, created: false };
+    }
+
+    private static async getConversation(conversationId: string): Promise<typeof conversations.$inferSelect> {
+        const [conversation] = await db
+            .select()
+            .from(conversations)
+            .where(eq(conversations.id, conversationId))
+            .limit(1);
+
+        if (!conversation) {
+            throw new Error('Conversation not found');
+        }
+
+        return conversation;
+    }
+
+    private static async getActiveMembership(
+        conversationId: string,
+        userId: string
+    ): Promise<{ id: string; role: string }> {
+        const [membership] = await db
+            .select({ id: conversationMembers.id, role: conversationMembers.role })
+            .from(conversationMembers)
+            .where(
+                and(
+                    eq(conversationMembers.conversationId, conversationId),
+                    eq(conversationMembers.userId, userId),
+                    isNull(conversationMembers.leftAt)
+                )
+            )
+            .limit(1);
+
+        if (!membership) {
+            throw new Error('Member not found');
+        }
+
+        return membership;
+    }
+
+    private static async assertAnotherAdmin(conversationId: string, userId: string): Promise<void> {
+        const [otherAdmin] = await db
+            .select({ id: conversationMembers.id })
+            .from(conversationMembers)
+            .where(
+                and(
+                    eq(conversationMembers.conversationId, conversationId),
+                    eq(conversationMembers.role, 'ADMIN'),
+                    ne(conversationMembers.userId, userId),
+                    isNull(conversationMembers.leftAt)
+                )
+            )
+            .limit(1);
+
+        if (!otherAdmin) {
+            throw new Error('Conversation must keep at least one admin');
+        }
+    }
+
+    private static async assertActiveUsers(userIds: string[]): Promise<void> {
+        if (userIds.length === 0) {
+            return;
+        }
+
+        const found = await db
+            .select({ id: users.id })
+            .from(users)
+            .where(
+                and(
+                    inArray(users.id, userIds),
+                    eq(users.status, 'ACTIVE')
+                )
+            );
+
+        if (found.length !== userIds.length) {
+            throw new Error('User not found');
+        }
+    }
+
+    private static async getUserName(userId: string): Promise<string> {
+        const [user] = await db
+            .select({ name: users.name })
+            .from(users)
+            .where(eq(users.id, userId))
+            .limit(1);
+
+        return user?.name ?? 'Someone';
+    }
+}
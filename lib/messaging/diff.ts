@@ -0,0 +1,83 @@
+export interface TextChange {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+}
+
+// Beyond this many cells the LCS table costs more than a coarse diff is worth
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Word-level diff of two texts (whitespace is kept with the words), for comparing message
+ * revisions. Has no dependencies so the dashboard can import it directly.
+ */
+export function diffWords(before: string, after: string): TextChange[] {
+    const a = before.match(/\s+|[^\s]+/g) ?? [];
+    const b = after.match(/\s+|[^\s]+/g) ?? [];
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return merge([
+            { type: 'removed', text: before },
+            { type: 'added', text: after },
+        ]);
+    }
+
+    // lengths[i][j]: longest common subsequence of a[i:] and b[j:]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const changes: TextChange[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            changes.push({ type: 'equal', text: a[i] });
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            changes.push({ type: 'removed', text: a[i++] });
+        } else {
+            changes.push({ type: 'added', text: b[j++] });
+        }
+    }
+
+    while (i < a.length) {
+        changes.push({ type: 'removed', text: a[i++] });
+    }
+
+    while (j < b.length) {
+        changes.push({ type: 'added', text: b[j++] });
+    }
+
+    return merge(changes);
+}
+
+/**
+ * Join neighbouring changes of the same type and drop empty ones
+ */
+function merge(changes: TextChange[]): TextChange[] {
+    const merged: TextChange[] = [];
+
+    for (const change of changes) {
+        const last = merged.at(-1);
+
+        if (!change.text) {
+            continue;
+        }
+
+        if (last && last.type === change.type) {
+            last.text += change.text;
+        } else {
+            merged.push({ ...change });
+        }
+    }
+
+    return merged;
+}
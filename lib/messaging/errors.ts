@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+/**
+ * Map message errors to responses, shared by the message routes so they answer alike
+ */
+export function messageErrorResponse(error: unknown, fallback: string): NextResponse {
+    if (error instanceof z.ZodError) {
+        return NextResponse.json(
+            {
+                error: 'Validation failed',
+                details: error.issues.map(err => ({
+                    field: err.path.join('.'),
+                    message: err.message
+                }))
+            },
+            { status: 400 }
+        );
+    }
+
+    if (error instanceof Error) {
+        if (error.message.includes('Not a member')) {
+            return NextResponse.json(
+                { error: error.message, code: 'NOT_A_MEMBER' },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes('Only the sender') || error.message.includes('Not allowed')) {
+            return NextResponse.json(
+                { error: error.message, code: 'PERMISSION_DENIED' },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes('not found')) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes('archived')) {
+            return NextResponse.json(
+                { error: error.message, code: 'CONVERSATION_ARCHIVED' },
+                { status: 409 }
+            );
+        }
+
+        if (
+            error.message.includes('empty') ||
+            error.message.includes('Cannot reply') ||
+            error.message.includes('cannot be edited')
+        ) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 400 }
+            );
+        }
+    }
+
+    return NextResponse.json(
+        { error: fallback },
+        { status: 500 }
+    );
+}
@@ -0,0 +1,11 @@
+export { ConversationService, CONVERSATION_TYPES, CONVERSATION_ROLES } from './conversations';
+export type { ConversationType, ConversationRole, ConversationSummary, ConversationMember, CreateConversationInput, MessagingTransaction } from './conversations';
+export { MessageService, MESSAGE_TYPES, MESSAGE_PRIORITIES, DEFAULT_MESSAGE_PAGE_SIZE, MAX_MESSAGE_PAGE_SIZE } from './messages';
+export type { MessageType, MessagePriority, MessageView, MessagePage, MessageHistoryOptions, SendMessageInput } from './messages';
+export { textDocument, renderPlainText, renderHtml, tiptapNodeSchema, tiptapDocumentSchema, MAX_DOCUMENT_BYTES } from './tiptap';
+export type { TiptapNode } from './tiptap';
+export { MessageRevisionService, MESSAGE_RETENTION_DAYS_KEY } from './revisions';
+export type { MessageRevision, MessageRevisionPruneResult } from './revisions';
+export { diffWords } from './diff';
+export type { TextChange } from './diff';
+export { messageErrorResponse } from './errors';
@@ -0,0 +1,427 @@
+import { eq, and, or, isNull, lte, desc, asc, sql, SQL } from 'drizzle-orm';
+import { db } from '@/db';
+import { users, conversations, messages } from '@/db/schema';
+import { JWTService } from '@/lib/auth/jwt';
+import { PermissionService } from '@/lib/permissions';
+import { ConversationService } from './conversations';
+import { MessageRevisionService } from './revisions';
+import { TiptapNode, renderPlainText, renderHtml } from './tiptap';
+
+export const MESSAGE_TYPES = ['TEXT', 'MEMO'] as const; // SYSTEM and FILE_SHARE are posted by the server
+export type MessageType = typeof MESSAGE_TYPES[number];
+
+export const MESSAGE_PRIORITIES = ['LOW', 'NORMAL', 'HIGH', 'URGENT'] as const;
+export type MessagePriority = typeof MESSAGE_PRIORITIES[number];
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 100;
+
+export interface MessageView {
+    id: string;
+    conversationId: string;
+    parentMessageId: string | null;
+    senderId: string | null;
+    sender: { id: string; name: string; avatarUrl: string | null } | null;
+    bodyRich: unknown;
+    bodyPlain: string;
+    bodyHtml: string | null;
+    messageType: string;
+    priority: string;
+    isEdited: boolean;
+    isDeleted: boolean;
+    replyCount: number;
+    reactionCount: number;
+    attachmentCount: number;
+    createdAt: Date;
+    editedAt: Date | null;
+}
+
+export interface MessagePage {
+    messages: MessageView[]; // Oldest first
+    hasOlder: boolean;
+    hasNewer: boolean;
+}
+
+export interface MessageHistoryOptions {
+    before?: string; // Messages older than this one
+    after?: string; // Messages newer than this one
+    around?: string; // This message with older and newer ones on either side
+    parentMessageId?: string; // Replies in a thread instead of the top-level messages
+    limit?: number;
+}
+
+export interface SendMessageInput {
+    bodyRich: TiptapNode;
+    parentMessageId?: string;
+    messageType?: MessageType;
+    priority?: MessagePriority;
+}
+
+const messageColumns = {
+    id: messages.id,
+    conversationId: messages.conversationId,
+    parentMessageId: messages.parentMessageId,
+    senderId: messages.senderId,
+    sender: {
+        id: users.id,
+        name: users.name,
+        avatarUrl: users.avatarUrl,
+    },
+    bodyRich: messages.bodyRich,
+    bodyPlain: messages.bodyPlain,
+    bodyHtml: messages.bodyHtml,
+    messageType: messages.messageType,
+    priority: messages.priority,
+    isEdited: messages.isEdited,
+    isDeleted: messages.isDeleted,
+    replyCount: messages.replyCount,
+    reactionCount: messages.reactionCount,
+    attachmentCount: messages.attachmentCount,
+    createdAt: messages.createdAt,
+    editedAt: messages.editedAt,
+};
+
+/**
+ * Deleted messages stay in the history as placeholders without their content
+ */
+function present(message: MessageView): MessageView {
+    return message.isDeleted
+        ? { ...message, bodyRich: null, bodyPlain: '', bodyHtml: null }
+        : message;
+}
+
+/**
+ * Server-side rendering of a TipTap body; clients never supply bodyPlain or bodyHtml
+ */
+function renderBody(bodyRich: TiptapNode): { bodyPlain: string; bodyHtml: string } {
+    const bodyPlain = renderPlainText(bodyRich);
+
+    if (!bodyPlain) {
+        throw new Error('Message is empty');
+    }
+
+    return { bodyPlain, bodyHtml: renderHtml(bodyRich) };
+}
+
+export class MessageService {
+    /**
+     * A page of history, keyset-paginated on (createdAt, id) so pages stay stable while new
+     * messages arrive. Without an anchor the newest messages are returned.
+     */
+    static async list(
+        userId: string,
+        conversationId: string,
+        options: MessageHistoryOptions = {}
+    ): Promise<MessagePage> {
+        await this.assertMember(userId, conversationId);
+
+        const limit = Math.min(Math.max(options.limit ?? DEFAULT_MESSAGE_PAGE_SIZE, 1), MAX_MESSAGE_PAGE_SIZE);
+        const anchorId = options.before ?? options.after ?? options.around;
+
+        if (anchorId) {
+            await this.getMessage(conversationId, anchorId);
+        }
+
+        const scope = and(
+            eq(messages.conversationId, conversationId),
+            options.parentMessageId
+                ? eq(messages.parentMessageId, options.parentMessageId)
+                : isNull(messages.parentMessageId)
+        );
+
+        if (options.before) {
+            const older = await this.page(scope, 'older', options.before, limit);
+            return { messages: older.rows, hasOlder: older.hasMore, hasNewer: true };
+        }
+
+        if (options.after) {
+            const newer = await this.page(scope, 'newer', options.after, limit);
+            return { messages: newer.rows, hasOlder: true, hasNewer: newer.hasMore };
+        }
+
+        if (options.around) {
+            const half = Math.floor(limit / 2);
+            const [older, newer] = await Promise.all([
+                this.page(scope, 'older', options.around, limit - half, true),
+                this.page(scope, 'newer', options.around, half),
+            ]);
+
+            return {
+                messages: [...older.rows, ...newer.rows],
+                hasOlder: older.hasMore,
+                hasNewer: newer.hasMore,
+            };
+        }
+
+        const latest = await this.page(scope, 'older', null, limit);
+        return { messages: latest.rows, hasOlder: latest.hasMore, hasNewer: false };
+    }
+
+    /**
+     * Post a message and make it the conversation's latest in the same transaction
+     */
+    static async send(userId: string, conversationId: string, input: SendMessageInput): Promise<MessageView> {
+        await this.assertMember(userId, conversationId);
+
+        const [conversation] = await db
+            .select({ isArchived: conversations.isArchived })
+            .from(conversations)
+            .where(eq(conversations.id, conversationId))
+            .limit(1);
+
+        if (!conversation) {
+            throw new Error('Conversation not found');
+        }
+
+        if (conversation.isArchived) {
+            throw new Error('Conversation is archived');
+        }
+
+        const { bodyPlain, bodyHtml } = renderBody(input.bodyRich);
+
+        if (input.parentMessageId) {
+            const parent = await this.getMessage(conversationId, input.parentMessageId);
+
+            // Threads are one level deep
+            if (parent.isDeleted || parent.parentMessageId) {
+                throw new Error('Cannot reply to this message');
+            }
+        }
+
+        const messageId = await db.transaction(async (tx) => {
+            const now = new Date();
+
+            const [message] = await tx
+                .insert(messages)
+                .values({
+                    conversationId,
+                    senderId: userId,
+                    parentMessageId: input.parentMessageId,
+                    bodyRich: input.bodyRich,
+                    bodyPlain,
+                    bodyHtml,
+                    messageType: input.messageType ?? 'TEXT',
+                    priority: input.priority ?? 'NORMAL',
+                    createdAt: now,
+                    updatedAt: now,
+                })
+                .returning({ id: messages.id });
+
+            if (input.parentMessageId) {
+                await tx
+                    .update(messages)
+                    .set({ replyCount: sql`${messages.replyCount} + 1` })
+                    .where(eq(messages.id, input.parentMessageId));
+            }
+
+            // A slower concurrent send must not move lastMessageAt backwards
+            await tx
+                .update(conversations)
+                .set({ lastMessageId: message.id, lastMessageAt: now, updatedAt: now })
+                .where(
+                    and(
+                        eq(conversations.id, conversationId),
+                        or(isNull(conversations.lastMessageAt), lte(conversations.lastMessageAt, now))
+                    )
+                );
+
+            return message.id;
+        });
+
+        return this.get(conversationId, messageId);
+    }
+
+    /**
+     * Replace the body of the sender's own message, keeping the previous body as a revision
+     */
+    static async edit(
+        userId: string,
+        conversationId: string,
+        messageId: string,
+        bodyRich: TiptapNode
+    ): Promise<MessageView> {
+        await this.assertMember(userId, conversationId);
+
+        const message = await this.getMessage(conversationId, messageId);
+
+        if (message.isDeleted) {
+            throw new Error('Message not found');
+        }
+
+        if (message.messageType === 'SYSTEM' || message.messageType === 'FILE_SHARE') {
+            throw new Error('This message cannot be edited');
+        }
+
+        if (message.senderId !== userId) {
+            throw new Error('Only the sender can edit this message');
+        }
+
+        const { bodyPlain, bodyHtml } = renderBody(bodyRich);
+
+        await db.transaction(async (tx) => {
+            const now = new Date();
+
+            await MessageRevisionService.record(tx, messageId);
+
+            await tx
+                .update(messages)
+                .set({
+                    bodyRich,
+                    bodyPlain,
+                    bodyHtml,
+                    isEdited: true,
+                    editedAt: now,
+                    updatedAt: now,
+                })
+                .where(eq(messages.id, messageId));
+        });
+
+        return this.get(conversationId, messageId);
+    }
+
+    /**
+     * Soft-delete a message. Senders delete their own; conversation admins and platform admins
+     * may delete anyone's, which is audited.
+     */
+    static async delete(
+        user: { id: string; role: string },
+        conversationId: string,
+        messageId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const message = await this.getMessage(conversationId, messageId);
+
+        if (message.isDeleted) {
+            throw new Error('Message not found');
+        }
+
+        const isSender = message.senderId === user.id;
+
+        if (!isSender && !(await PermissionService.can(user, 'conversation', 'delete', conversationId))) {
+            throw new Error('Not allowed to delete this message');
+        }
+
+        await db.transaction(async (tx) => {
+            const now = new Date();
+
+            await tx
+                .update(messages)
+                .set({ isDeleted: true, deletedAt: now, updatedAt: now })
+                .where(eq(messages.id, messageId));
+
+            if (message.parentMessageId) {
+                await tx
+                    .update(messages)
+                    .set({ replyCount: sql`greatest(${messages.replyCount} - 1, 0)` })
+                    .where(eq(messages.id, message.parentMessageId));
+            }
+        });
+
+        if (!isSender) {
+            await JWTService.createAuditLog({
+                actorId: user.id,
+                action: 'MESSAGE_DELETED',
+                targetResource: 'message',
+                targetId: messageId,
+                metadata: {
+                    conversationId,
+                    senderId: message.senderId,
+                },
+                ipAddress,
+                userAgent,
+                success: true,
+            });
+        }
+    }
+
+    /**
+     * One message as the history presents it
+     */
+    static async get(conversationId: string, messageId: string): Promise<MessageView> {
+        const [message] = await db
+            .select(messageColumns)
+            .from(messages)
+            .leftJoin(users, eq(users.id, messages.senderId))
+            .where(
+                and(
+                    eq(messages.id, messageId),
+                    eq(messages.conversationId, conversationId)
+                )
+            )
+            .limit(1);
+
+        if (!message) {
+            throw new Error('Message not found');
+        }
+
+        return present(message);
+    }
+
+    /**
+     * Up to `limit` messages on one side of an anchor (or of the present), oldest first
+     */
+    private static async page(
+        scope: SQL | undefined,
+        direction: 'older' | 'newer',
+        anchorId: string | null,
+        limit: number,
+        includeAnchor: boolean = false
+    ): Promise<{ rows: MessageView[]; hasMore: boolean }> {
+        const anchor = sql`(select created_at, id from messages where id = ${anchorId})`;
+        const position = sql`(${messages.createdAt}, ${messages.id})`;
+
+        let condition: SQL | undefined;
+
+        if (anchorId && direction === 'older') {
+            condition = includeAnchor ? sql`${position} <= ${anchor}` : sql`${position} < ${anchor}`;
+        } else if (anchorId) {
+            condition = sql`${position} > ${anchor}`;
+        }
+
+        const order = direction === 'older'
+            ? [desc(messages.createdAt), desc(messages.id)]
+            : [asc(messages.createdAt), asc(messages.id)];
+
+        const rows = await db
+            .select(messageColumns)
+            .from(messages)
+            .leftJoin(users, eq(users.id, messages.senderId))
+            .where(and(scope, condition))
+            .orderBy(...order)
+            .limit(limit + 1);
+
+        const hasMore = rows.length > limit;
+        const pageRows = rows.slice(0, limit).map(present);
+
+        return {
+            rows: direction === 'older' ? pageRows.reverse() : pageRows,
+            hasMore,
+        };
+    }
+
+    private static async getMessage(conversationId: string, messageId: string): Promise<typeof messages.$inferSelect> {
+        const [message] = await db
+            .select()
+            .from(messages)
+            .where(
+                and(
+                    eq(messages.id, messageId),
+                    eq(messages.conversationId, conversationId)
+                )
+            )
+            .limit(1);
+
+        if (!message) {
+            throw new Error('Message not found');
+        }
+
+        return message;
+    }
+
+    private static async assertMember(userId: string, conversationId: string): Promise<void> {
+        if (!(await ConversationService.isMember(userId, conversationId))) {
+            throw new Error('Not a member of this conversation');
+        }
+    }
+}
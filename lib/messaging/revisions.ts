@@ -0,0 +1,155 @@
+import { eq, and, lt, asc, max } from 'drizzle-orm';
+import { db } from '@/db';
+import { users, messages, messageRevisions } from '@/db/schema';
+import { SettingsService } from '@/lib/settings';
+import type { MessagingTransaction } from './conversations';
+
+// Days messages are kept; superseded revisions are pruned on the same schedule (0 keeps everything)
+export const MESSAGE_RETENTION_DAYS_KEY = 'message_retention_days';
+
+const DEFAULT_RETENTION_DAYS = 365;
+
+export interface MessageRevision {
+    revision: number;
+    bodyRich: unknown;
+    bodyPlain: string;
+    editor: { id: string; name: string; avatarUrl: string | null } | null;
+    editedAt: Date;
+    isCurrent: boolean;
+}
+
+export interface MessageRevisionPruneResult {
+    cutoff: Date | null;
+    deleted: number;
+}
+
+export class MessageRevisionService {
+    /**
+     * Keep the body a message had before an edit replaces it. Call inside the edit's transaction.
+     */
+    static async record(tx: MessagingTransaction, messageId: string): Promise<void> {
+        // Serializes concurrent edits of the same message so revision numbers stay unique
+        const [message] = await tx
+            .select({
+                bodyRich: messages.bodyRich,
+                bodyPlain: messages.bodyPlain,
+                senderId: messages.senderId,
+                revisionCount: messages.revisionCount,
+                createdAt: messages.createdAt,
+                editedAt: messages.editedAt,
+            })
+            .from(messages)
+            .where(eq(messages.id, messageId))
+            .for('update');
+
+        if (!message) {
+            throw new Error('Message not found');
+        }
+
+        // Numbered from the message's counter, so pruning old revisions never makes numbers restart.
+        // Revisions kept before the counter existed still count.
+        const [latest] = await tx
+            .select({ revision: max(messageRevisions.revision) })
+            .from(messageRevisions)
+            .where(eq(messageRevisions.messageId, messageId));
+
+        const revision = Math.max(message.revisionCount, latest?.revision ?? 0) + 1;
+
+        await tx
+            .update(messages)
+            .set({ revisionCount: revision })
+            .where(eq(messages.id, messageId));
+
+        await tx.insert(messageRevisions).values({
+            messageId,
+            revision,
+            bodyRich: message.bodyRich,
+            bodyPlain: message.bodyPlain,
+            // Only senders edit their messages, so every revision is theirs
+            editedBy: message.senderId,
+            editedAt: message.editedAt ?? message.createdAt,
+        });
+    }
+
+    /**
+     * Every version of a message, oldest first, ending with its current body. Revisions pruned
+     * under the retention policy are missing from the start.
+     */
+    static async list(conversationId: string, messageId: string): Promise<MessageRevision[]> {
+        const [message] = await db
+            .select({
+                bodyRich: messages.bodyRich,
+                bodyPlain: messages.bodyPlain,
+                revisionCount: messages.revisionCount,
+                createdAt: messages.createdAt,
+                editedAt: messages.editedAt,
+                editor: {
+                    id: users.id,
+                    name: users.name,
+                    avatarUrl: users.avatarUrl,
+                },
+            })
+            .from(messages)
+            .leftJoin(users, eq(users.id, messages.senderId))
+            .where(
+                and(
+                    eq(messages.id, messageId),
+                    eq(messages.conversationId, conversationId)
+                )
+            )
+            .limit(1);
+
+        if (!message) {
+            throw new Error('Message not found');
+        }
+
+        const revisions = await db
+            .select({
+                revision: messageRevisions.revision,
+                bodyRich: messageRevisions.bodyRich,
+                bodyPlain: messageRevisions.bodyPlain,
+                editor: {
+                    id: users.id,
+                    name: users.name,
+                    avatarUrl: users.avatarUrl,
+                },
+                editedAt: messageRevisions.editedAt,
+            })
+            .from(messageRevisions)
+            .leftJoin(users, eq(users.id, messageRevisions.editedBy))
+            .where(eq(messageRevisions.messageId, messageId))
+            .orderBy(asc(messageRevisions.revision));
+
+        return [
+            ...revisions.map((revision) => ({ ...revision, isCurrent: false })),
+            {
+                revision: Math.max(message.revisionCount, revisions.at(-1)?.revision ?? 0) + 1,
+                bodyRich: message.bodyRich,
+                bodyPlain: message.bodyPlain,
+                editor: message.editor,
+                editedAt: message.editedAt ?? message.createdAt,
+                isCurrent: true,
+            },
+        ];
+    }
+
+    /**
+     * Delete revisions that were superseded longer ago than the message retention period
+     */
+    static async pruneExpired(): Promise<MessageRevisionPruneResult> {
+        const retentionDays = Number(await SettingsService.get(MESSAGE_RETENTION_DAYS_KEY, DEFAULT_RETENTION_DAYS));
+
+        if (!Number.isFinite(retentionDays) || retentionDays <= 0) {
+            return { cutoff: null, deleted: 0 };
+        }
+
+        const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+        const deleted = await db
+            .delete(messageRevisions)
+            .where(lt(messageRevisions.createdAt, cutoff))
+            .returning({ id: messageRevisions.id });
+
+        return { cutoff, deleted: deleted.length };
+    }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { renderHtml, renderPlainText, textDocument, tiptapDocumentSchema, TiptapNode } from '@/lib/messaging/tiptap';
+
+function linkDocument(href: string): TiptapNode {
+    return {
+        type: 'doc',
+        content: [{
+            type: 'paragraph',
+            content: [{ type: 'text', text: 'click', marks: [{ type: 'link', attrs: { href } }] }],
+        }],
+    };
+}
+
+describe('renderHtml', () => {
+    it.each([
+        ['javascript:', 'javascript:alert(1)'],
+        ['obfuscated javascript:', ' JaVa\tScRiPt:alert(1)'],
+        ['data:', 'data:text/html,<script>alert(1)</script>'],
+        ['vbscript:', 'vbscript:msgbox(1)'],
+        ['relative', '/dashboard'],
+    ])('drops %s links and keeps their text', (_, href) => {
+        expect(renderHtml(linkDocument(href))).toBe('<p>click</p>');
+    });
+
+    it('keeps https links, escaping the href', () => {
+        expect(renderHtml(linkDocument('https://example.com/?a=1&b=2'))).toBe(
+            '<p><a href="https://example.com/?a=1&amp;b=2" target="_blank" rel="noopener noreferrer nofollow">click</a></p>'
+        );
+    });
+
+    it('keeps mailto links', () => {
+        expect(renderHtml(linkDocument('mailto:someone@example.com'))).toContain('href="mailto:someone@example.com"');
+    });
+
+    it('escapes script text', () => {
+        expect(renderHtml(textDocument('<script>alert("x")</script>'))).toBe(
+            '<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>'
+        );
+    });
+
+    it('escapes mention attributes', () => {
+        const html = renderHtml({
+            type: 'doc',
+            content: [{ type: 'mention', attrs: { id: '"><img src=x onerror=alert(1)>', label: '<b>x</b>' } }],
+        });
+
+        expect(html).toBe('<span class="mention" data-id="&quot;&gt;&lt;img src=x onerror=alert(1)&gt;">@&lt;b&gt;x&lt;/b&gt;</span>');
+    });
+
+    it('keeps the text of unknown nodes and drops unknown marks', () => {
+        const html = renderHtml({
+            type: 'doc',
+            content: [{
+                type: 'iframe',
+                attrs: { src: 'https://example.com' },
+                content: [{ type: 'text', text: 'inner', marks: [{ type: 'style', attrs: { css: 'x' } }] }],
+            }],
+        });
+
+        expect(html).toBe('inner');
+    });
+
+    it('clamps heading levels', () => {
+        expect(renderHtml({ type: 'doc', content: [{ type: 'heading', attrs: { level: 9 } }] })).toBe('<h6></h6>');
+        expect(renderHtml({ type: 'doc', content: [{ type: 'heading', attrs: { level: 'x' } }] })).toBe('<h1></h1>');
+    });
+});
+
+describe('renderPlainText', () => {
+    it('puts each block and hard break on its own line', () => {
+        expect(renderPlainText({
+            type: 'doc',
+            content: [
+                { type: 'paragraph', content: [{ type: 'text', text: 'one' }, { type: 'hardBreak' }, { type: 'text', text: 'two' }] },
+                { type: 'paragraph', content: [{ type: 'mention', attrs: { id: 'u1', label: 'Ada' } }] },
+            ],
+        })).toBe('one\ntwo\n@Ada');
+    });
+});
+
+describe('tiptapDocumentSchema', () => {
+    it('accepts a document', () => {
+        expect(tiptapDocumentSchema.safeParse(textDocument('hello')).success).toBe(true);
+    });
+
+    it('rejects other root nodes', () => {
+        expect(tiptapDocumentSchema.safeParse({ type: 'paragraph' }).success).toBe(false);
+    });
+
+    it('rejects documents nested too deeply', () => {
+        let node: TiptapNode = { type: 'text', text: 'deep' };
+        for (let i = 0; i < 25; i++) {
+            node = { type: 'blockquote', content: [node] };
+        }
+
+        expect(tiptapDocumentSchema.safeParse({ type: 'doc', content: [node] }).success).toBe(false);
+    });
+});
@@ -0,0 +1,196 @@
+import { z } from 'zod';
+
+/**
+ * TipTap (ProseMirror) JSON, as stored in messages.bodyRich
+ */
+export interface TiptapNode {
+    type: string;
+    attrs?: Record<string, unknown>;
+    marks?: { type: string; attrs?: Record<string, unknown> }[];
+    content?: TiptapNode[];
+    text?: string;
+}
+
+// Deeper documents are rejected rather than rendered recursively
+const MAX_DEPTH = 20;
+
+// Serialized size of a message body
+export const MAX_DOCUMENT_BYTES = 64 * 1024;
+
+export const tiptapNodeSchema: z.ZodType<TiptapNode> = z.lazy(() => z.object({
+    type: z.string().min(1).max(50),
+    attrs: z.record(z.string(), z.unknown()).optional(),
+    marks: z.array(z.object({
+        type: z.string().min(1).max(50),
+        attrs: z.record(z.string(), z.unknown()).optional(),
+    })).max(20).optional(),
+    content: z.array(tiptapNodeSchema).optional(),
+    text: z.string().optional(),
+}));
+
+export const tiptapDocumentSchema = tiptapNodeSchema
+    .refine((node) => node.type === 'doc', 'Body must be a TipTap document')
+    .refine((node) => Buffer.byteLength(JSON.stringify(node)) <= MAX_DOCUMENT_BYTES, 'Body is too large')
+    .refine((node) => depth(node) <= MAX_DEPTH, 'Body is nested too deeply');
+
+function depth(node: TiptapNode): number {
+    return 1 + Math.max(0, ...(node.content ?? []).map(depth));
+}
+
+/**
+ * A document holding a single paragraph of plain text
+ */
+export function textDocument(text: string): TiptapNode {
+    return {
+        type: 'doc',
+        content: [{ type: 'paragraph', content: [{ type: 'text', text }] }],
+    };
+}
+
+const BLOCK_NODES = new Set([
+    'paragraph',
+    'heading',
+    'blockquote',
+    'codeBlock',
+    'bulletList',
+    'orderedList',
+    'listItem',
+    'horizontalRule',
+]);
+
+/**
+ * The text of a document, one line per block, for search and previews
+ */
+export function renderPlainText(doc: TiptapNode): string {
+    const lines: string[] = [];
+    let line = '';
+
+    const walk = (node: TiptapNode) => {
+        switch (node.type) {
+            case 'text':
+                line += node.text ?? '';
+                return;
+            case 'hardBreak':
+                lines.push(line);
+                line = '';
+                return;
+            case 'mention':
+                line += `@${String(node.attrs?.label ?? node.attrs?.id ?? '')}`;
+                return;
+        }
+
+        for (const child of node.content ?? []) {
+            walk(child);
+        }
+
+        if (BLOCK_NODES.has(node.type) && line) {
+            lines.push(line);
+            line = '';
+        }
+    };
+
+    walk(doc);
+
+    if (line) {
+        lines.push(line);
+    }
+
+    return lines.join('\n').trim();
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Only absolute http(s) and mailto links survive rendering
+ */
+function safeHref(value: unknown): string | null {
+    if (typeof value !== 'string') {
+        return null;
+    }
+
+    try {
+        const url = new URL(value);
+        return ['http:', 'https:', 'mailto:'].includes(url.protocol) ? url.toString() : null;
+    } catch {
+        return null;
+    }
+}
+
+function renderMarks(text: string, marks: TiptapNode['marks'] = []): string {
+    return marks.reduce((html, mark) => {
+        switch (mark.type) {
+            case 'bold':
+                return `<strong>${html}</strong>`;
+            case 'italic':
+                return `<em>${html}</em>`;
+            case 'underline':
+                return `<u>${html}</u>`;
+            case 'strike':
+                return `<s>${html}</s>`;
+            case 'code':
+                return `<code>${html}</code>`;
+            case 'link': {
+                const href = safeHref(mark.attrs?.href);
+                return href
+                    ? `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer nofollow">${html}</a>`
+                    : html;
+            }
+            default:
+                return html;
+        }
+    }, escapeHtml(text));
+}
+
+/**
+ * Render a document to HTML. Output is built from an allowlist of nodes and marks with all text
+ * and attributes escaped, so nothing from the client reaches the markup unsanitized; unknown
+ * nodes keep their text and lose their formatting.
+ */
+export function renderHtml(doc: TiptapNode): string {
+    const children = (node: TiptapNode) => (node.content ?? []).map(render).join('');
+
+    function render(node: TiptapNode): string {
+        switch (node.type) {
+            case 'doc':
+                return children(node);
+            case 'text':
+                return renderMarks(node.text ?? '', node.marks);
+            case 'paragraph':
+                return `<p>${children(node)}</p>`;
+            case 'heading': {
+                const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+                return `<h${level}>${children(node)}</h${level}>`;
+            }
+            case 'blockquote':
+                return `<blockquote>${children(node)}</blockquote>`;
+            case 'codeBlock':
+                return `<pre><code>${children(node)}</code></pre>`;
+            case 'bulletList':
+                return `<ul>${children(node)}</ul>`;
+            case 'orderedList':
+                return `<ol>${children(node)}</ol>`;
+            case 'listItem':
+                return `<li>${children(node)}</li>`;
+            case 'hardBreak':
+                return '<br>';
+            case 'horizontalRule':
+                return '<hr>';
+            case 'mention': {
+                const id = String(node.attrs?.id ?? '');
+                const label = String(node.attrs?.label ?? id);
+                return `<span class="mention" data-id="${escapeHtml(id)}">@${escapeHtml(label)}</span>`;
+            }
+            default:
+                return children(node);
+        }
+    }
+
+    return render(doc);
+}
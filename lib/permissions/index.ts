@@ -0,0 +1,309 @@
+import { eq, and, or, isNull, gt } from 'drizzle-orm';
+import { db } from '@/db';
+import {
+    users,
+    projects,
+    projectMembers,
+    tasks,
+    conversations,
+    conversationMembers,
+    messages,
+    divisions,
+    divisionMembers,
+    files,
+    fileShares,
+    fileAssociations,
+} from '@/db/schema';
+import {
+    isActionAllowed,
+    ResourceType,
+    ResourceAction,
+    ResourceRelation,
+} from './policies';
+
+export {
+    POLICIES,
+    ADMIN_OVERRIDES,
+    RESOURCE_ACTIONS,
+    RESOURCE_RELATIONS,
+    isActionAllowed,
+} from './policies';
+export type { ResourceType, ResourceAction, ResourceRelation, PolicyTable } from './policies';
+
+export type PermissionDecision = 'allowed' | 'forbidden' | 'not_found';
+
+type RelationResolver = (userId: string, resourceId: string) => Promise<string[] | null>;
+
+/**
+ * Look up how a user relates to one resource. Returns null when the resource does not exist.
+ */
+const RELATION_RESOLVERS: Record<ResourceType, RelationResolver> = {
+    project: async (userId, projectId) => {
+        const [project] = await db
+            .select({ visibility: projects.visibility })
+            .from(projects)
+            .where(eq(projects.id, projectId))
+            .limit(1);
+
+        if (!project) {
+            return null;
+        }
+
+        const relations = await getProjectRoles(userId, projectId);
+        if (project.visibility === 'PUBLIC') {
+            relations.push('PUBLIC');
+        }
+
+        return relations;
+    },
+
+    task: async (userId, taskId) => {
+        const [task] = await db
+            .select({
+                projectId: tasks.projectId,
+                assigneeId: tasks.assigneeId,
+                reporterId: tasks.reporterId,
+            })
+            .from(tasks)
+            .where(eq(tasks.id, taskId))
+            .limit(1);
+
+        if (!task) {
+            return null;
+        }
+
+        const relations = await getProjectRoles(userId, task.projectId);
+        if (task.assigneeId === userId) {
+            relations.push('ASSIGNEE');
+        }
+        if (task.reporterId === userId) {
+            relations.push('REPORTER');
+        }
+
+        return relations;
+    },
+
+    conversation: async (userId, conversationId) => {
+        const [conversation] = await db
+            .select({ id: conversations.id })
+            .from(conversations)
+            .where(eq(conversations.id, conversationId))
+            .limit(1);
+
+        if (!conversation) {
+            return null;
+        }
+
+        // Members who left keep no access
+        const memberships = await db
+            .select({ role: conversationMembers.role })
+            .from(conversationMembers)
+            .where(
+                and(
+                    eq(conversationMembers.conversationId, conversationId),
+                    eq(conversationMembers.userId, userId),
+                    isNull(conversationMembers.leftAt)
+                )
+            );
+
+        return memberships.map((membership) => membership.role);
+    },
+
+    division: async (userId, divisionId) => {
+        const [division] = await db
+            .select({ id: divisions.id })
+            .from(divisions)
+            .where(eq(divisions.id, divisionId))
+            .limit(1);
+
+        if (!division) {
+            return null;
+        }
+
+        const memberships = await db
+            .select({ role: divisionMembers.role })
+            .from(divisionMembers)
+            .where(
+                and(
+                    eq(divisionMembers.divisionId, divisionId),
+                    eq(divisionMembers.userId, userId)
+                )
+            );
+
+        return memberships.map((membership) => membership.role);
+    },
+
+    file: async (userId, fileId) => {
+        const [file] = await db
+            .select({ uploadedBy: files.uploadedBy, isPublic: files.isPublic })
+            .from(files)
+            .where(eq(files.id, fileId))
+            .limit(1);
+
+        if (!file) {
+            return null;
+        }
+
+        const relations: string[] = [];
+        if (file.uploadedBy === userId) {
+            relations.push('UPLOADER');
+        }
+        if (file.isPublic) {
+            relations.push('PUBLIC');
+        }
+
+        // Direct shares, addressed to the user or to their email
+        const [user] = await db
+            .select({ email: users.email })
+            .from(users)
+            .where(eq(users.id, userId))
+            .limit(1);
+
+        const shares = await db
+            .select({ permissions: fileShares.permissions })
+            .from(fileShares)
+            .where(
+                and(
+                    eq(fileShares.fileId, fileId),
+                    eq(fileShares.isActive, true),
+                    or(isNull(fileShares.expiresAt), gt(fileShares.expiresAt, new Date())),
+                    user
+                        ? or(eq(fileShares.sharedWithUserId, userId), eq(fileShares.sharedWithEmail, user.email))
+                        : eq(fileShares.sharedWithUserId, userId)
+                )
+            );
+
+        for (const share of shares) {
+            relations.push(`SHARED_${share.permissions}`);
+        }
+
+        // Files attached to something the user can read
+        const associations = await db
+            .select({ entityType: fileAssociations.entityType, entityId: fileAssociations.entityId })
+            .from(fileAssociations)
+            .where(eq(fileAssociations.fileId, fileId));
+
+        for (const association of associations) {
+            if (await canReadAttachmentParent(userId, association.entityType, association.entityId)) {
+                relations.push('ATTACHED');
+                break;
+            }
+        }
+
+        return relations;
+    },
+
+    user: async (userId, targetUserId) => {
+        const [user] = await db
+            .select({ id: users.id })
+            .from(users)
+            .where(eq(users.id, targetUserId))
+            .limit(1);
+
+        if (!user) {
+            return null;
+        }
+
+        return user.id === userId ? ['SELF'] : [];
+    },
+};
+
+async function getProjectRoles(userId: string, projectId: string): Promise<string[]> {
+    const memberships = await db
+        .select({ role: projectMembers.role })
+        .from(projectMembers)
+        .where(
+            and(
+                eq(projectMembers.projectId, projectId),
+                eq(projectMembers.userId, userId),
+                eq(projectMembers.isActive, true)
+            )
+        );
+
+    return memberships.map((membership) => membership.role);
+}
+
+/**
+ * Whether the user may read the message, project or task a file is attached to
+ */
+async function canReadAttachmentParent(userId: string, entityType: string, entityId: string): Promise<boolean> {
+    let resourceType: ResourceType;
+    let resourceId = entityId;
+
+    switch (entityType) {
+        case 'message': {
+            const [message] = await db
+                .select({ conversationId: messages.conversationId })
+                .from(messages)
+                .where(eq(messages.id, entityId))
+                .limit(1);
+
+            if (!message) {
+                return false;
+            }
+
+            resourceType = 'conversation';
+            resourceId = message.conversationId;
+            break;
+        }
+        case 'project':
+        case 'task':
+            resourceType = entityType;
+            break;
+        default:
+            return false;
+    }
+
+    const relations = await RELATION_RESOLVERS[resourceType](userId, resourceId);
+
+    return !!relations && isActionAllowed<ResourceType>(resourceType, 'read', {
+        isAdmin: false,
+        relations: relations as ResourceRelation[],
+    });
+}
+
+export class PermissionService {
+    /**
+     * The caller's relations to a resource, or null when it does not exist
+     */
+    static async getRelations<R extends ResourceType>(
+        userId: string,
+        resourceType: R,
+        resourceId: string
+    ): Promise<ResourceRelation<R>[] | null> {
+        const relations = await RELATION_RESOLVERS[resourceType](userId, resourceId);
+        return relations as ResourceRelation<R>[] | null;
+    }
+
+    /**
+     * Decide an action on a resource, telling missing resources apart from denied ones
+     */
+    static async check<R extends ResourceType>(
+        user: { id: string; role: string },
+        resourceType: R,
+        action: ResourceAction<R>,
+        resourceId: string
+    ): Promise<PermissionDecision> {
+        const relations = await this.getRelations(user.id, resourceType, resourceId);
+
+        if (!relations) {
+            return 'not_found';
+        }
+
+        return isActionAllowed(resourceType, action, { isAdmin: user.role === 'ADMIN', relations })
+            ? 'allowed'
+            : 'forbidden';
+    }
+
+    /**
+     * Whether the user may perform an action on a resource
+     */
+    static async can<R extends ResourceType>(
+        user: { id: string; role: string },
+        resourceType: R,
+        action: ResourceAction<R>,
+        resourceId: string
+    ): Promise<boolean> {
+        return (await this.check(user, resourceType, action, resourceId)) === 'allowed';
+    }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+    ADMIN_OVERRIDES,
+    isActionAllowed,
+    POLICIES,
+    RESOURCE_ACTIONS,
+    RESOURCE_RELATIONS,
+    ResourceAction,
+    ResourceRelation,
+    ResourceType,
+} from './policies';
+
+type Subject = 'owner' | 'member' | 'nonMember' | 'admin';
+
+/**
+ * The relation that makes a caller the owner or a plain member of each resource type. Users
+ * have no members: another user is a non-member.
+ */
+const SUBJECT_RELATIONS: { [R in ResourceType]: { owner: ResourceRelation<R>; member?: ResourceRelation<R> } } = {
+    project: { owner: 'OWNER', member: 'CONTRIBUTOR' },
+    task: { owner: 'OWNER', member: 'CONTRIBUTOR' },
+    conversation: { owner: 'ADMIN', member: 'MEMBER' },
+    division: { owner: 'MANAGER', member: 'MEMBER' },
+    file: { owner: 'UPLOADER', member: 'ATTACHED' },
+    user: { owner: 'SELF' },
+};
+
+// Written out rather than derived from POLICIES, so a change to the tables has to be made twice
+const EXPECTED: { [R in ResourceType]: Partial<Record<Subject, readonly ResourceAction<R>[]>> } = {
+    project: {
+        owner: ['read', 'update', 'delete', 'manage_members', 'create_task'],
+        member: ['read', 'create_task'],
+        nonMember: [],
+        admin: ['read', 'update', 'delete', 'manage_members', 'create_task'],
+    },
+    task: {
+        owner: ['read', 'update', 'delete', 'assign', 'comment'],
+        member: ['read', 'update', 'comment'],
+        nonMember: [],
+        admin: ['read', 'update', 'delete', 'assign', 'comment'],
+    },
+    conversation: {
+        owner: ['read', 'post', 'update', 'delete', 'manage_members', 'view_revisions'],
+        member: ['read', 'post'],
+        nonMember: [],
+        admin: ['read', 'update', 'delete', 'manage_members', 'view_revisions'],
+    },
+    division: {
+        owner: ['read', 'update', 'manage_members'],
+        member: ['read'],
+        nonMember: [],
+        admin: ['read', 'update', 'delete', 'manage_members'],
+    },
+    file: {
+        owner: ['read', 'download', 'update', 'delete', 'share'],
+        member: ['read', 'download'],
+        nonMember: [],
+        admin: ['read', 'download', 'update', 'delete', 'share'],
+    },
+    user: {
+        owner: ['read', 'update'],
+        nonMember: [],
+        admin: ['read', 'update', 'delete'],
+    },
+};
+
+function subjectFor<R extends ResourceType>(resourceType: R, subject: Subject) {
+    const relations = SUBJECT_RELATIONS[resourceType];
+
+    switch (subject) {
+        case 'owner':
+            return { isAdmin: false, relations: [relations.owner] };
+        case 'member':
+            return { isAdmin: false, relations: [relations.member!] };
+        case 'nonMember':
+            return { isAdmin: false, relations: [] };
+        case 'admin':
+            return { isAdmin: true, relations: [] };
+    }
+}
+
+const CASES = (Object.keys(RESOURCE_ACTIONS) as ResourceType[]).flatMap((resourceType) =>
+    (Object.entries(EXPECTED[resourceType]) as [Subject, readonly string[]][]).flatMap(([subject, allowed]) =>
+        RESOURCE_ACTIONS[resourceType].map((action) => ({
+            resourceType,
+            subject,
+            action,
+            allowed: allowed.includes(action),
+        }))
+    )
+);
+
+describe('isActionAllowed', () => {
+    it.each(CASES)('$resourceType: $subject may $action → $allowed', ({ resourceType, subject, action, allowed }) => {
+        expect(isActionAllowed(resourceType, action, subjectFor(resourceType, subject))).toBe(allowed);
+    });
+
+    it('lets an admin who is a conversation member post', () => {
+        expect(isActionAllowed('conversation', 'post', { isAdmin: true, relations: [] })).toBe(false);
+        expect(isActionAllowed('conversation', 'post', { isAdmin: true, relations: ['MEMBER'] })).toBe(true);
+    });
+
+    it('combines the actions of several relations', () => {
+        const subject = { isAdmin: false, relations: ['VIEWER', 'ASSIGNEE'] as const };
+
+        expect(isActionAllowed('task', 'update', subject)).toBe(true);
+        expect(isActionAllowed('task', 'assign', subject)).toBe(false);
+    });
+
+    it('evaluates a custom policy table', () => {
+        const policies = { ...POLICIES, division: { ...POLICIES.division, MEMBER: ['read', 'update'] as const } };
+
+        expect(isActionAllowed('division', 'update', { isAdmin: false, relations: ['MEMBER'] }, policies)).toBe(true);
+        expect(isActionAllowed('division', 'update', { isAdmin: false, relations: ['MEMBER'] })).toBe(false);
+    });
+});
+
+describe('POLICIES', () => {
+    it.each(Object.keys(RESOURCE_ACTIONS) as ResourceType[])('covers every %s relation with known actions', (resourceType) => {
+        const table = POLICIES[resourceType] as Record<string, readonly string[]>;
+        const actions: readonly string[] = RESOURCE_ACTIONS[resourceType];
+
+        expect(Object.keys(table).sort()).toEqual([...RESOURCE_RELATIONS[resourceType]].sort());
+        for (const granted of Object.values(table)) {
+            expect(actions).toEqual(expect.arrayContaining([...granted]));
+        }
+    });
+
+    it.each(Object.keys(RESOURCE_ACTIONS) as ResourceType[])('only lists known %s actions in ADMIN_OVERRIDES', (resourceType) => {
+        const actions: readonly string[] = RESOURCE_ACTIONS[resourceType];
+
+        expect(actions).toEqual(expect.arrayContaining([...ADMIN_OVERRIDES[resourceType]]));
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * Declarative permission tables. Each resource type lists its actions and which of the caller's
+ * relations to a resource (membership roles, ownership, shares) grant them. Evaluation is a pure
+ * lookup, so these tables can be checked without a database.
+ */
+
+export const RESOURCE_ACTIONS = {
+    project: ['read', 'update', 'delete', 'manage_members', 'create_task'],
+    task: ['read', 'update', 'delete', 'assign', 'comment'],
+    conversation: ['read', 'post', 'update', 'delete', 'manage_members', 'view_revisions'],
+    division: ['read', 'update', 'delete', 'manage_members'],
+    file: ['read', 'download', 'update', 'delete', 'share'],
+    user: ['read', 'update', 'delete'],
+} as const;
+
+export type ResourceType = keyof typeof RESOURCE_ACTIONS;
+export type ResourceAction<R extends ResourceType = ResourceType> = typeof RESOURCE_ACTIONS[R][number];
+
+/**
+ * How a user relates to a resource. Membership roles mirror projectRoleEnum, conversation member
+ * roles and divisionRoleEnum; the rest are derived from ownership, shares and visibility.
+ */
+export const RESOURCE_RELATIONS = {
+    project: ['OWNER', 'MAINTAINER', 'CONTRIBUTOR', 'VIEWER', 'PUBLIC'],
+    task: ['OWNER', 'MAINTAINER', 'CONTRIBUTOR', 'VIEWER', 'ASSIGNEE', 'REPORTER'],
+    conversation: ['ADMIN', 'MEMBER'],
+    division: ['MANAGER', 'MEMBER', 'VIEWER'],
+    file: ['UPLOADER', 'SHARED_WRITE', 'SHARED_DOWNLOAD', 'SHARED_READ', 'ATTACHED', 'PUBLIC'],
+    user: ['SELF'],
+} as const;
+
+export type ResourceRelation<R extends ResourceType = ResourceType> = typeof RESOURCE_RELATIONS[R][number];
+
+export type PolicyTable = {
+    [R in ResourceType]: Record<ResourceRelation<R>, readonly ResourceAction<R>[]>;
+};
+
+export const POLICIES: PolicyTable = {
+    project: {
+        OWNER: ['read', 'update', 'delete', 'manage_members', 'create_task'],
+        MAINTAINER: ['read', 'update', 'manage_members', 'create_task'],
+        CONTRIBUTOR: ['read', 'create_task'],
+        VIEWER: ['read'],
+        PUBLIC: ['read'], // Any signed-in user, for projects with PUBLIC visibility
+    },
+    task: {
+        // Project roles carry over to the project's tasks
+        OWNER: ['read', 'update', 'delete', 'assign', 'comment'],
+        MAINTAINER: ['read', 'update', 'delete', 'assign', 'comment'],
+        CONTRIBUTOR: ['read', 'update', 'comment'],
+        VIEWER: ['read'],
+        ASSIGNEE: ['read', 'update', 'comment'],
+        REPORTER: ['read', 'update', 'comment'],
+    },
+    conversation: {
+        ADMIN: ['read', 'post', 'update', 'delete', 'manage_members', 'view_revisions'],
+        MEMBER: ['read', 'post'],
+    },
+    division: {
+        MANAGER: ['read', 'update', 'manage_members'],
+        MEMBER: ['read'],
+        VIEWER: ['read'],
+    },
+    file: {
+        UPLOADER: ['read', 'download', 'update', 'delete', 'share'],
+        SHARED_WRITE: ['read', 'download', 'update'],
+        SHARED_DOWNLOAD: ['read', 'download'],
+        SHARED_READ: ['read'],
+        ATTACHED: ['read', 'download'], // Can read the message, project or task the file is attached to
+        PUBLIC: ['read', 'download'],
+    },
+    user: {
+        SELF: ['read', 'update'],
+    },
+};
+
+/**
+ * What platform ADMINs may do regardless of their relations. Admins moderate conversations
+ * but do not post into ones they are not part of.
+ */
+export const ADMIN_OVERRIDES: { [R in ResourceType]: readonly ResourceAction<R>[] } = {
+    project: RESOURCE_ACTIONS.project,
+    task: RESOURCE_ACTIONS.task,
+    conversation: ['read', 'update', 'delete', 'manage_members', 'view_revisions'],
+    division: RESOURCE_ACTIONS.division,
+    file: RESOURCE_ACTIONS.file,
+    user: RESOURCE_ACTIONS.user,
+};
+
+/**
+ * Decide whether any of the caller's relations (or their admin role) grants the action
+ */
+export function isActionAllowed<R extends ResourceType>(
+    resourceType: R,
+    action: ResourceAction<R>,
+    subject: { isAdmin: boolean; relations: readonly ResourceRelation<R>[] },
+    policies: PolicyTable = POLICIES
+): boolean {
+    if (subject.isAdmin && (ADMIN_OVERRIDES[resourceType] as readonly string[]).includes(action)) {
+        return true;
+    }
+
+    const table = policies[resourceType] as Record<string, readonly string[]>;
+
+    return subject.relations.some((relation) => table[relation]?.includes(action));
+}
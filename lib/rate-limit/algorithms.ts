@@ -0,0 +1,107 @@
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetAt: number; // Epoch milliseconds
+    retryAfterMs: number; // 0 when allowed
+}
+
+// Algorithm state is stored as a flat JSON object so every store can persist it
+export type RateLimitState = Record<string, number>;
+
+interface SlidingWindowState extends RateLimitState {
+    windowStart: number;
+    count: number;
+    previousCount: number;
+}
+
+interface TokenBucketState extends RateLimitState {
+    tokens: number;
+    updatedAt: number;
+}
+
+/**
+ * Sliding window counter: weights the previous fixed window by how much of it still overlaps
+ * the sliding window, which smooths out bursts at window boundaries.
+ */
+export function slidingWindow(
+    limit: number,
+    windowMs: number,
+    previous: RateLimitState | null,
+    now: number
+): { state: SlidingWindowState; result: RateLimitResult } {
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    let count = 0;
+    let previousCount = 0;
+
+    if (previous?.windowStart === windowStart) {
+        count = previous.count;
+        previousCount = previous.previousCount;
+    } else if (previous?.windowStart === windowStart - windowMs) {
+        previousCount = previous.count;
+    }
+
+    const previousWeight = 1 - (now - windowStart) / windowMs;
+    const allowed = previousCount * previousWeight + count + 1 <= limit;
+
+    if (allowed) {
+        count++;
+    }
+
+    const used = previousCount * previousWeight + count;
+    const resetAt = windowStart + windowMs;
+
+    let retryAfterMs = 0;
+    if (!allowed) {
+        // Wait for the previous window's weight to decay enough, or for the next window
+        retryAfterMs = count + 1 > limit || previousCount === 0
+            ? resetAt - now
+            : windowStart + windowMs * (1 - (limit - 1 - count) / previousCount) - now;
+    }
+
+    return {
+        state: { windowStart, count, previousCount },
+        result: {
+            allowed,
+            limit,
+            remaining: Math.max(0, Math.floor(limit - used)),
+            resetAt,
+            retryAfterMs: Math.max(0, Math.ceil(retryAfterMs)),
+        },
+    };
+}
+
+/**
+ * Token bucket: holds up to `limit` tokens and refills the whole bucket over `windowMs`,
+ * allowing short bursts while enforcing the average rate.
+ */
+export function tokenBucket(
+    limit: number,
+    windowMs: number,
+    previous: RateLimitState | null,
+    now: number
+): { state: TokenBucketState; result: RateLimitResult } {
+    const refillPerMs = limit / windowMs;
+
+    let tokens = previous
+        ? Math.min(limit, previous.tokens + (now - previous.updatedAt) * refillPerMs)
+        : limit;
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+        tokens -= 1;
+    }
+
+    return {
+        state: { tokens, updatedAt: now },
+        result: {
+            allowed,
+            limit,
+            remaining: Math.floor(tokens),
+            resetAt: now + Math.ceil((limit - tokens) / refillPerMs),
+            retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+        },
+    };
+}
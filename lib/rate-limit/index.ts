@@ -0,0 +1,96 @@
+import { SettingsService } from '@/lib/settings';
+import { slidingWindow, tokenBucket, RateLimitAlgorithm, RateLimitResult } from './algorithms';
+import { MemoryRateLimitStore, PostgresRateLimitStore, RateLimitStore } from './stores';
+
+export type { RateLimitAlgorithm, RateLimitResult, RateLimitState } from './algorithms';
+export { MemoryRateLimitStore, PostgresRateLimitStore } from './stores';
+export type { RateLimitStore } from './stores';
+
+/**
+ * What a limit is counted against:
+ * - user: the signed-in user, falling back to the client IP
+ * - ip: the client IP
+ * - email: the email in the JSON body (per route), falling back to the client IP
+ */
+export type RateLimitKey = 'user' | 'ip' | 'email';
+
+export interface RateLimitPolicy {
+    algorithm: RateLimitAlgorithm;
+    limit: number; // Requests per window, or bucket capacity
+    windowMs: number; // Window length, or time to refill an empty bucket
+    key: RateLimitKey;
+}
+
+export type RateLimitPolicyDefaults = Pick<RateLimitPolicy, 'limit' | 'windowMs'> & Partial<RateLimitPolicy>;
+
+// Map of policy name to overrides, e.g. { "auth.login": { "limit": 10 } }
+export const RATE_LIMIT_POLICIES_KEY = 'rate_limit_policies';
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Build the store selected by RATE_LIMIT_STORE (memory or postgres).
+ * Defaults to Postgres in production so limits are shared between instances.
+ */
+function createStore(): RateLimitStore {
+    const kind = process.env.RATE_LIMIT_STORE || (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+
+    switch (kind) {
+        case 'memory':
+            return new MemoryRateLimitStore();
+        case 'postgres':
+            return new PostgresRateLimitStore();
+        default:
+            throw new Error(`Unknown rate limit store: ${kind}`);
+    }
+}
+
+export class RateLimiter {
+    /**
+     * Resolve a named policy, applying overrides from settings over the route's defaults
+     */
+    static async getPolicy(name: string, defaults: RateLimitPolicyDefaults): Promise<RateLimitPolicy> {
+        const overrides = await SettingsService.get<Record<string, Partial<RateLimitPolicy>>>(RATE_LIMIT_POLICIES_KEY, {});
+
+        return {
+            algorithm: 'sliding-window',
+            key: 'user',
+            ...defaults,
+            ...overrides[name],
+        };
+    }
+
+    /**
+     * Count one request against a policy for the given identifier
+     */
+    static async consume(name: string, policy: RateLimitPolicy, identifier: string): Promise<RateLimitResult> {
+        const key = `${name}:${policy.algorithm}:${identifier}`;
+        const now = Date.now();
+
+        if (policy.algorithm === 'token-bucket') {
+            return this.getStore().consume(key, policy.windowMs, (state) =>
+                tokenBucket(policy.limit, policy.windowMs, state, now)
+            );
+        }
+
+        // Sliding windows still need the previous window's count
+        return this.getStore().consume(key, policy.windowMs * 2, (state) =>
+            slidingWindow(policy.limit, policy.windowMs, state, now)
+        );
+    }
+
+    static getStore(): RateLimitStore {
+        if (!store) {
+            store = createStore();
+        }
+
+        return store;
+    }
+
+    /**
+     * Replace the active store (e.g. with a fresh MemoryRateLimitStore in tests)
+     */
+    static setStore(value: RateLimitStore | null): void {
+        store = value;
+    }
+}
@@ -0,0 +1,88 @@
+import { eq, lt } from 'drizzle-orm';
+import { db } from '@/db';
+import { rateLimitBuckets } from '@/db/schema';
+import type { RateLimitState } from './algorithms';
+
+export type RateLimitUpdate<T> = (state: RateLimitState | null) => { state: RateLimitState; result: T };
+
+export interface RateLimitStore {
+    /**
+     * Atomically read the state for a key, apply `update` and persist the new state for `ttlMs`
+     */
+    consume<T>(key: string, ttlMs: number, update: RateLimitUpdate<T>): Promise<T>;
+}
+
+/**
+ * Per-process store. Counters reset on restart and are not shared between instances.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private entries = new Map<string, { state: RateLimitState; expiresAt: number }>();
+
+    async consume<T>(key: string, ttlMs: number, update: RateLimitUpdate<T>): Promise<T> {
+        const now = Date.now();
+
+        // Clean up expired entries
+        for (const [entryKey, entry] of this.entries) {
+            if (entry.expiresAt < now) {
+                this.entries.delete(entryKey);
+            }
+        }
+
+        const { state, result } = update(this.entries.get(key)?.state ?? null);
+        this.entries.set(key, { state, expiresAt: now + ttlMs });
+
+        return result;
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+const POSTGRES_CLEANUP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Store shared by every instance through the rate_limit_buckets table. Row locks serialize
+ * concurrent requests for the same key.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+    private lastCleanupAt = 0;
+
+    async consume<T>(key: string, ttlMs: number, update: RateLimitUpdate<T>): Promise<T> {
+        const now = new Date();
+
+        if (now.getTime() - this.lastCleanupAt > POSTGRES_CLEANUP_INTERVAL_MS) {
+            this.lastCleanupAt = now.getTime();
+            await db
+                .delete(rateLimitBuckets)
+                .where(lt(rateLimitBuckets.expiresAt, now));
+        }
+
+        return db.transaction(async (tx) => {
+            // Make sure a row exists so that it can be locked
+            await tx
+                .insert(rateLimitBuckets)
+                .values({ key, expiresAt: new Date(now.getTime() + ttlMs) })
+                .onConflictDoNothing();
+
+            const [bucket] = await tx
+                .select()
+                .from(rateLimitBuckets)
+                .where(eq(rateLimitBuckets.key, key))
+                .for('update');
+
+            const current = bucket.state && bucket.expiresAt >= now ? bucket.state : null;
+            const { state, result } = update(current);
+
+            await tx
+                .update(rateLimitBuckets)
+                .set({
+                    state,
+                    expiresAt: new Date(now.getTime() + ttlMs),
+                })
+                .where(eq(rateLimitBuckets.key, key));
+
+            return result;
+        });
+    }
+}
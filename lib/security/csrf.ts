@@ -0,0 +1,55 @@
+import type { NextRequest } from 'next/server';
+
+// Double-submit token: the cookie is readable by our own pages, which echo it in the header.
+// Other sites can make the browser send the cookie but cannot read it to forge the header.
+export const CSRF_COOKIE = 'csrf_token';
+export const CSRF_HEADER = 'x-csrf-token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Cookies that authenticate a request on their own
+const AUTH_COOKIES = ['access_token', 'refresh_token'];
+
+/**
+ * Generate a random CSRF token (runs in the edge middleware, so uses Web Crypto)
+ */
+export function generateCsrfToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Whether a request must carry a CSRF token: a mutating API request that the browser could have
+ * authenticated with cookies. Bearer token requests are exempt, since other sites cannot set headers.
+ */
+export function requiresCsrfCheck(req: NextRequest): boolean {
+    if (SAFE_METHODS.includes(req.method) || !req.nextUrl.pathname.startsWith('/api/')) {
+        return false;
+    }
+
+    if (req.headers.get('authorization')?.startsWith('Bearer ')) {
+        return false;
+    }
+
+    return AUTH_COOKIES.some((name) => req.cookies.has(name));
+}
+
+/**
+ * Whether the CSRF header matches the CSRF cookie
+ */
+export function hasValidCsrfToken(req: NextRequest): boolean {
+    const cookie = req.cookies.get(CSRF_COOKIE)?.value;
+    const header = req.headers.get(CSRF_HEADER);
+
+    if (!cookie || !header || cookie.length !== header.length) {
+        return false;
+    }
+
+    // Constant-time comparison
+    let difference = 0;
+    for (let i = 0; i < cookie.length; i++) {
+        difference |= cookie.charCodeAt(i) ^ header.charCodeAt(i);
+    }
+
+    return difference === 0;
+}
@@ -0,0 +1,3 @@
+export { CSRF_COOKIE, CSRF_HEADER, generateCsrfToken, requiresCsrfCheck, hasValidCsrfToken } from './csrf';
+export { generateNonce, buildContentSecurityPolicy, applySecurityHeaders } from './headers';
+export { getAllowedOrigins } from './origins';
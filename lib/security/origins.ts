@@ -0,0 +1,22 @@
+/**
+ * Origins allowed to make credentialed cross-origin requests, from CORS_ALLOWED_ORIGINS
+ * (comma-separated). Defaults to the app's own URL, plus localhost during development.
+ */
+export function getAllowedOrigins(): string[] {
+    const configured = (process.env.CORS_ALLOWED_ORIGINS || '')
+        .split(',')
+        .map((origin) => origin.trim().replace(/\/$/, ''))
+        .filter(Boolean);
+
+    if (configured.length > 0) {
+        return configured;
+    }
+
+    const origins = [process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'];
+
+    if (process.env.NODE_ENV !== 'production') {
+        origins.push('http://localhost:3000');
+    }
+
+    return origins;
+}
@@ -0,0 +1,89 @@
+import { eq } from 'drizzle-orm';
+import { db } from '@/db';
+import { settings } from '@/db/schema';
+
+const CACHE_TTL_MS = 30 * 1000; // Settings changes propagate within 30 seconds
+
+const cache = new Map<string, { value: unknown; expiresAt: number }>();
+
+export class SettingsService {
+    /**
+     * Read a setting, parsing its JSON value. Falls back to the default when missing or invalid.
+     */
+    static async get<T>(key: string, defaultValue: T): Promise<T> {
+        const cached = cache.get(key);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.value as T;
+        }
+
+        let value: T = defaultValue;
+
+        try {
+            const [setting] = await db
+                .select({ value: settings.value })
+                .from(settings)
+                .where(eq(settings.key, key))
+                .limit(1);
+
+            if (setting) {
+                const parsed = JSON.parse(setting.value);
+
+                // Merge object settings over their defaults so new fields get sensible values
+                value = this.isPlainObject(parsed) && this.isPlainObject(defaultValue)
+                    ? { ...defaultValue, ...parsed }
+                    : parsed;
+            }
+        } catch (error) {
+            console.error(`Failed to read setting "${key}":`, error);
+        }
+
+        cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+
+        return value;
+    }
+
+    /**
+     * Create or update a setting
+     */
+    static async set(
+        key: string,
+        value: unknown,
+        options: {
+            description?: string;
+            category?: string;
+            isPublic?: boolean;
+        } = {}
+    ): Promise<void> {
+        const serialized = JSON.stringify(value);
+
+        await db
+            .insert(settings)
+            .values({
+                key,
+                value: serialized,
+                description: options.description,
+                category: options.category,
+                isPublic: options.isPublic,
+            })
+            .onConflictDoUpdate({
+                target: settings.key,
+                set: {
+                    value: serialized,
+                    updatedAt: new Date(),
+                },
+            });
+
+        cache.delete(key);
+    }
+
+    /**
+     * Drop cached values (e.g. after bulk updates)
+     */
+    static clearCache(): void {
+        cache.clear();
+    }
+
+    private static isPlainObject(value: unknown): value is Record<string, unknown> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    CSRF_COOKIE,
+    generateCsrfToken,
+    requiresCsrfCheck,
+    hasValidCsrfToken,
+    generateNonce,
+    buildContentSecurityPolicy,
+    applySecurityHeaders,
+} from '@/lib/security';
+
+/**
+ * Applies to every request: rejects cookie-authenticated API mutations without a matching
+ * CSRF token, issues the CSRF cookie and sets the security headers.
+ */
+export function middleware(req: NextRequest): NextResponse {
+    const nonce = generateNonce();
+    const contentSecurityPolicy = buildContentSecurityPolicy(nonce);
+    let response: NextResponse;
+
+    if (requiresCsrfCheck(req) && !hasValidCsrfToken(req)) {
+        response = NextResponse.json(
+            { error: 'Invalid or missing CSRF token', code: 'CSRF_TOKEN_INVALID' },
+            { status: 403 }
+        );
+    } else {
+        // Next.js reads the nonce from the request's policy and adds it to its scripts
+        const requestHeaders = new Headers(req.headers);
+        requestHeaders.set('x-nonce', nonce);
+        requestHeaders.set('Content-Security-Policy', contentSecurityPolicy);
+
+        response = NextResponse.next({ request: { headers: requestHeaders } });
+    }
+
+    applySecurityHeaders(response.headers, contentSecurityPolicy);
+
+    if (!req.cookies.has(CSRF_COOKIE)) {
+        const isSecure = process.env.NODE_ENV === 'production';
+
+        response.cookies.set(CSRF_COOKIE, generateCsrfToken(), {
+            httpOnly: false, // Pages read it to send it back in the X-CSRF-Token header
+            secure: isSecure,
+            sameSite: isSecure ? 'strict' : 'lax',
+            path: '/',
+        });
+    }
+
+    return response;
+}
+
+export const config = {
+    // Everything except static assets
+    matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};